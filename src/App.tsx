@@ -3,8 +3,8 @@ import './index.css'
 import { Sidebar } from './components/Sidebar'
 import { LensPanel } from './components/LensPanel'
 import { Navigation } from './components/Navigation'
-import { LENSES, type LensKey, type ExportBundle, type LensDefinition } from './types'
-import { seedIfEmpty, db, ensureDbReady } from './db'
+import { LENSES, type LensKey, type ExportBundle, type ItemRecord, type LensDefinition, type Scenario, type Task } from './types'
+import { seedIfEmpty, db, ensureDbReady, linkPersonReferences, linkItemParentReferences, collapseRelationshipPairs, getActiveScenarioId, setActiveScenarioId } from './db'
 import { GraphModal } from './components/GraphModal'
 import { TeamModal } from './components/TeamModal'
 import { TeamManager } from './components/TeamManager'
@@ -16,15 +16,44 @@ import { DivestReplacementView } from './components/DivestReplacementView'
 import { invalidateLensesCache, getLensOrderSync } from './utils/lensOrder'
 import { getAllLenses } from './db'
 import { Modal } from './components/Modal'
+import { TrashView } from './components/TrashView'
+import { purgeExpiredTrash } from './utils/trash'
+import { getRelationshipTypes, invalidateRelationshipTypesCache, loadRelationshipTypes } from './utils/relationshipTypes'
+import { ScenariosView } from './components/ScenariosView'
+import { activateScenario, getScenarios } from './utils/scenarios'
+import { getActiveWorkspace } from './utils/workspaceStorage'
+import { TagManagerView } from './components/TagManagerView'
+import { invalidateTagDefinitionsCache, loadTagDefinitions } from './utils/tags'
+import { search, type SearchResult } from './utils/search'
+import { SearchResults } from './components/SearchResults'
+import { DataQualityView } from './components/DataQualityView'
+import { CsvImportDialog } from './components/CsvImportDialog'
+import { exportRelationshipsCsv } from './utils/relationshipCsv'
+import { exportArchimateXml, importArchimateModel, parseArchimateXml } from './utils/archimate'
+import { applyMerge, mergeDefinitions, planMerge, type MergePlan } from './utils/importMerge'
+import { EXPORT_BUNDLE_VERSION, MAX_REPORTED_ERRORS, parseExportBundle } from './utils/exportBundle'
+import { MergeConflictsDialog } from './components/MergeConflictsDialog'
+import { invalidateDataQualityRulesCache, loadDataQualityRules } from './utils/dataQuality'
+import { ItemDialog } from './components/ItemDialog'
+import { TaskDialog } from './components/TaskDialog'
 
-type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes' | 'settings' | 'tasks' | 'divest-replacement'
+type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes' | 'settings' | 'tasks' | 'divest-replacement' | 'trash' | 'scenarios' | 'tags' | 'data-quality'
 
 function App() {
   const [lenses, setLenses] = useState<LensDefinition[]>(LENSES)
   const initialVisible = useMemo(() => Object.fromEntries(lenses.map(l => [l.key, true])) as Record<LensKey, boolean>, [lenses])
   const [visible, setVisible] = useState<Record<LensKey, boolean>>(initialVisible)
   const [query, setQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null) // null when not searching
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [searchVersion, setSearchVersion] = useState(0) // Re-runs the search after an edit
+  const [searchItem, setSearchItem] = useState<ItemRecord | null>(null) // Item opened from a search result
+  const [searchTask, setSearchTask] = useState<Task | null>(null) // Task opened from a search result
+  const [asOfDate, setAsOfDate] = useState('') // YYYY-MM-DD to view the landscape on; empty for today
   const [currentView, setCurrentView] = useState<ViewType>('main')
+  const [scenarios, setScenarios] = useState<Scenario[]>([])
+  const [activeScenarioId, setActiveScenario] = useState<number | null>(getActiveScenarioId())
+  const [scenarioKey, setScenarioKey] = useState(0) // Remounts the views when the active scenario changes
   const [filteredLens, setFilteredLens] = useState<LensKey | null>(null) // Filter main view to single lens
   const [teamManagerPersonName, setTeamManagerPersonName] = useState<string | undefined>(undefined)
   const [teamModalRefreshKey, setTeamModalRefreshKey] = useState(0)
@@ -47,8 +76,14 @@ function App() {
     theme: false,
   })
   const [importDialogOpen, setImportDialogOpen] = useState(false)
+  const [csvImportOpen, setCsvImportOpen] = useState(false)
   const [importFile, setImportFile] = useState<File | null>(null)
   const [importData, setImportData] = useState<ExportBundle | null>(null)
+  // References to records missing from the file, which are left out of the import
+  const [importWarnings, setImportWarnings] = useState<string[]>([])
+  // Replace clears the selected tables first; merge combines the file with them
+  const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace')
+  const [mergePlan, setMergePlan] = useState<MergePlan | null>(null)
   const [importOptions, setImportOptions] = useState<{
     lenses: boolean
     people: boolean
@@ -82,6 +117,29 @@ function App() {
     setLensOrderKey(k => k + 1)
   }
 
+  async function reloadScenarios() {
+    const all = await getScenarios()
+    setScenarios(all)
+    // The active scenario may have been deleted (or the data replaced) elsewhere
+    const active = getActiveScenarioId()
+    if (active !== null && !all.some(s => s.id === active)) setActiveScenarioId(null)
+    setActiveScenario(getActiveScenarioId())
+  }
+
+  async function handleScenarioChange(id: number | null) {
+    try {
+      const skipped = await activateScenario(id)
+      if (skipped > 0) {
+        alert(`${skipped} change${skipped === 1 ? '' : 's'} in this scenario no longer fit the baseline and were left out.`)
+      }
+    } catch (e) {
+      console.error('Failed to switch scenario:', e)
+      alert(e instanceof Error ? e.message : 'Failed to switch scenario')
+    }
+    await reloadScenarios()
+    setScenarioKey(k => k + 1)
+  }
+
   useEffect(() => {
     async function init() {
       try {
@@ -92,6 +150,12 @@ function App() {
         // Ensure database is ready (open and migrations complete)
         await ensureDbReady()
         await seedIfEmpty()
+        await loadRelationshipTypes()
+        await loadTagDefinitions()
+        await loadDataQualityRules()
+        // Permanently remove trash older than the retention period
+        await purgeExpiredTrash()
+        await reloadScenarios()
         // Load lenses from database (getAllLenses will seed if needed)
         const dbLenses = await getAllLenses()
         if (dbLenses.length > 0) {
@@ -162,6 +226,52 @@ function App() {
     }
   }, [])
 
+  // Debounced global search; results also filter the lens panels
+  useEffect(() => {
+    if (!query.trim()) {
+      setSearchResults(null)
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const results = await search(query, asOfDate)
+        if (!cancelled) setSearchResults(results)
+      } catch (e) {
+        console.error('Search failed:', e)
+      }
+    }, 200)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, asOfDate, searchVersion])
+
+  const matchedItemIds = useMemo(
+    () => searchResults ? new Set(searchResults.filter(r => r.kind === 'item').map(r => r.id)) : null,
+    [searchResults]
+  )
+
+  function handleSearchSelect(result: SearchResult) {
+    setSearchOpen(false)
+    switch (result.kind) {
+      case 'item':
+        setSearchItem(result.record)
+        break
+      case 'note':
+        setMeetingNoteToOpen(result.id)
+        handleNavigate('meeting-notes')
+        break
+      case 'task':
+        setSearchTask(result.record)
+        break
+      case 'person':
+        setTeamManagerPersonName(result.record.name)
+        handleNavigate('manage-team')
+        break
+    }
+  }
+
   function toggleLens(lens: LensKey) {
     setVisible(v => ({ ...v, [lens]: !v[lens] }))
   }
@@ -188,8 +298,9 @@ function App() {
 
   async function onExport() {
     const bundle: ExportBundle = {
-      version: 1,
+      version: EXPORT_BUNDLE_VERSION,
       exportedAt: new Date().toISOString(),
+      workspace: getActiveWorkspace().name,
       items: [],
       relationships: [],
     }
@@ -197,6 +308,10 @@ function App() {
     if (exportOptions.all) {
       bundle.items = await db.items.toArray()
       bundle.relationships = await db.relationships.toArray()
+      bundle.relationshipTypes = await db.relationshipTypes.toArray()
+      bundle.tagDefinitions = await db.tagDefinitions.toArray()
+      bundle.savedFilters = await db.savedFilters.toArray()
+      bundle.dataQualityRules = await db.dataQualityRules.toArray()
       bundle.teamMembers = await db.teamMembers.toArray()
       bundle.meetingNotes = await db.meetingNotes.toArray()
       bundle.tasks = await db.tasks.toArray()
@@ -207,6 +322,12 @@ function App() {
       if (exportOptions.lenses) {
         bundle.items = await db.items.toArray()
         bundle.relationships = await db.relationships.toArray()
+        bundle.relationshipTypes = await db.relationshipTypes.toArray()
+        bundle.tagDefinitions = await db.tagDefinitions.toArray()
+        bundle.savedFilters = await db.savedFilters.toArray()
+        bundle.dataQualityRules = await db.dataQualityRules.toArray()
+        // Lets the importer check the items' lens keys
+        bundle.lenses = await db.lenses.toArray()
       }
       if (exportOptions.people) {
         bundle.teamMembers = await db.teamMembers.toArray()
@@ -234,21 +355,85 @@ function App() {
     setExportDialogOpen(false)
   }
 
+  async function handleExportRelationshipsCsv() {
+    const blob = new Blob([await exportRelationshipsCsv()], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'arch-lenses-relationships.csv'
+    a.click()
+    URL.revokeObjectURL(url)
+    setExportDialogOpen(false)
+  }
+
+  async function handleExportArchimate() {
+    const blob = new Blob([await exportArchimateXml(getActiveWorkspace().name)], { type: 'application/xml' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'arch-lenses-archimate.xml'
+    a.click()
+    URL.revokeObjectURL(url)
+    setExportDialogOpen(false)
+  }
+
+  async function handleArchimateImportClick(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    if (getActiveScenarioId() !== null) {
+      alert('Switch back to the baseline before importing.')
+      return
+    }
+    try {
+      const model = parseArchimateXml(await file.text())
+      const message = `Import ${model.elements.length} elements and ${model.relationships.length} relationships from "${model.name || file.name}"?\n\n`
+        + 'Elements go into the lens mapped to their ArchiMate type (see Settings) and update items with the same name.'
+      if (!confirm(message)) return
+      await ensureDbReady()
+      const result = await importArchimateModel(model)
+      const skipped = Object.entries(result.skippedElements).map(([type, count]) => `${count} ${type}`)
+      alert([
+        `Items: ${result.created} created, ${result.updated} updated.`,
+        `Relationships: ${result.relationshipsCreated} created, ${result.relationshipsUpdated} updated.`,
+        ...(skipped.length > 0 ? [`Skipped elements with no lens for their type: ${skipped.join(', ')}.`] : []),
+        ...(result.skippedRelationships > 0 ? [`Skipped ${result.skippedRelationships} relationships between skipped elements.`] : []),
+      ].join('\n'))
+      setLensOrderKey(k => k + 1)
+    } catch (error) {
+      console.error('Error importing ArchiMate file:', error)
+      alert(`ArchiMate import failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
   async function handleImportClick(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0]
     if (!file) return
+    if (getActiveScenarioId() !== null) {
+      alert('Switch back to the baseline before importing.')
+      e.target.value = ''
+      return
+    }
     
     try {
       const text = await file.text()
-      const data = JSON.parse(text) as ExportBundle
+      await ensureDbReady()
+      const localLenses = await getAllLenses()
+      const { bundle: data, warnings } = parseExportBundle(text, {
+        lensKeys: localLenses.map(l => l.key),
+        relationshipTypes: getRelationshipTypes().map(t => t.name),
+      })
       setImportFile(file)
       setImportData(data)
+      setImportWarnings(warnings)
       
       // Auto-detect what's available in the import file
       const hasLenses = !!(data.items && data.items.length > 0)
       const hasPeople = !!(data.teamMembers && data.teamMembers.length > 0)
       const hasNotes = !!((data.meetingNotes && data.meetingNotes.length > 0) || (data.tasks && data.tasks.length > 0))
-      const hasCustomLenses = !!(data.lenses && data.lenses.length > 0)
+      // Lenses come with every export of items; only offer them when the file adds lenses
+      const localKeys = new Set(localLenses.map(l => l.key))
+      const hasCustomLenses = !!data.lenses?.some(l => !localKeys.has(l.key))
       const hasTheme = !!data.theme
       
       setImportOptions({
@@ -262,7 +447,7 @@ function App() {
       setImportDialogOpen(true)
     } catch (error) {
       console.error('Error reading import file:', error)
-      alert('Error reading import file. Please check the file format.')
+      alert(`Error reading import file.\n\n${error instanceof Error ? error.message : String(error)}`)
     }
     // Reset file input
     e.target.value = ''
@@ -284,7 +469,21 @@ function App() {
       return
     }
     
-    const message = `Import will REPLACE the following data types:\n\n${selectedTypes.join('\n')}\n\nThis will completely replace existing data of these types. Continue?`
+    if (importMode === 'merge') {
+      try {
+        await ensureDbReady()
+        setMergePlan(await planMerge(importData, importOptions))
+      } catch (error) {
+        console.error('Error preparing merge:', error)
+        alert(`Merge failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      return
+    }
+
+    // Scenarios and trashed items refer to the replaced item ids, so they go too
+    const dependents = importOptions.lenses ? '\n\nAll scenarios and trashed items, lenses and meeting notes will be deleted.' : ''
+    const historyNote = importOptions.lenses || importOptions.people || importOptions.notes ? '\n\nThe change history of the replaced data will be deleted.' : ''
+    const message = `Import will REPLACE the following data types:\n\n${selectedTypes.join('\n')}${dependents}${historyNote}\n\nThis will completely replace existing data of these types. Continue?`
     if (!confirm(message)) return
     
     try {
@@ -306,11 +505,16 @@ function App() {
         tablesToClear.push('lenses')
       }
       
-      await db.transaction('rw', [db.items, db.relationships, db.teamMembers, db.meetingNotes, db.tasks, db.lenses], async () => {
+      await db.transaction('rw', [db.items, db.relationships, db.relationshipTypes, db.tagDefinitions, db.savedFilters, db.dataQualityRules, db.teamMembers, db.meetingNotes, db.tasks, db.lenses, db.scenarios, db.scenarioItems, db.scenarioRelationships, db.trash, db.history], async () => {
         // Clear only selected tables
         if (importOptions.lenses) {
           await db.items.clear()
           await db.relationships.clear()
+          await db.scenarios.clear()
+          await db.scenarioItems.clear()
+          await db.scenarioRelationships.clear()
+          // Trashed team members hold no item references and can still be restored
+          await db.trash.where('kind').notEqual('teamMember').delete()
         }
         if (importOptions.people) {
           await db.teamMembers.clear()
@@ -322,12 +526,32 @@ function App() {
         if (importOptions.customLenses) {
           await db.lenses.clear()
         }
+        // Imported records reuse ids, so old history would show (and revert) onto them
+        await db.history.filter(entry => tablesToClear.includes(entry.table)).delete()
         
         // Import only selected data
         if (importOptions.lenses && importData.items) {
           await db.items.bulkAdd(importData.items)
           if (importData.relationships) {
-            await db.relationships.bulkAdd(importData.relationships)
+            // Older backups hold every relationship twice, once from each side
+            await db.relationships.bulkAdd(collapseRelationshipPairs(importData.relationships).kept)
+          }
+          // Backups from before relationship types were configurable only use the built-in ones
+          if (importData.relationshipTypes?.length) {
+            await db.relationshipTypes.clear()
+            await db.relationshipTypes.bulkAdd(importData.relationshipTypes)
+          }
+          if (importData.tagDefinitions) {
+            await db.tagDefinitions.clear()
+            await db.tagDefinitions.bulkAdd(importData.tagDefinitions)
+          }
+          if (importData.savedFilters) {
+            await db.savedFilters.clear()
+            await db.savedFilters.bulkAdd(importData.savedFilters)
+          }
+          if (importData.dataQualityRules) {
+            await db.dataQualityRules.clear()
+            await db.dataQualityRules.bulkAdd(importData.dataQualityRules)
           }
         }
         if (importOptions.people && importData.teamMembers) {
@@ -363,43 +587,91 @@ function App() {
           }
         }
       })
-      
-      // Import theme if selected
-      if (importOptions.theme && importData.theme) {
-        // Validate and merge theme data
-        const currentTheme = loadTheme()
-        const incomingTheme = (importData.theme as any) || {}
-        const importedTheme: Theme = {
-          name: incomingTheme.name || currentTheme.name,
-          colors: {
-            ...currentTheme.colors,
-            ...(incomingTheme.colors || {}),
-          },
-          fonts: {
-            ...currentTheme.fonts,
-            ...(incomingTheme.fonts || {}),
-          },
-        }
-        saveTheme(importedTheme)
-        applyTheme(importedTheme)
+      if (importOptions.lenses) {
+        await reloadScenarios()
+        setScenarioKey(k => k + 1)
       }
-      
-      alert('Import complete')
-      setImportDialogOpen(false)
-      setImportFile(null)
-      setImportData(null)
-      setImportOptions({ lenses: false, people: false, notes: false, customLenses: false, theme: false })
-      
-      // Refresh views
-      setTeamModalRefreshKey(k => k + 1)
-      setLensOrderKey(k => k + 1)
-      await reloadLenses()
+      await finishImport()
     } catch (error) {
       console.error('Error during import:', error)
       alert(`Import failed: ${error instanceof Error ? error.message : String(error)}\n\nPlease check the browser console for details.`)
     }
   }
 
+  // Merge the file into the current data once its conflicts are resolved
+  async function onMergeConfirm(plan: MergePlan) {
+    if (!importData) return
+    setMergePlan(null)
+    try {
+      await applyMerge(importData, importOptions, plan)
+      await mergeDefinitions(importData, importOptions)
+      await finishImport()
+    } catch (error) {
+      console.error('Error during merge:', error)
+      alert(`Merge failed: ${error instanceof Error ? error.message : String(error)}\n\nPlease check the browser console for details.`)
+    }
+  }
+
+  // Re-link references, reload caches and views after either kind of import
+  async function finishImport() {
+    if (!importData) return
+    // Imported records may carry person ids from another database; re-resolve them by name
+    if (importOptions.lenses || importOptions.people || importOptions.notes) {
+      await linkPersonReferences()
+    }
+    // Older backups only record parents by name
+    if (importOptions.lenses) {
+      await linkItemParentReferences()
+    }
+    if (importOptions.lenses && importData.relationshipTypes?.length) {
+      invalidateRelationshipTypesCache()
+      await loadRelationshipTypes()
+    }
+    if (importOptions.lenses && importData.tagDefinitions) {
+      invalidateTagDefinitionsCache()
+      await loadTagDefinitions()
+    }
+    if (importOptions.lenses && importData.savedFilters) {
+      window.dispatchEvent(new CustomEvent('savedFiltersUpdated'))
+    }
+    if (importOptions.lenses && importData.dataQualityRules) {
+      invalidateDataQualityRulesCache()
+      await loadDataQualityRules()
+    }
+
+    // Import theme if selected
+    if (importOptions.theme && importData.theme) {
+      // Validate and merge theme data
+      const currentTheme = loadTheme()
+      const incomingTheme: Partial<Theme> = importData.theme || {}
+      const importedTheme: Theme = {
+        name: incomingTheme.name || currentTheme.name,
+        colors: {
+          ...currentTheme.colors,
+          ...(incomingTheme.colors || {}),
+        },
+        fonts: {
+          ...currentTheme.fonts,
+          ...(incomingTheme.fonts || {}),
+        },
+      }
+      saveTheme(importedTheme)
+      applyTheme(importedTheme)
+    }
+
+    alert('Import complete')
+    setImportDialogOpen(false)
+    setImportFile(null)
+    setImportData(null)
+    setImportMode('replace')
+    setImportOptions({ lenses: false, people: false, notes: false, customLenses: false, theme: false })
+
+    // Refresh views
+    setTeamModalRefreshKey(k => k + 1)
+    setLensOrderKey(k => k + 1)
+    await reloadLenses()
+  }
+
   function handleNavigate(view: ViewType) {
     setCurrentView(view)
     // Reset related state when navigating
@@ -417,8 +689,16 @@ function App() {
 
   return (
     <div className="h-screen w-screen flex flex-col bg-slate-50 dark:bg-slate-900">
-      <Navigation currentView={currentView} onNavigate={handleNavigate} />
-      <div className="flex flex-1 overflow-hidden">
+      <Navigation
+        currentView={currentView}
+        onNavigate={handleNavigate}
+        asOfDate={asOfDate}
+        onAsOfDateChange={setAsOfDate}
+        scenarios={scenarios}
+        activeScenarioId={activeScenarioId}
+        onScenarioChange={handleScenarioChange}
+      />
+      <div className="flex flex-1 overflow-hidden" key={scenarioKey}>
         {currentView === 'main' && (
           <>
             <Sidebar 
@@ -429,22 +709,38 @@ function App() {
               onFilterLens={(lens) => setFilteredLens(lens === filteredLens ? null : lens)}
               filteredLens={filteredLens}
               onOrderChange={() => setLensOrderKey(k => k + 1)}
+              query={query}
+              onApplyFilter={setQuery}
             />
             <main className="flex-1 p-4 overflow-auto">
               <header className="mb-4 flex items-center gap-3">
                 <h1 className="text-xl font-semibold">Architecture Lenses</h1>
-                <input
-                  value={query}
-                  onChange={e => setQuery(e.target.value)}
-                  placeholder="Global search..."
-                  className="ml-4 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent flex-1 max-w-md"
-                />
+                <div className="ml-4 relative flex-1 max-w-md">
+                  <input
+                    value={query}
+                    onChange={e => { setQuery(e.target.value); setSearchOpen(true) }}
+                    onFocus={() => setSearchOpen(true)}
+                    onBlur={() => setSearchOpen(false)}
+                    onKeyDown={e => { if (e.key === 'Escape') setSearchOpen(false) }}
+                    placeholder="Global search..."
+                    title={'Search items, notes, tasks and people. Filters: lens: status: tag: architect: related: type:\ne.g. lens:applications status:Divest architect:"Jane Doe"'}
+                    className="w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                  />
+                  {searchOpen && searchResults && (
+                    <SearchResults results={searchResults} onSelect={handleSearchSelect} />
+                  )}
+                </div>
                 <div className="ml-auto flex gap-2 items-center">
                   <button className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700" onClick={handleExportClick}>Export</button>
                   <label className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 cursor-pointer">
                     Import
                     <input type="file" accept="application/json" className="hidden" onChange={handleImportClick} />
                   </label>
+                  <button className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700" onClick={() => setCsvImportOpen(true)}>Import CSV</button>
+                  <label className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 cursor-pointer" title="ArchiMate Open Exchange Format (.xml)">
+                    Import ArchiMate
+                    <input type="file" accept=".xml,application/xml,text/xml" className="hidden" onChange={handleArchimateImportClick} />
+                  </label>
                 </div>
               </header>
               <div className="grid grid-cols-1 gap-4" key={lensOrderKey}>
@@ -463,7 +759,7 @@ function App() {
                     : visibleLenses
                   return lensesToShow.length > 0 ? (
                     lensesToShow.map(l => (
-                      <LensPanel key={l.key} lens={l.key} title={l.label} query={query} />
+                      <LensPanel key={l.key} lens={l.key} title={l.label} matchedItemIds={matchedItemIds} asOf={asOfDate} customFields={l.customFields} />
                     ))
                   ) : filteredLens ? (
                     <div className="text-center py-8 text-slate-500 dark:text-slate-400">
@@ -479,6 +775,7 @@ function App() {
           <GraphModal 
             visible={visible} 
             lensOrderKey={lensOrderKey}
+            asOf={asOfDate}
             onNavigate={handleNavigate}
           />
         )}
@@ -540,15 +837,80 @@ function App() {
           />
         )}
         {currentView === 'divest-replacement' && (
-          <DivestReplacementView onNavigate={handleNavigate} />
+          <DivestReplacementView onNavigate={handleNavigate} asOf={asOfDate} />
+        )}
+        {currentView === 'trash' && (
+          <TrashView />
+        )}
+        {currentView === 'tags' && (
+          <TagManagerView />
+        )}
+        {currentView === 'data-quality' && (
+          <DataQualityView asOf={asOfDate} />
+        )}
+        {currentView === 'scenarios' && (
+          <ScenariosView
+            scenarios={scenarios}
+            activeScenarioId={activeScenarioId}
+            onActivate={handleScenarioChange}
+            onChanged={reloadScenarios}
+          />
         )}
       </div>
+      {searchItem && (
+        <ItemDialog
+          open
+          onClose={() => setSearchItem(null)}
+          lens={searchItem.lens}
+          item={searchItem}
+          onSaved={async () => {
+            const updatedItem = await db.items.get(searchItem.id!)
+            if (updatedItem) setSearchItem(updatedItem)
+            setLensOrderKey(k => k + 1)
+            setSearchVersion(v => v + 1)
+          }}
+          onOpenMeetingNote={(noteId) => {
+            setSearchItem(null)
+            setMeetingNoteToOpen(noteId)
+            handleNavigate('meeting-notes')
+          }}
+          onEditPerson={(personName) => {
+            setSearchItem(null)
+            setTeamManagerPersonName(personName)
+            handleNavigate('manage-team')
+          }}
+        />
+      )}
+      {searchTask && (
+        <TaskDialog
+          open
+          onClose={() => setSearchTask(null)}
+          task={searchTask}
+          onSaved={() => setSearchVersion(v => v + 1)}
+        />
+      )}
       <Modal
         open={exportDialogOpen}
         onClose={() => setExportDialogOpen(false)}
         title="Export Data"
         footer={
           <>
+            <div className="mr-auto flex gap-2">
+              <button
+                className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
+                onClick={handleExportRelationshipsCsv}
+                title="Edge list in the format used by Import CSV"
+              >
+                Relationships as CSV
+              </button>
+              <button
+                className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
+                onClick={handleExportArchimate}
+                title="Items and relationships in the ArchiMate Open Exchange Format, for Archi and other ArchiMate tools"
+              >
+                ArchiMate (XML)
+              </button>
+            </div>
             <button
               className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
               onClick={() => setExportDialogOpen(false)}
@@ -659,6 +1021,7 @@ function App() {
           setImportDialogOpen(false)
           setImportFile(null)
           setImportData(null)
+          setImportMode('replace')
           setImportOptions({ lenses: false, people: false, notes: false, customLenses: false, theme: false })
         }}
         title="Import Data"
@@ -670,6 +1033,7 @@ function App() {
                 setImportDialogOpen(false)
                 setImportFile(null)
                 setImportData(null)
+                setImportMode('replace')
                 setImportOptions({ lenses: false, people: false, notes: false, customLenses: false, theme: false })
               }}
             >
@@ -679,7 +1043,7 @@ function App() {
               className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white"
               onClick={onImport}
             >
-              Import
+              {importMode === 'merge' ? 'Review merge' : 'Import'}
             </button>
           </>
         }
@@ -688,6 +1052,9 @@ function App() {
           {importFile && (
             <div className="text-sm text-slate-600 dark:text-slate-400">
               <p className="font-medium mb-2">File: {importFile.name}</p>
+              {importData?.workspace && (
+                <p className="mb-2">Exported from the "{importData.workspace}" workspace</p>
+              )}
               {importData && (
                 <div className="text-xs space-y-1 mb-4">
                   {importData.items && importData.items.length > 0 && (
@@ -707,12 +1074,35 @@ function App() {
                   )}
                 </div>
               )}
+              {importWarnings.length > 0 && (
+                <div className="text-xs mb-4 p-2 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                  <p className="font-medium mb-1">
+                    {importWarnings.length} reference{importWarnings.length === 1 ? '' : 's'} to records missing from the file will be left out:
+                  </p>
+                  {importWarnings.slice(0, MAX_REPORTED_ERRORS).map(warning => <p key={warning}>• {warning}</p>)}
+                  {importWarnings.length > MAX_REPORTED_ERRORS && <p>...and {importWarnings.length - MAX_REPORTED_ERRORS} more</p>}
+                </div>
+              )}
             </div>
           )}
           <div className="space-y-2">
+            <div className="flex gap-4 mb-2">
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input type="radio" name="import-mode" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} />
+                <span>Replace</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input type="radio" name="import-mode" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} />
+                <span>Merge</span>
+              </label>
+            </div>
             <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Select what to import:</p>
             <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
-              <strong>Note:</strong> Import will REPLACE (not merge) the selected data types. Existing data of the selected types will be completely replaced.
+              {importMode === 'replace' ? (
+                <><strong>Note:</strong> Import will REPLACE (not merge) the selected data types. Existing data of the selected types will be completely replaced.</>
+              ) : (
+                <>Merge adds the file's records to the selected data types. Items are matched by lens and name, people by name and notes by title and date; you choose what to keep for records that differ before anything is saved.</>
+              )}
             </p>
             {importData && (
               <>
@@ -771,6 +1161,20 @@ function App() {
           </div>
         </div>
       </Modal>
+      <MergeConflictsDialog
+        plan={mergePlan}
+        onCancel={() => setMergePlan(null)}
+        onConfirm={onMergeConfirm}
+      />
+      <CsvImportDialog
+        open={csvImportOpen}
+        onClose={() => setCsvImportOpen(false)}
+        lenses={lenses}
+        onImported={() => {
+          setTeamModalRefreshKey(k => k + 1)
+          setLensOrderKey(k => k + 1)
+        }}
+      />
     </div>
   )
 }
@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from 'react'
+import clsx from 'clsx'
+import { db } from '../db'
+import type { ItemRecord, LensDefinition, LensKey, RelationshipRecord } from '../types'
+import {
+  CSV_ITEM_FIELDS,
+  applyCsvImport,
+  buildCsvImportPreview,
+  guessCsvMapping,
+  type CsvColumnMapping,
+} from '../utils/csvImport'
+import { parseCsv } from '../utils/csv'
+import {
+  RELATIONSHIP_CSV_FIELDS,
+  applyRelationshipCsvImport,
+  buildRelationshipCsvPreview,
+  guessRelationshipCsvMapping,
+} from '../utils/relationshipCsv'
+import { CUSTOM_FIELD_FILTER_PREFIX } from '../utils/customFields'
+import { Modal } from './Modal'
+
+const MAX_PREVIEW_ROWS = 200
+
+type CsvImportKind = 'items' | 'relationships'
+
+// Columns that must be mapped before anything can be imported
+const REQUIRED_TARGETS: Record<CsvImportKind, Array<{ key: string; label: string }>> = {
+  items: CSV_ITEM_FIELDS.filter(f => f.key === 'name'),
+  relationships: RELATIONSHIP_CSV_FIELDS.filter(f => ['fromLens', 'fromName', 'toLens', 'toName'].includes(f.key)),
+}
+
+interface CsvImportDialogProps {
+  open: boolean
+  onClose: () => void
+  lenses: LensDefinition[]
+  onImported?: () => void
+}
+
+// Wizard that imports items into one lens, or relationships between items, from
+// a spreadsheet exported as CSV
+export function CsvImportDialog({ open, onClose, lenses, onImported }: CsvImportDialogProps) {
+  const [kind, setKind] = useState<CsvImportKind>('items')
+  const [lens, setLens] = useState<LensKey>('')
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<CsvColumnMapping>([])
+  const [existingItems, setExistingItems] = useState<ItemRecord[]>([])
+  const [allItems, setAllItems] = useState<ItemRecord[]>([])
+  const [relationships, setRelationships] = useState<RelationshipRecord[]>([])
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  const customFields = useMemo(() => lenses.find(l => l.key === lens)?.customFields || [], [lenses, lens])
+
+  useEffect(() => {
+    if (!open) return
+    setLens(current => current || lenses[0]?.key || '')
+  }, [open, lenses])
+
+  useEffect(() => {
+    if (!lens) return
+    db.items.where('lens').equals(lens).toArray().then(setExistingItems)
+  }, [lens])
+
+  useEffect(() => {
+    if (!open || kind !== 'relationships') return
+    Promise.all([db.items.toArray(), db.relationships.toArray()]).then(([items, rels]) => {
+      setAllItems(items)
+      setRelationships(rels)
+    })
+  }, [open, kind])
+
+  const itemPreview = useMemo(
+    () => kind === 'items' ? buildCsvImportPreview(rows, mapping, customFields, existingItems) : [],
+    [kind, rows, mapping, customFields, existingItems]
+  )
+  const relationshipPreview = useMemo(
+    () => kind === 'relationships' ? buildRelationshipCsvPreview(rows, mapping, lenses, allItems, relationships) : [],
+    [kind, rows, mapping, lenses, allItems, relationships]
+  )
+  const preview = [
+    ...itemPreview.map(r => ({ ...r, label: r.name })),
+    ...relationshipPreview,
+  ]
+  const duplicateTargets = mapping.filter((target, idx) => target && mapping.indexOf(target) !== idx)
+  const missingTargets = REQUIRED_TARGETS[kind].filter(f => !mapping.includes(f.key))
+  const mappingError = missingTargets.length > 0
+    ? `Map a column to ${missingTargets.map(f => f.label).join(', ')}`
+    : duplicateTargets.length > 0
+      ? 'Each field can only be mapped from one column'
+      : null
+  const counts = {
+    create: preview.filter(r => r.errors.length === 0 && r.action === 'create').length,
+    update: preview.filter(r => r.errors.length === 0 && r.action === 'update').length,
+    invalid: preview.filter(r => r.errors.length > 0).length,
+  }
+  const shownRows = (errorsOnly ? preview.filter(r => r.errors.length > 0) : preview).slice(0, MAX_PREVIEW_ROWS)
+
+  function reset() {
+    setFileName('')
+    setHeaders([])
+    setRows([])
+    setMapping([])
+    setErrorsOnly(false)
+  }
+
+  function handleClose() {
+    reset()
+    onClose()
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const parsed = parseCsv(await file.text())
+      if (parsed.length < 2) {
+        alert('The file needs a header row and at least one row of data.')
+        return
+      }
+      setFileName(file.name)
+      setHeaders(parsed[0])
+      setRows(parsed.slice(1))
+      setMapping(kind === 'items' ? guessCsvMapping(parsed[0], customFields) : guessRelationshipCsvMapping(parsed[0]))
+    } catch (error) {
+      console.error('Error reading CSV file:', error)
+      alert('Error reading CSV file. Please check the file format.')
+    }
+  }
+
+  function handleLensChange(key: LensKey) {
+    setLens(key)
+    // Custom fields differ per lens, so map the columns again
+    const fields = lenses.find(l => l.key === key)?.customFields || []
+    setMapping(guessCsvMapping(headers, fields))
+  }
+
+  function handleKindChange(next: CsvImportKind) {
+    setKind(next)
+    setMapping(next === 'items' ? guessCsvMapping(headers, customFields) : guessRelationshipCsvMapping(headers))
+  }
+
+  async function handleImport() {
+    if (counts.create + counts.update === 0) {
+      alert('There are no valid rows to import.')
+      return
+    }
+    const lensLabel = lenses.find(l => l.key === lens)?.label || lens
+    const message = [
+      kind === 'items'
+        ? `Import into ${lensLabel}: ${counts.create} new and ${counts.update} updated items.`
+        : `Import ${counts.create} new and ${counts.update} updated relationships.`,
+      counts.invalid > 0 ? `${counts.invalid} rows with errors will be skipped.` : '',
+      'Continue?',
+    ].filter(Boolean).join('\n\n')
+    if (!confirm(message)) return
+    setImporting(true)
+    try {
+      const result = kind === 'items'
+        ? await applyCsvImport(lens, itemPreview)
+        : await applyRelationshipCsvImport(relationshipPreview)
+      alert(`Import complete: ${result.created} created, ${result.updated} updated.`)
+      onImported?.()
+      handleClose()
+    } catch (error) {
+      console.error('Error during CSV import:', error)
+      alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const fieldOptions = kind === 'items'
+    ? [
+        ...CSV_ITEM_FIELDS.map(f => ({ value: f.key, label: f.list ? `${f.label} (list)` : f.label })),
+        ...customFields.map(f => ({ value: CUSTOM_FIELD_FILTER_PREFIX + f.key, label: `${f.label} (custom)` })),
+      ]
+    : RELATIONSHIP_CSV_FIELDS.map(f => ({ value: f.key, label: f.label }))
+
+  return (
+    <Modal
+      open={open}
+      onClose={handleClose}
+      title="Import CSV"
+      wide
+      footer={
+        <>
+          <button
+            className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
+            onClick={handleClose}
+          >
+            Cancel
+          </button>
+          {headers.length > 0 && (
+            <button
+              className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white disabled:opacity-50"
+              onClick={handleImport}
+              disabled={!!mappingError || importing}
+            >
+              {importing ? 'Importing...' : `Import ${counts.create + counts.update} ${kind}`}
+            </button>
+          )}
+        </>
+      }
+    >
+      <div className="space-y-4 text-sm">
+        <div className="flex gap-3 items-end">
+          <label className="flex-1">
+            <span className="block mb-1">Import</span>
+            <select
+              value={kind}
+              onChange={e => handleKindChange(e.target.value as CsvImportKind)}
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+            >
+              <option value="items">Items</option>
+              <option value="relationships">Relationships (edge list)</option>
+            </select>
+          </label>
+          {kind === 'items' && (
+            <label className="flex-1">
+              <span className="block mb-1">Lens</span>
+              <select
+                value={lens}
+                onChange={e => handleLensChange(e.target.value)}
+                className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+              >
+                {lenses.map(l => <option key={l.key} value={l.key}>{l.label}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="px-3 py-1.5 rounded border border-slate-300 dark:border-slate-700 cursor-pointer">
+            {fileName ? 'Choose another file' : 'Choose CSV file'}
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          </label>
+        </div>
+
+        {headers.length === 0 ? (
+          <p className="text-slate-500 dark:text-slate-400">
+            {kind === 'items'
+              ? 'The first row must hold column headers. Items are matched to existing items in the lens by name and updated; other rows create new items. List fields take several values separated by commas or semicolons.'
+              : 'The first row must hold column headers: From lens, From name, To lens, To name, Type, Side, Lifecycle and Note. Lenses are matched by key or label and items by name. Side is the from item\'s side label; the to item gets the opposite one. Items that are already related have their relationship updated.'}
+          </p>
+        ) : (
+          <>
+            <div>
+              <h4 className="font-semibold mb-2">Columns in {fileName} ({rows.length} rows)</h4>
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                    <th className="py-1 pr-2">Column</th>
+                    <th className="py-1 pr-2">Example</th>
+                    <th className="py-1">Field</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {headers.map((header, col) => (
+                    <tr key={col} className="border-t border-slate-100 dark:border-slate-800">
+                      <td className="py-1 pr-2 font-medium">{header || `Column ${col + 1}`}</td>
+                      <td className="py-1 pr-2 text-slate-500 dark:text-slate-400 truncate max-w-[16rem]">
+                        {rows.find(r => r[col]?.trim())?.[col] || ''}
+                      </td>
+                      <td className="py-1">
+                        <select
+                          value={mapping[col] || ''}
+                          onChange={e => setMapping(m => m.map((target, idx) => idx === col ? e.target.value : target))}
+                          className={clsx(
+                            'w-full px-2 py-1 rounded border bg-white dark:bg-slate-900',
+                            mapping[col] && duplicateTargets.includes(mapping[col])
+                              ? 'border-red-400 dark:border-red-600'
+                              : 'border-slate-300 dark:border-slate-700'
+                          )}
+                        >
+                          <option value="">Ignore</option>
+                          {fieldOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {mappingError && <p className="mt-2 text-red-600 dark:text-red-400">{mappingError}</p>}
+            </div>
+
+            {!mappingError && (
+              <div>
+                <div className="flex items-center gap-3 mb-2">
+                  <h4 className="font-semibold">Preview</h4>
+                  <span className="text-green-700 dark:text-green-400">{counts.create} new</span>
+                  <span className="text-blue-700 dark:text-blue-400">{counts.update} updates</span>
+                  <span className="text-red-600 dark:text-red-400">{counts.invalid} with errors</span>
+                  <label className="ml-auto flex items-center gap-1 text-xs">
+                    <input type="checkbox" checked={errorsOnly} onChange={e => setErrorsOnly(e.target.checked)} />
+                    Only rows with errors
+                  </label>
+                </div>
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                      <th className="py-1 pr-2">Row</th>
+                      <th className="py-1 pr-2">{kind === 'items' ? 'Name' : 'Relationship'}</th>
+                      <th className="py-1 pr-2">Action</th>
+                      <th className="py-1">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shownRows.map(row => (
+                      <tr key={row.rowNumber} className="border-t border-slate-100 dark:border-slate-800 align-top">
+                        <td className="py-1 pr-2 text-slate-500 dark:text-slate-400">{row.rowNumber}</td>
+                        <td className="py-1 pr-2">{row.label}</td>
+                        <td className="py-1 pr-2">
+                          {row.errors.length > 0 ? 'Skip' : row.action === 'create' ? 'Create' : 'Update'}
+                        </td>
+                        <td className="py-1 text-red-600 dark:text-red-400">{row.errors.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {(errorsOnly ? counts.invalid : preview.length) > MAX_PREVIEW_ROWS && (
+                  <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Showing the first {MAX_PREVIEW_ROWS} rows.</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  )
+}
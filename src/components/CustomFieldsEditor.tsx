@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react'
+import { db } from '../db'
+import { type CustomFieldDefinition, type CustomFieldType, type LensDefinition } from '../types'
+import { CUSTOM_FIELD_TYPES, toCustomFieldKey } from '../utils/customFields'
+import { invalidateLensesCache } from '../utils/lensOrder'
+
+interface CustomFieldsEditorProps {
+  lens: LensDefinition
+  onSaved?: () => void
+}
+
+export function CustomFieldsEditor({ lens, onSaved }: CustomFieldsEditorProps) {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>(lens.customFields || [])
+  const [newLabel, setNewLabel] = useState('')
+  const [newType, setNewType] = useState<CustomFieldType>('text')
+  const [newRequired, setNewRequired] = useState(false)
+  const [newOptionsText, setNewOptionsText] = useState('')
+
+  useEffect(() => {
+    setFields(lens.customFields || [])
+  }, [lens])
+
+  function addField() {
+    const label = newLabel.trim()
+    if (!label) {
+      alert('Field label is required')
+      return
+    }
+    const key = toCustomFieldKey(label)
+    if (!key) {
+      alert('Field label must contain letters or numbers')
+      return
+    }
+    if (fields.some(f => f.key === key)) {
+      alert('A field with this name already exists for this lens')
+      return
+    }
+    const options = newOptionsText.split(',').map(o => o.trim()).filter(Boolean)
+    if (newType === 'enum' && options.length === 0) {
+      alert('Choice list fields need at least one option')
+      return
+    }
+    setFields([...fields, {
+      key,
+      label,
+      type: newType,
+      required: newRequired || undefined,
+      options: newType === 'enum' ? options : undefined,
+    }])
+    setNewLabel('')
+    setNewType('text')
+    setNewRequired(false)
+    setNewOptionsText('')
+  }
+
+  function updateField(index: number, updates: Partial<CustomFieldDefinition>) {
+    setFields(fields.map((f, i) => i === index ? { ...f, ...updates } : f))
+  }
+
+  function moveField(index: number, direction: 'up' | 'down') {
+    const target = direction === 'up' ? index - 1 : index + 1
+    if (target < 0 || target >= fields.length) return
+    const next = [...fields]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setFields(next)
+  }
+
+  function removeField(index: number) {
+    const field = fields[index]
+    if (!confirm(`Remove the field "${field.label}"? Existing values stay on items but are no longer shown.`)) return
+    setFields(fields.filter((_, i) => i !== index))
+  }
+
+  async function save() {
+    if (!lens.id) return
+    await db.lenses.update(lens.id, {
+      customFields: fields.length > 0 ? fields : undefined,
+      updatedAt: Date.now(),
+    })
+    invalidateLensesCache()
+    window.dispatchEvent(new CustomEvent('lensesUpdated'))
+    onSaved?.()
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-800 space-y-3">
+      <div className="text-sm font-medium">Custom fields</div>
+      {fields.length === 0 && (
+        <div className="text-sm text-slate-500 dark:text-slate-400">No custom fields</div>
+      )}
+      {fields.map((field, idx) => (
+        <div key={field.key} className="flex items-center gap-2 text-sm">
+          <div className="flex flex-col gap-0.5">
+            <button
+              onClick={() => moveField(idx, 'up')}
+              disabled={idx === 0}
+              className="px-1 py-0.5 text-[10px] rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveField(idx, 'down')}
+              disabled={idx === fields.length - 1}
+              className="px-1 py-0.5 text-[10px] rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Move down"
+            >
+              ↓
+            </button>
+          </div>
+          <input
+            value={field.label}
+            onChange={e => updateField(idx, { label: e.target.value })}
+            className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+          />
+          <span className="text-xs text-slate-500 dark:text-slate-400 w-24">
+            {CUSTOM_FIELD_TYPES.find(t => t.value === field.type)?.label || field.type}
+          </span>
+          {field.type === 'enum' && (
+            <input
+              value={(field.options || []).join(', ')}
+              onChange={e => updateField(idx, { options: e.target.value.split(',').map(o => o.trim()).filter(Boolean) })}
+              className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+              placeholder="Option, another option"
+            />
+          )}
+          <label className="flex items-center gap-1 text-xs">
+            <input
+              type="checkbox"
+              checked={!!field.required}
+              onChange={e => updateField(idx, { required: e.target.checked || undefined })}
+            />
+            Required
+          </label>
+          <button
+            onClick={() => removeField(idx)}
+            className="px-2 py-1 text-xs rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <div className="grid grid-cols-4 gap-2 items-end">
+        <div>
+          <label className="block text-xs mb-1">Label</label>
+          <input
+            value={newLabel}
+            onChange={e => setNewLabel(e.target.value)}
+            placeholder="e.g., Hosting Model"
+            className="w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700"
+          />
+        </div>
+        <div>
+          <label className="block text-xs mb-1">Type</label>
+          <select
+            value={newType}
+            onChange={e => setNewType(e.target.value as CustomFieldType)}
+            className="w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700"
+          >
+            {CUSTOM_FIELD_TYPES.map(t => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          {newType === 'enum' && (
+            <>
+              <label className="block text-xs mb-1">Options (comma separated)</label>
+              <input
+                value={newOptionsText}
+                onChange={e => setNewOptionsText(e.target.value)}
+                placeholder="Cloud, On-premise"
+                className="w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700"
+              />
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs">
+            <input type="checkbox" checked={newRequired} onChange={e => setNewRequired(e.target.checked)} />
+            Required
+          </label>
+          <button
+            onClick={addField}
+            className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+          >
+            Add Field
+          </button>
+        </div>
+      </div>
+      <button
+        onClick={save}
+        className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700"
+      >
+        Save Fields
+      </button>
+    </div>
+  )
+}
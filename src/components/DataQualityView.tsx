@@ -0,0 +1,421 @@
+import { useEffect, useMemo, useState } from 'react'
+import clsx from 'clsx'
+import { db, getAllLenses } from '../db'
+import {
+  DATA_QUALITY_SEVERITIES,
+  LIFECYCLE_STATUSES,
+  type DataQualityRule,
+  type DataQualitySeverity,
+  type ItemRecord,
+  type LensDefinition,
+  type LensKey,
+  type LifecycleStatus,
+} from '../types'
+import {
+  REQUIRABLE_FIELDS,
+  checkDataQuality,
+  deleteDataQualityRule,
+  describeCheck,
+  loadDataQualityRules,
+  saveDataQualityRule,
+  setDataQualityRuleEnabled,
+  type DataQualityRuleInput,
+  type DataQualityViolation,
+} from '../utils/dataQuality'
+import { CUSTOM_FIELD_FILTER_PREFIX } from '../utils/customFields'
+import { getRelationshipTypes } from '../utils/relationshipTypes'
+import { ItemDialog } from './ItemDialog'
+import { Modal } from './Modal'
+
+const SEVERITY_CLASSES: Record<DataQualitySeverity, string> = {
+  error: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  warning: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  info: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+}
+
+const NEW_RULE: DataQualityRuleInput = {
+  name: '',
+  check: { kind: 'required-field', field: 'description' },
+  severity: 'warning',
+  enabled: true,
+}
+
+interface DataQualityViewProps {
+  asOf?: string // Date to check the landscape on; today if not set
+}
+
+export function DataQualityView({ asOf }: DataQualityViewProps) {
+  const [rules, setRules] = useState<DataQualityRule[]>([])
+  const [violations, setViolations] = useState<DataQualityViolation[]>([])
+  const [lenses, setLenses] = useState<LensDefinition[]>([])
+  const [severityFilter, setSeverityFilter] = useState<DataQualitySeverity | ''>('')
+  const [lensFilter, setLensFilter] = useState<LensKey | ''>('')
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingId, setEditingId] = useState<number | undefined>(undefined)
+  const [draft, setDraft] = useState<DataQualityRuleInput>(NEW_RULE)
+  const [editItem, setEditItem] = useState<ItemRecord | null>(null)
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [asOf])
+
+  async function load() {
+    const [allRules, allLenses, allViolations] = await Promise.all([
+      loadDataQualityRules(),
+      getAllLenses(),
+      checkDataQuality(asOf),
+    ])
+    setRules([...allRules].sort((a, b) => a.name.localeCompare(b.name)))
+    setLenses(allLenses)
+    setViolations(allViolations)
+  }
+
+  const lensLabel = (key: LensKey) => lenses.find(l => l.key === key)?.label || key
+
+  const filteredViolations = useMemo(() => violations.filter(v => (
+    (!severityFilter || v.rule.severity === severityFilter) &&
+    (!lensFilter || v.item.lens === lensFilter)
+  )), [violations, severityFilter, lensFilter])
+
+  // Violations grouped by rule, most severe rules first
+  const groups = useMemo(() => {
+    const byRule = new Map<number, { rule: DataQualityRule; items: ItemRecord[] }>()
+    for (const { rule, item } of filteredViolations) {
+      const group = byRule.get(rule.id!) || { rule, items: [] }
+      group.items.push(item)
+      byRule.set(rule.id!, group)
+    }
+    for (const group of byRule.values()) group.items.sort((a, b) => a.name.localeCompare(b.name))
+    return Array.from(byRule.values()).sort((a, b) => (
+      DATA_QUALITY_SEVERITIES.indexOf(a.rule.severity) - DATA_QUALITY_SEVERITIES.indexOf(b.rule.severity) ||
+      a.rule.name.localeCompare(b.rule.name)
+    ))
+  }, [filteredViolations])
+
+  const severityCounts = useMemo(() => {
+    const counts = new Map<DataQualitySeverity, number>()
+    for (const v of violations) counts.set(v.rule.severity, (counts.get(v.rule.severity) || 0) + 1)
+    return counts
+  }, [violations])
+
+  // Relationship types and side labels, suggested for relationship rules
+  const relationshipLabels = useMemo(() => Array.from(new Set(
+    getRelationshipTypes().flatMap(t => [t.name, t.fromLabel, t.toLabel])
+  )).sort((a, b) => a.localeCompare(b)), [])
+
+  const customFieldOptions = useMemo(() => {
+    const scoped = draft.lens ? lenses.filter(l => l.key === draft.lens) : lenses
+    const seen = new Set<string>()
+    return scoped.flatMap(l => l.customFields || []).filter(f => !seen.has(f.key) && !!seen.add(f.key))
+  }, [lenses, draft.lens])
+
+  function openEditor(rule?: DataQualityRule) {
+    setEditingId(rule?.id)
+    setDraft(rule ? { name: rule.name, lens: rule.lens, status: rule.status, check: rule.check, severity: rule.severity, enabled: rule.enabled } : NEW_RULE)
+    setEditorOpen(true)
+  }
+
+  async function handleSave() {
+    try {
+      await saveDataQualityRule(draft, editingId)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error saving rule')
+      return
+    }
+    setEditorOpen(false)
+    await load()
+  }
+
+  // Edit the stored item rather than its as-of projection
+  async function openItem(id: number) {
+    const item = await db.items.get(id)
+    if (item) setEditItem(item)
+  }
+
+  async function handleItemSaved() {
+    await load()
+    if (editItem?.id) {
+      const updatedItem = await db.items.get(editItem.id)
+      if (updatedItem) setEditItem(updatedItem)
+    }
+  }
+
+  async function handleToggle(rule: DataQualityRule) {
+    await setDataQualityRuleEnabled(rule.id!, !rule.enabled)
+    await load()
+  }
+
+  async function handleDelete(rule: DataQualityRule) {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return
+    await deleteDataQualityRule(rule.id!)
+    await load()
+  }
+
+  function ruleScope(rule: Pick<DataQualityRule, 'lens' | 'status'>): string {
+    return [rule.status ? `${rule.status} items` : 'All items', rule.lens ? `in ${lensLabel(rule.lens)}` : ''].filter(Boolean).join(' ')
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 dark:bg-slate-900">
+      <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex items-center gap-3 flex-wrap">
+        <h1 className="text-xl font-semibold">Data Quality</h1>
+        {DATA_QUALITY_SEVERITIES.map(severity => (
+          <span key={severity} className={clsx('px-2 py-0.5 text-xs rounded', SEVERITY_CLASSES[severity])}>
+            {severityCounts.get(severity) || 0} {severity}{severityCounts.get(severity) === 1 ? '' : 's'}
+          </span>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          <select
+            value={severityFilter}
+            onChange={e => setSeverityFilter(e.target.value as DataQualitySeverity | '')}
+            className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+          >
+            <option value="">All severities</option>
+            {DATA_QUALITY_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select
+            value={lensFilter}
+            onChange={e => setLensFilter(e.target.value as LensKey | '')}
+            className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+          >
+            <option value="">All lenses</option>
+            {lenses.map(l => <option key={l.key} value={l.key}>{l.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="max-w-5xl space-y-6">
+          <section>
+            <h2 className="font-medium mb-2">Violations</h2>
+            {groups.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                {violations.length === 0 ? 'Every item passes the enabled rules' : 'No violations match the filters'}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {groups.map(({ rule, items }) => (
+                  <div key={rule.id} className="p-3 border border-slate-200 dark:border-slate-800 rounded bg-white dark:bg-slate-900">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className={clsx('px-1.5 py-0.5 text-xs rounded', SEVERITY_CLASSES[rule.severity])}>{rule.severity}</span>
+                      <span className="font-medium">{rule.name}</span>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">{ruleScope(rule)}: {describeCheck(rule.check, lenses)}</span>
+                      <span className="ml-auto text-xs text-slate-500 dark:text-slate-400">{items.length} item{items.length === 1 ? '' : 's'}</span>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {items.map(item => (
+                        <button
+                          key={item.id}
+                          onClick={() => openItem(item.id!)}
+                          className="px-2 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                          title="Edit item"
+                        >
+                          {item.name} <span className="text-slate-500 dark:text-slate-400">({lensLabel(item.lens)})</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <div className="flex items-center mb-2">
+              <h2 className="font-medium">Rules</h2>
+              <button
+                onClick={() => openEditor()}
+                className="ml-auto px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Add Rule
+              </button>
+            </div>
+            {rules.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No rules yet</p>
+            ) : (
+              <div className="space-y-1">
+                {rules.map(rule => (
+                  <div key={rule.id} className={clsx('p-2 border border-slate-200 dark:border-slate-800 rounded bg-white dark:bg-slate-900 flex items-center gap-2 text-sm', !rule.enabled && 'opacity-60')}>
+                    <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} title={rule.enabled ? 'Disable' : 'Enable'} />
+                    <span className={clsx('px-1.5 py-0.5 text-xs rounded', SEVERITY_CLASSES[rule.severity])}>{rule.severity}</span>
+                    <span className="font-medium">{rule.name}</span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400 truncate">{ruleScope(rule)}: {describeCheck(rule.check, lenses)}</span>
+                    <button
+                      onClick={() => openEditor(rule)}
+                      className="ml-auto px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="px-2 py-1 rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+
+      <Modal
+        open={editorOpen}
+        onClose={() => setEditorOpen(false)}
+        title={editingId !== undefined ? 'Edit Rule' : 'Add Rule'}
+        footer={
+          <>
+            <button
+              className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
+              onClick={() => setEditorOpen(false)}
+            >
+              Cancel
+            </button>
+            <button className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white" onClick={handleSave}>
+              Save
+            </button>
+          </>
+        }
+      >
+        <div className="space-y-3 text-sm">
+          <label className="block">
+            <span className="block mb-1">Name</span>
+            <input
+              value={draft.name}
+              onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+              placeholder="e.g. Divest items must have a Replaced By relationship"
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+            />
+          </label>
+          <div className="flex gap-3">
+            <label className="flex-1">
+              <span className="block mb-1">Lens</span>
+              <select
+                value={draft.lens || ''}
+                onChange={e => setDraft(d => ({ ...d, lens: (e.target.value || undefined) as LensKey | undefined }))}
+                className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+              >
+                <option value="">All lenses</option>
+                {lenses.map(l => <option key={l.key} value={l.key}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="flex-1">
+              <span className="block mb-1">Lifecycle status</span>
+              <select
+                value={draft.status || ''}
+                onChange={e => setDraft(d => ({ ...d, status: (e.target.value || undefined) as LifecycleStatus | undefined }))}
+                className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+              >
+                <option value="">Any status</option>
+                {LIFECYCLE_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </label>
+            <label className="flex-1">
+              <span className="block mb-1">Severity</span>
+              <select
+                value={draft.severity}
+                onChange={e => setDraft(d => ({ ...d, severity: e.target.value as DataQualitySeverity }))}
+                className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+              >
+                {DATA_QUALITY_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="block">
+            <span className="block mb-1">Check</span>
+            <select
+              value={draft.check.kind}
+              onChange={e => setDraft(d => ({
+                ...d,
+                check: e.target.value === 'relationship' ? { kind: 'relationship', min: 1 } : { kind: 'required-field', field: 'description' },
+              }))}
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+            >
+              <option value="required-field">A field is set</option>
+              <option value="relationship">Has relationships</option>
+            </select>
+          </label>
+          {draft.check.kind === 'required-field' ? (
+            <label className="block">
+              <span className="block mb-1">Field</span>
+              <select
+                value={draft.check.field}
+                onChange={e => setDraft(d => ({ ...d, check: { kind: 'required-field', field: e.target.value } }))}
+                className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+              >
+                {REQUIRABLE_FIELDS.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                {customFieldOptions.map(f => (
+                  <option key={f.key} value={CUSTOM_FIELD_FILTER_PREFIX + f.key}>{f.label}</option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <div className="flex gap-3">
+              <label className="flex-1">
+                <span className="block mb-1">Type or label</span>
+                <input
+                  list="data-quality-relationship-labels"
+                  value={draft.check.label || ''}
+                  onChange={e => {
+                    const label = e.target.value || undefined
+                    setDraft(d => d.check.kind === 'relationship' ? { ...d, check: { ...d.check, label } } : d)
+                  }}
+                  placeholder="Any"
+                  className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                />
+                <datalist id="data-quality-relationship-labels">
+                  {relationshipLabels.map(l => <option key={l} value={l} />)}
+                </datalist>
+              </label>
+              <label className="flex-1">
+                <span className="block mb-1">To items in</span>
+                <select
+                  value={draft.check.lens || ''}
+                  onChange={e => {
+                    const lens = (e.target.value || undefined) as LensKey | undefined
+                    setDraft(d => d.check.kind === 'relationship' ? { ...d, check: { ...d.check, lens } } : d)
+                  }}
+                  className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+                >
+                  <option value="">Any lens</option>
+                  {lenses.map(l => <option key={l.key} value={l.key}>{l.label}</option>)}
+                </select>
+              </label>
+              <label className="w-24">
+                <span className="block mb-1">At least</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.check.min}
+                  onChange={e => {
+                    const min = Number(e.target.value)
+                    setDraft(d => d.check.kind === 'relationship' ? { ...d, check: { ...d.check, min } } : d)
+                  }}
+                  className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                />
+              </label>
+            </div>
+          )}
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {ruleScope(draft)} must pass: {describeCheck(draft.check, lenses)}
+          </p>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.enabled} onChange={e => setDraft(d => ({ ...d, enabled: e.target.checked }))} />
+            Enabled
+          </label>
+        </div>
+      </Modal>
+
+      {editItem && (
+        <ItemDialog
+          open
+          onClose={() => setEditItem(null)}
+          lens={editItem.lens}
+          item={editItem}
+          onSaved={handleItemSaved}
+        />
+      )}
+    </div>
+  )
+}
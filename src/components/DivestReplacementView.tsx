@@ -1,8 +1,12 @@
 import { useEffect, useMemo, useState, useRef } from 'react'
 import { db, getAllLenses } from '../db'
-import { type ItemRecord, type RelationshipRecord, type LensKey, type LifecycleStatus, type RelationshipLifecycleStatus, LENSES } from '../types'
+import { type ItemRecord, type RelationshipRecord, type LensKey, type LifecycleStatus, type RelationshipLifecycleStatus, type SavedFilter, LENSES } from '../types'
 import { ItemDialog } from './ItemDialog'
 import { loadTheme, type Theme } from '../utils/theme'
+import { otherItemId } from '../utils/relationships'
+import { landscapeAsOf } from '../utils/lifecycle'
+import { workspaceStorage } from '../utils/workspaceStorage'
+import { getSavedFilters, savedFilterItemIds } from '../utils/savedFilters'
 
 // Deduplicate a list of items by id
 const dedupeItems = (items: ItemRecord[]): ItemRecord[] => {
@@ -19,47 +23,60 @@ type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-tea
 
 interface DivestReplacementViewProps {
   onNavigate?: (view: ViewType) => void
+  asOf?: string // Date to show the landscape on; today if not set
 }
 
-export function DivestReplacementView({}: DivestReplacementViewProps) {
+export function DivestReplacementView({ asOf }: DivestReplacementViewProps) {
   const [lenses, setLenses] = useState<Array<{ key: LensKey; label: string }>>([])
-  const [items, setItems] = useState<ItemRecord[]>([])
-  const [relationships, setRelationships] = useState<RelationshipRecord[]>([])
+  const [storedItems, setItems] = useState<ItemRecord[]>([])
+  const [storedRelationships, setRelationships] = useState<RelationshipRecord[]>([])
+  // What the view shows: the landscape on the as-of date
+  const { items, relationships } = useMemo(() => landscapeAsOf(storedItems, storedRelationships, asOf), [storedItems, storedRelationships, asOf])
   const [primaryLens, setPrimaryLens] = useState<LensKey | ''>(() => {
-    const saved = localStorage.getItem('divest-replacement-primary-lens')
+    const saved = workspaceStorage.getItem('divest-replacement-primary-lens')
     return saved || ''
   })
   const [secondaryLens, setSecondaryLens] = useState<LensKey | ''>(() => {
-    const saved = localStorage.getItem('divest-replacement-secondary-lens')
+    const saved = workspaceStorage.getItem('divest-replacement-secondary-lens')
     return saved || ''
   })
   const [filterItemId, setFilterItemId] = useState<number | null>(() => {
-    const saved = localStorage.getItem('divest-replacement-filter-item-id')
+    const saved = workspaceStorage.getItem('divest-replacement-filter-item-id')
     return saved ? parseInt(saved, 10) : null
   })
   const [filterItemQuery, setFilterItemQuery] = useState('')
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([])
+  const [savedFilterId, setSavedFilterId] = useState<number | null>(() => {
+    const saved = workspaceStorage.getItem('divest-replacement-saved-filter-id')
+    return saved ? parseInt(saved, 10) : null
+  })
+  const [savedFilterMatches, setSavedFilterMatches] = useState<Set<number> | null>(null) // Items matching the saved filter
   const [minorTextOption, setMinorTextOption] = useState<'none' | 'lifecycle' | 'description'>(() => {
-    const saved = localStorage.getItem('divest-replacement-minor-text')
+    const saved = workspaceStorage.getItem('divest-replacement-minor-text')
     return (saved === 'none' || saved === 'lifecycle' || saved === 'description') ? saved : 'lifecycle'
   })
   const [rollupLens, setRollupLens] = useState<LensKey | '' | '__parent__'>(() => {
-    const saved = localStorage.getItem('divest-replacement-rollup-lens')
+    const saved = workspaceStorage.getItem('divest-replacement-rollup-lens')
     return (saved === '__parent__' || saved === '' || LENSES.some(l => l.key === saved)) ? (saved || '') : ''
   })
   const [rollupMode, setRollupMode] = useState<'only-related' | 'show-secondary'>(() => {
-    const saved = localStorage.getItem('divest-replacement-rollup-mode')
+    const saved = workspaceStorage.getItem('divest-replacement-rollup-mode')
     return (saved === 'only-related' || saved === 'show-secondary') ? saved : 'only-related'
   })
+  const [thirdLens, setThirdLens] = useState<LensKey | ''>(() => {
+    const saved = workspaceStorage.getItem('divest-replacement-third-lens')
+    return saved || ''
+  })
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [editItem, setEditItem] = useState<ItemRecord | null>(null)
   const [hoveredItemId, setHoveredItemId] = useState<number | null>(null)
   const [hoveredParentName, setHoveredParentName] = useState<string | null>(null)
   const [columnViewMode, setColumnViewMode] = useState<'both' | 'current' | 'target'>(() => {
-    const saved = localStorage.getItem('divest-replacement-column-view-mode')
+    const saved = workspaceStorage.getItem('divest-replacement-column-view-mode')
     return (saved === 'both' || saved === 'current' || saved === 'target') ? saved : 'both'
   })
   const [showUnrelatedSecondary, setShowUnrelatedSecondary] = useState<boolean>(() => {
-    const saved = localStorage.getItem('divest-replacement-show-unrelated-secondary')
+    const saved = workspaceStorage.getItem('divest-replacement-show-unrelated-secondary')
     return saved === 'true'
   })
   const [theme, setTheme] = useState<Theme>(loadTheme())
@@ -83,57 +100,102 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
   // Persist primary lens to localStorage
   useEffect(() => {
     if (primaryLens) {
-      localStorage.setItem('divest-replacement-primary-lens', primaryLens)
+      workspaceStorage.setItem('divest-replacement-primary-lens', primaryLens)
     } else {
-      localStorage.removeItem('divest-replacement-primary-lens')
+      workspaceStorage.removeItem('divest-replacement-primary-lens')
     }
   }, [primaryLens])
 
   // Persist secondary lens to localStorage
   useEffect(() => {
     if (secondaryLens) {
-      localStorage.setItem('divest-replacement-secondary-lens', secondaryLens)
+      workspaceStorage.setItem('divest-replacement-secondary-lens', secondaryLens)
     } else {
-      localStorage.removeItem('divest-replacement-secondary-lens')
+      workspaceStorage.removeItem('divest-replacement-secondary-lens')
     }
   }, [secondaryLens])
 
   // Persist filter item to localStorage
   useEffect(() => {
     if (filterItemId) {
-      localStorage.setItem('divest-replacement-filter-item-id', filterItemId.toString())
+      workspaceStorage.setItem('divest-replacement-filter-item-id', filterItemId.toString())
     } else {
-      localStorage.removeItem('divest-replacement-filter-item-id')
+      workspaceStorage.removeItem('divest-replacement-filter-item-id')
     }
   }, [filterItemId])
 
+  // Persist saved filter to localStorage
+  useEffect(() => {
+    if (savedFilterId) {
+      workspaceStorage.setItem('divest-replacement-saved-filter-id', savedFilterId.toString())
+    } else {
+      workspaceStorage.removeItem('divest-replacement-saved-filter-id')
+    }
+  }, [savedFilterId])
+
+  useEffect(() => {
+    async function loadSavedFilters() {
+      setSavedFilters(await getSavedFilters())
+    }
+    loadSavedFilters()
+    window.addEventListener('savedFiltersUpdated', loadSavedFilters)
+    return () => {
+      window.removeEventListener('savedFiltersUpdated', loadSavedFilters)
+    }
+  }, [])
+
+  // Items matching the saved filter, recomputed when items are edited
+  useEffect(() => {
+    const filter = savedFilters.find(f => f.id === savedFilterId)
+    if (!filter) {
+      setSavedFilterMatches(null)
+      return
+    }
+    let cancelled = false
+    savedFilterItemIds(filter, asOf).then(ids => {
+      if (!cancelled) setSavedFilterMatches(ids)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [savedFilters, savedFilterId, storedItems, asOf])
+
   // Persist minor text option to localStorage
   useEffect(() => {
-    localStorage.setItem('divest-replacement-minor-text', minorTextOption)
+    workspaceStorage.setItem('divest-replacement-minor-text', minorTextOption)
   }, [minorTextOption])
 
   // Persist roll-up lens to localStorage
   useEffect(() => {
     if (rollupLens) {
-      localStorage.setItem('divest-replacement-rollup-lens', rollupLens)
+      workspaceStorage.setItem('divest-replacement-rollup-lens', rollupLens)
     } else {
-      localStorage.removeItem('divest-replacement-rollup-lens')
+      workspaceStorage.removeItem('divest-replacement-rollup-lens')
     }
   }, [rollupLens])
 
   // Persist roll-up mode to localStorage
   useEffect(() => {
-    localStorage.setItem('divest-replacement-rollup-mode', rollupMode)
+    workspaceStorage.setItem('divest-replacement-rollup-mode', rollupMode)
   }, [rollupMode])
 
+  // Persist third lens to localStorage
+  useEffect(() => {
+    if (thirdLens) {
+      workspaceStorage.setItem('divest-replacement-third-lens', thirdLens)
+    } else {
+      workspaceStorage.removeItem('divest-replacement-third-lens')
+    }
+  }, [thirdLens])
+
   // Persist column view mode to localStorage
   useEffect(() => {
-    localStorage.setItem('divest-replacement-column-view-mode', columnViewMode)
+    workspaceStorage.setItem('divest-replacement-column-view-mode', columnViewMode)
   }, [columnViewMode])
 
   // Persist show unrelated secondary option to localStorage
   useEffect(() => {
-    localStorage.setItem('divest-replacement-show-unrelated-secondary', String(showUnrelatedSecondary))
+    workspaceStorage.setItem('divest-replacement-show-unrelated-secondary', String(showUnrelatedSecondary))
   }, [showUnrelatedSecondary])
 
   async function loadData() {
@@ -154,6 +216,11 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
     if (!primaryLens) return []
     
     let filtered = items.filter(item => item.lens === primaryLens)
+
+    // Only primary items matching the saved filter
+    if (savedFilterMatches) {
+      filtered = filtered.filter(item => savedFilterMatches.has(item.id!))
+    }
     
     // If a filter item is selected, only include items related to it
     if (filterItemId) {
@@ -188,7 +255,7 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
     }
     
     return filtered.sort((a, b) => a.name.localeCompare(b.name))
-  }, [items, primaryLens, filterItemId, relationships])
+  }, [items, primaryLens, filterItemId, relationships, savedFilterMatches])
 
   // Get items from primary lens (for display purposes, use filteredPrimaryItems)
   const primaryItems = filteredPrimaryItems
@@ -616,11 +683,7 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
   const getRelatedItemIds = (itemId: number): Set<number> => {
     const relatedIds = new Set<number>()
     relationships.forEach(rel => {
-      if (rel.fromItemId === itemId) {
-        relatedIds.add(rel.toItemId)
-      } else if (rel.toItemId === itemId) {
-        relatedIds.add(rel.fromItemId)
-      }
+      if (rel.fromItemId === itemId || rel.toItemId === itemId) relatedIds.add(otherItemId(rel, itemId))
     })
     return relatedIds
   }
@@ -2431,6 +2494,129 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
     })
   }, [itemAnalysis])
 
+  // Third lens sub-columns: only used for the non roll-up rendering
+  const activeThirdLens = thirdLens && !rollupLens && thirdLens !== primaryLens && thirdLens !== secondaryLens ? thirdLens : ''
+
+  // Map each visible secondary item to the ids of the third lens items it is related to
+  const secondaryToThirdMap = useMemo(() => {
+    const map = new Map<number, Set<number>>()
+    if (!activeThirdLens) return map
+    itemAnalysis.forEach(analysis => {
+      ;[...(analysis.divestItems || []), ...(analysis.targetItems || [])].forEach(secondaryItem => {
+        if (!secondaryItem.id || map.has(secondaryItem.id)) return
+        const thirdIds = new Set<number>()
+        relationships.forEach(rel => {
+          if (rel.fromItemId === secondaryItem.id && rel.toLens === activeThirdLens) {
+            thirdIds.add(rel.toItemId)
+          } else if (rel.toItemId === secondaryItem.id && rel.fromLens === activeThirdLens) {
+            thirdIds.add(rel.fromItemId)
+          }
+        })
+        map.set(secondaryItem.id, thirdIds)
+      })
+    })
+    return map
+  }, [activeThirdLens, itemAnalysis, relationships])
+
+  // Third lens items shown as sub-columns (those related to at least one visible secondary item)
+  const thirdLensColumns = useMemo(() => {
+    if (!activeThirdLens) return []
+    const relatedIds = new Set<number>()
+    secondaryToThirdMap.forEach(thirdIds => thirdIds.forEach(id => relatedIds.add(id)))
+    return items
+      .filter(item => item.lens === activeThirdLens && item.id !== undefined && relatedIds.has(item.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [activeThirdLens, secondaryToThirdMap, items])
+
+  // Get the contiguous runs of sub-columns an item should cover.
+  // Items related to none or all of the third lens items span every sub-column.
+  const getThirdLensSpans = (item: ItemRecord): Array<{ start: number; end: number }> => {
+    const thirdIds = item.id ? secondaryToThirdMap.get(item.id) : undefined
+    const matches = thirdLensColumns.map(col => !!thirdIds?.has(col.id!))
+    const matchCount = matches.filter(Boolean).length
+    if (matchCount === 0 || matchCount === thirdLensColumns.length) {
+      return [{ start: 0, end: thirdLensColumns.length - 1 }]
+    }
+    const spans: Array<{ start: number; end: number }> = []
+    matches.forEach((matched, idx) => {
+      if (!matched) return
+      const last = spans[spans.length - 1]
+      if (last && last.end === idx - 1) {
+        last.end = idx
+      } else {
+        spans.push({ start: idx, end: idx })
+      }
+    })
+    return spans
+  }
+
+  const thirdLensGridStyle = (): React.CSSProperties => ({
+    gridTemplateColumns: `repeat(${thirdLensColumns.length}, minmax(0, 1fr))`,
+  })
+
+  // Sub-column headers shown under the Current / Target headers
+  const renderThirdLensHeader = () => (
+    <div className="grid gap-1 mt-1" style={thirdLensGridStyle()}>
+      {thirdLensColumns.map(col => (
+        <div
+          key={col.id}
+          className="text-[10px] font-medium text-slate-600 dark:text-slate-400 text-center truncate border-b border-slate-200 dark:border-slate-700"
+          title={col.name}
+        >
+          {col.name}
+        </div>
+      ))}
+    </div>
+  )
+
+  // Render secondary items one per row, each box covering the sub-columns it relates to
+  const renderThirdLensGrid = (columnItems: ItemRecord[]) => (
+    <div className="grid gap-1" style={thirdLensGridStyle()}>
+      {columnItems.flatMap((item, rowIdx) => getThirdLensSpans(item).map(span => {
+        const isHighlighted = shouldHighlightItem(item)
+        const highlightClass = isHighlighted ? getOutlineClasses() : ''
+        return (
+          <div
+            key={`${item.id}-${span.start}`}
+            className={`p-1 rounded border text-center cursor-pointer ${getOpacityClass(item)} ${highlightClass}`}
+            style={{
+              ...getHighlightedItemColor(item),
+              ...(isHighlighted ? getOutlineColor(item.lifecycleStatus) : {}),
+              gridColumn: `${span.start + 1} / ${span.end + 2}`,
+              gridRow: rowIdx + 1,
+            }}
+            onMouseEnter={() => {
+              if (item.id) setHoveredItemId(item.id)
+              setHoveredParentName(null)
+            }}
+            onMouseLeave={() => {
+              setHoveredItemId(null)
+              setHoveredParentName(null)
+            }}
+            onClick={() => {
+              setEditItem(item)
+              setEditDialogOpen(true)
+            }}
+          >
+            <div className="text-xs text-slate-800 dark:text-slate-200 hover:text-blue-600 dark:hover:text-blue-400 hover:underline">
+              {item.name}
+            </div>
+            {minorTextOption === 'description' && item.description && (
+              <div className="text-[9px] text-slate-600 dark:text-slate-400 mt-0.5 line-clamp-1">
+                {item.description}
+              </div>
+            )}
+            {minorTextOption === 'lifecycle' && (
+              <div className="text-[9px] mt-0.5 font-medium text-slate-700 dark:text-slate-300">
+                {getLifecycleLabel(item.lifecycleStatus)}
+              </div>
+            )}
+          </div>
+        )
+      }))}
+    </div>
+  )
+
   // Get grid columns class based on view mode
   const getGridColsClass = (): string => {
     if (hasAnyLifecycleStatus && columnViewMode !== 'both') {
@@ -2523,6 +2709,27 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
                   </select>
                 </label>
               )}
+              {/* Roll-up boxes already group the secondary items, so sub-columns are turned off with a roll-up */}
+              <label
+                className={`flex items-center gap-1 shrink-0 ${rollupLens ? 'opacity-60' : ''}`}
+                title={rollupLens
+                  ? 'Third-lens sub-columns are turned off while a roll-up is chosen; set Roll-up to None to use them'
+                  : 'Split the Current and Target columns by the items of a third lens'}
+              >
+                <span className="text-xs whitespace-nowrap">Third:</span>
+                <select
+                  value={thirdLens}
+                  onChange={e => setThirdLens(e.target.value as LensKey)}
+                  disabled={!!rollupLens}
+                  className="px-1.5 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 min-w-0"
+                >
+                  <option value="">None</option>
+                  {lenses.filter(l => l.key !== primaryLens && l.key !== secondaryLens).map(lens => (
+                    <option key={lens.key} value={lens.key}>{lens.label}</option>
+                  ))}
+                </select>
+                {rollupLens && <span className="text-xs whitespace-nowrap text-slate-500 dark:text-slate-400">off with roll-up</span>}
+              </label>
               {primaryLens && secondaryLens && hasAnyLifecycleStatus && (
                 <label className="flex items-center gap-1 shrink-0">
                   <span className="text-xs whitespace-nowrap">View:</span>
@@ -2594,6 +2801,22 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
                   )}
                 </div>
               </label>
+              {savedFilters.length > 0 && (
+                <label className="flex items-center gap-1 shrink-0">
+                  <span className="text-xs whitespace-nowrap">Saved filter:</span>
+                  <select
+                    value={savedFilterId ?? ''}
+                    onChange={e => setSavedFilterId(e.target.value ? Number(e.target.value) : null)}
+                    className="px-1.5 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 min-w-0"
+                    title="Only show primary items matching a saved filter"
+                  >
+                    <option value="">None</option>
+                    {savedFilters.map(f => (
+                      <option key={f.id} value={f.id}>{f.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
               <label className="flex items-center gap-1 shrink-0">
                 <span className="text-xs whitespace-nowrap">Minor:</span>
                 <select
@@ -2640,26 +2863,31 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
                       <>
                         <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 text-center">
                           Current
+                          {thirdLensColumns.length > 0 && <div className="mr-6">{renderThirdLensHeader()}</div>}
                         </div>
                         <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 text-center">
                           Target
+                          {thirdLensColumns.length > 0 && <div className="ml-6">{renderThirdLensHeader()}</div>}
                         </div>
                       </>
                     )}
                     {columnViewMode === 'current' && (
                       <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 text-center">
                         Current
+                        {thirdLensColumns.length > 0 && renderThirdLensHeader()}
                       </div>
                     )}
                     {columnViewMode === 'target' && (
                       <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 text-center">
                         Target
+                        {thirdLensColumns.length > 0 && renderThirdLensHeader()}
                       </div>
                     )}
                   </>
                 ) : (
                   <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 text-center">
                     {LENSES.find(l => l.key === secondaryLens)?.label || secondaryLens}
+                    {thirdLensColumns.length > 0 && renderThirdLensHeader()}
                   </div>
                 )}
               </div>
@@ -3569,7 +3797,9 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
                                   {(columnViewMode === 'both' || columnViewMode === 'current') && (
                                     /* Middle Column: Current (Invest items with relationship lifecycle None or Divest) */
                                     <div className={columnViewMode === 'both' ? 'mr-6' : ''}>
-                                    {divestItems.length > 0 ? (
+                                    {divestItems.length > 0 && thirdLensColumns.length > 0 ? (
+                                      renderThirdLensGrid(divestItems)
+                                    ) : divestItems.length > 0 ? (
                                       <div className={`grid ${getGridColsClass()} gap-1`}>
                                         {divestItems.map((item: ItemRecord) => {
                                           const isHighlighted = shouldHighlightItem(item)
@@ -3623,7 +3853,9 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
                                   {(columnViewMode === 'both' || columnViewMode === 'target') && (
                                     /* Right Column: Target (Replacement Items + Other Items + No Status) */
                                     <div className={columnViewMode === 'both' ? 'ml-6' : ''}>
-                                    {targetItems.length > 0 ? (
+                                    {targetItems.length > 0 && thirdLensColumns.length > 0 ? (
+                                      renderThirdLensGrid(targetItems)
+                                    ) : targetItems.length > 0 ? (
                                       <div className={`grid ${getGridColsClass()} gap-1`}>
                                         {targetItems.map((item: ItemRecord) => {
                                           const isHighlighted = shouldHighlightItem(item)
@@ -3682,7 +3914,9 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
                               ) : (
                                 /* Single Column: All items when no lifecycleStatus */
                                 <div>
-                                  {allItems && allItems.length > 0 ? (
+                                  {allItems && allItems.length > 0 && thirdLensColumns.length > 0 ? (
+                                    renderThirdLensGrid(allItems)
+                                  ) : allItems && allItems.length > 0 ? (
                                     <div className={`grid ${getGridColsClass()} gap-1`}>
                                       {allItems.map((item: ItemRecord) => {
                                         const isHighlighted = shouldHighlightItem(item)
@@ -3976,7 +4210,7 @@ export function DivestReplacementView({}: DivestReplacementViewProps) {
           setEditItem(null)
         }}
         lens={editItem?.lens || ''}
-        item={editItem}
+        item={editItem && (storedItems.find(i => i.id === editItem.id) || editItem)}
         onSaved={async () => {
           // Reload items and relationships after save
           const [allItems, allRels] = await Promise.all([
@@ -1,23 +1,39 @@
 import { useEffect, useMemo, useState, useRef, useCallback } from 'react'
 import { db, getAllLenses } from '../db'
-import { LENSES, type ItemRecord, type LensKey, type RelationshipRecord, type LifecycleStatus, type LensDefinition, type Task, type TeamMember, type MeetingNote } from '../types'
+import { LENSES, type ItemRecord, type LensKey, type RelationshipRecord, type LifecycleStatus, type LensDefinition, type Task, type TeamMember, type MeetingNote, type SavedFilter, type DataQualitySeverity } from '../types'
 import { ItemDialog } from './ItemDialog'
 import { getLensOrderSync } from '../utils/lensOrder'
 import { loadTheme, type Theme } from '../utils/theme'
+import { CUSTOM_FIELD_FILTER_PREFIX, formatCustomFieldValue, isWebUrl } from '../utils/customFields'
+import { otherItemId } from '../utils/relationships'
+import { buildItemTree, flattenItemTree, type ItemTreeNode } from '../utils/hierarchy'
+import { landscapeAsOf } from '../utils/lifecycle'
+import { workspaceStorage } from '../utils/workspaceStorage'
+import { getTagCategories, getTagColors, tagsInCategory } from '../utils/tags'
+import { getRelationshipTypes, relationshipEdgeStyle } from '../utils/relationshipTypes'
+import { getSavedFilters, savedFilterItemIds } from '../utils/savedFilters'
+import { checkItems, worstSeverity } from '../utils/dataQuality'
+import { DIAGRAM_CODE_FORMATS, toDiagramCode, type DiagramCodeFormat } from '../utils/diagramCode'
+import { GRAPH_EXCHANGE_FORMATS, getLensColor, toGraphExchange, type GraphExchangeFormat } from '../utils/graphExchange'
 
 type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes'
 
 interface GraphModalProps {
   visible: Record<LensKey, boolean>
   lensOrderKey?: number
+  asOf?: string // Date to show the landscape on; today if not set
   onNavigate: (view: ViewType) => void
 }
 
 type PositionedItem = ItemRecord & { x: number; y: number }
 
-export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: GraphModalProps) {
-  const [items, setItems] = useState<ItemRecord[]>([])
-  const [rels, setRels] = useState<RelationshipRecord[]>([])
+type GraphViewMode = 'skillGaps' | 'tags' | 'summary' | 'tasks' | 'minimal' | 'customField'
+
+export function GraphModal({ visible, lensOrderKey, asOf, onNavigate: _onNavigate }: GraphModalProps) {
+  const [storedItems, setItems] = useState<ItemRecord[]>([])
+  const [storedRels, setRels] = useState<RelationshipRecord[]>([])
+  // What the diagram shows: the landscape on the as-of date
+  const { items, relationships: rels } = useMemo(() => landscapeAsOf(storedItems, storedRels, asOf), [storedItems, storedRels, asOf])
   const [dims, setDims] = useState<{ w: number; h: number }>({ w: 0, h: 0 })
   const [selectedItemId, setSelectedItemId] = useState<number | null>(null)
   const [hoveredItemId, setHoveredItemId] = useState<number | null>(null)
@@ -27,29 +43,43 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
   
   // Load settings from localStorage
   const [layoutMode, setLayoutMode] = useState<'columns' | 'rows'>(() => {
-    const saved = localStorage.getItem('graph-layout-mode')
+    const saved = workspaceStorage.getItem('graph-layout-mode')
     return (saved === 'rows' || saved === 'columns') ? saved : 'columns'
   })
-  const [viewMode, setViewMode] = useState<'skillGaps' | 'tags' | 'summary' | 'tasks' | 'minimal'>(() => {
-    const saved = localStorage.getItem('graph-view-mode')
-    return (saved === 'skillGaps' || saved === 'tags' || saved === 'summary' || saved === 'tasks' || saved === 'minimal') ? saved : 'summary'
+  const [viewMode, setViewMode] = useState<GraphViewMode>(() => {
+    const saved = workspaceStorage.getItem('graph-view-mode')
+    return (saved === 'skillGaps' || saved === 'tags' || saved === 'summary' || saved === 'tasks' || saved === 'minimal' || saved === 'customField') ? saved : 'summary'
+  })
+  const [customFieldKey, setCustomFieldKey] = useState<string>(() => {
+    return workspaceStorage.getItem('graph-custom-field') || ''
+  })
+  const [tagCategory, setTagCategory] = useState<string>(() => {
+    return workspaceStorage.getItem('graph-tag-category') || ''
   })
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([])
+  const [highlightFilterId, setHighlightFilterId] = useState<number | null>(() => {
+    const saved = workspaceStorage.getItem('graph-highlight-filter')
+    return saved ? parseInt(saved, 10) : null
+  })
+  const [highlightedItemIds, setHighlightedItemIds] = useState<Set<number> | null>(null) // Items matching the highlight filter
+  const [qualitySeverities, setQualitySeverities] = useState<Map<number, DataQualitySeverity | null>>(new Map()) // Worst broken data-quality rule per item
+  const [rulesVersion, setRulesVersion] = useState(0)
   const [zoom, setZoom] = useState(() => {
-    const saved = localStorage.getItem('graph-zoom')
+    const saved = workspaceStorage.getItem('graph-zoom')
     const parsed = saved ? parseFloat(saved) : 1
     return isNaN(parsed) || parsed <= 0 ? 1 : parsed
   })
   const [boxWidthScale, setBoxWidthScale] = useState(() => {
-    const saved = localStorage.getItem('graph-box-width-scale')
+    const saved = workspaceStorage.getItem('graph-box-width-scale')
     const parsed = saved ? parseFloat(saved) : 1
     return isNaN(parsed) || parsed <= 0 ? 1 : parsed
   })
   const [showParentBoxes, setShowParentBoxes] = useState(() => {
-    const saved = localStorage.getItem('graph-show-parent-boxes')
+    const saved = workspaceStorage.getItem('graph-show-parent-boxes')
     return saved === 'true'
   })
   const [showRelationshipLines, setShowRelationshipLines] = useState(() => {
-    const saved = localStorage.getItem('graph-show-relationship-lines')
+    const saved = workspaceStorage.getItem('graph-show-relationship-lines')
     return saved !== 'false' // Default to true
   })
   
@@ -193,32 +223,107 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
 
   // Persist layout mode to localStorage
   useEffect(() => {
-    localStorage.setItem('graph-layout-mode', layoutMode)
+    workspaceStorage.setItem('graph-layout-mode', layoutMode)
   }, [layoutMode])
 
   // Persist show relationship lines to localStorage
   useEffect(() => {
-    localStorage.setItem('graph-show-relationship-lines', String(showRelationshipLines))
+    workspaceStorage.setItem('graph-show-relationship-lines', String(showRelationshipLines))
   }, [showRelationshipLines])
 
   // Persist view mode to localStorage
   useEffect(() => {
-    localStorage.setItem('graph-view-mode', viewMode)
+    workspaceStorage.setItem('graph-view-mode', viewMode)
   }, [viewMode])
 
+  // Persist custom field used by the custom field view to localStorage
+  useEffect(() => {
+    if (customFieldKey) {
+      workspaceStorage.setItem('graph-custom-field', customFieldKey)
+    } else {
+      workspaceStorage.removeItem('graph-custom-field')
+    }
+  }, [customFieldKey])
+
+  // Persist tag category used by the tags view to localStorage
+  useEffect(() => {
+    if (tagCategory) {
+      workspaceStorage.setItem('graph-tag-category', tagCategory)
+    } else {
+      workspaceStorage.removeItem('graph-tag-category')
+    }
+  }, [tagCategory])
+
+  // Persist highlight filter to localStorage
+  useEffect(() => {
+    if (highlightFilterId) {
+      workspaceStorage.setItem('graph-highlight-filter', highlightFilterId.toString())
+    } else {
+      workspaceStorage.removeItem('graph-highlight-filter')
+    }
+  }, [highlightFilterId])
+
+  useEffect(() => {
+    async function loadSavedFilters() {
+      setSavedFilters(await getSavedFilters())
+    }
+    loadSavedFilters()
+    window.addEventListener('savedFiltersUpdated', loadSavedFilters)
+    return () => {
+      window.removeEventListener('savedFiltersUpdated', loadSavedFilters)
+    }
+  }, [])
+
+  // Items matching the highlight filter, recomputed when items are edited
+  useEffect(() => {
+    const filter = savedFilters.find(f => f.id === highlightFilterId)
+    if (!filter) {
+      setHighlightedItemIds(null)
+      return
+    }
+    let cancelled = false
+    savedFilterItemIds(filter, asOf).then(ids => {
+      if (!cancelled) setHighlightedItemIds(ids)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [savedFilters, highlightFilterId, storedItems, asOf])
+
+  useEffect(() => {
+    function handleRulesUpdated() {
+      setRulesVersion(v => v + 1)
+    }
+    window.addEventListener('dataQualityRulesUpdated', handleRulesUpdated)
+    return () => {
+      window.removeEventListener('dataQualityRulesUpdated', handleRulesUpdated)
+    }
+  }, [])
+
+  // Data-quality rules feed the coverage view's colours
+  useEffect(() => {
+    let cancelled = false
+    checkItems(storedItems, asOf).then(result => {
+      if (!cancelled) setQualitySeverities(new Map(Array.from(result, ([id, rules]) => [id, worstSeverity(rules)])))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [storedItems, asOf, rulesVersion])
+
   // Persist zoom to localStorage
   useEffect(() => {
-    localStorage.setItem('graph-zoom', zoom.toString())
+    workspaceStorage.setItem('graph-zoom', zoom.toString())
   }, [zoom])
 
   // Persist box width scale to localStorage
   useEffect(() => {
-    localStorage.setItem('graph-box-width-scale', boxWidthScale.toString())
+    workspaceStorage.setItem('graph-box-width-scale', boxWidthScale.toString())
   }, [boxWidthScale])
 
   // Persist show parent boxes to localStorage
   useEffect(() => {
-    localStorage.setItem('graph-show-parent-boxes', showParentBoxes.toString())
+    workspaceStorage.setItem('graph-show-parent-boxes', showParentBoxes.toString())
   }, [showParentBoxes])
 
   // Listen for theme changes
@@ -600,11 +705,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
     const relatedIds = new Set<number>()
     relatedIds.add(activeItemId) // Include the active item itself
     visibleRels.forEach(rel => {
-      if (rel.fromItemId === activeItemId) {
-        relatedIds.add(rel.toItemId)
-      } else if (rel.toItemId === activeItemId) {
-        relatedIds.add(rel.fromItemId)
-      }
+      if (rel.fromItemId === activeItemId || rel.toItemId === activeItemId) relatedIds.add(otherItemId(rel, activeItemId))
     })
     return relatedIds
   }, [visibleRels, selectedItemId, hoveredItemId, filterToRelated])
@@ -637,6 +738,10 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
     // Apply field filter if active
     if (fieldFilter) {
       result = result.filter(item => {
+        if (fieldFilter.field.startsWith(CUSTOM_FIELD_FILTER_PREFIX)) {
+          const customValue = item.customFields?.[fieldFilter.field.slice(CUSTOM_FIELD_FILTER_PREFIX.length)]
+          return customValue !== undefined && String(customValue) === fieldFilter.value
+        }
         const fieldValue = item[fieldFilter.field as keyof ItemRecord]
         if (Array.isArray(fieldValue)) {
           // Handle arrays of strings (tags, secondaryArchitects) or objects (hyperlinks)
@@ -690,6 +795,33 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
     }
     return ordered
   }, [lenses, visible, lensOrderKey, filterToRelated, selectedItemId, filteredItems, filterToManager, selectedManagerForFilter])
+
+  // Custom fields available for the custom field view (unique field keys across visible lenses)
+  const customFieldOptions = useMemo(() => {
+    const options = new Map<string, string>()
+    visibleLenses.forEach(lens => {
+      (lens.customFields || []).forEach(field => {
+        if (!options.has(field.key)) options.set(field.key, field.label)
+      })
+    })
+    return Array.from(options.entries()).map(([key, label]) => ({ key, label }))
+  }, [visibleLenses])
+
+  // Tag categories for the tags view
+  const tagCategoryOptions = useMemo(() => getTagCategories(items.flatMap(i => i.tags)), [items])
+
+  // Colours of an item's tags in the chosen category, for the tags view
+  function getItemTagColors(item: ItemRecord): Array<{ fill: string; stroke: string }> {
+    return tagsInCategory(item.tags, tagCategory).map(getTagColors)
+  }
+
+  // Get the display value of the selected custom field for an item
+  function getCustomFieldDisplay(item: ItemRecord): string {
+    if (!customFieldKey) return ''
+    const field = lenses.find(l => l.key === item.lens)?.customFields?.find(f => f.key === customFieldKey)
+    if (!field) return ''
+    return formatCustomFieldValue(field, item.customFields?.[customFieldKey])
+  }
   
   // Build manager hierarchy structure
   const managerHierarchy = useMemo(() => {
@@ -1300,6 +1432,46 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
     URL.revokeObjectURL(url)
   }
 
+  // Items on the diagram and the relationships between them, for the text exports
+  function exportGraph() {
+    const lensKeys = new Set(visibleLenses.map(l => l.key))
+    const exportItems = filteredItems.filter(item => lensKeys.has(item.lens))
+    const itemIds = new Set(exportItems.map(item => item.id!))
+    return {
+      lenses: visibleLenses,
+      items: exportItems,
+      relationships: rels.filter(r => itemIds.has(r.fromItemId) && itemIds.has(r.toItemId)),
+    }
+  }
+
+  // Export the filtered diagram as Mermaid, PlantUML or DOT source, or as
+  // GraphML or GEXF with the layout's positions and the lens colours
+  function handleExportFile(format: DiagramCodeFormat | GraphExchangeFormat) {
+    const graph = exportGraph()
+    const graphFormat = GRAPH_EXCHANGE_FORMATS.find(f => f.value === format)
+    const text = graphFormat
+      ? toGraphExchange({
+          ...graph,
+          positions: layout.positions,
+          nodeSize: { width: layout.nodeWidth, height: layout.nodeHeight },
+          colors: new Map(graph.items.map(item => {
+            const lens = graph.lenses.find(l => l.key === item.lens)
+            return [item.id!, getLensColor(lens ?? { key: item.lens })]
+          })),
+        }, graphFormat.value)
+      : toDiagramCode(graph, format as DiagramCodeFormat)
+    const extension = (graphFormat ?? DIAGRAM_CODE_FORMATS.find(f => f.value === format)!).extension
+    const blob = new Blob([text], { type: graphFormat ? 'application/xml;charset=utf-8' : 'text/plain;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `architecture-diagram-${new Date().toISOString().split('T')[0]}.${extension}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
   // Export as interactive HTML
   async function handleExportHTML() {
     // Collect all data needed for the interactive diagram
@@ -1311,8 +1483,12 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
       }),
       teamMembers,
       lenses: visibleLenses,
+      relationshipStyles: Object.fromEntries(getRelationshipTypes().map(t => [t.name, relationshipEdgeStyle(t.name)])),
       tasks,
       viewMode,
+      customFieldKey,
+      itemTagColors: Object.fromEntries(filteredItems.map(item => [item.id, getItemTagColors(item)])),
+      itemQualitySeverities: Object.fromEntries(filteredItems.map(item => [item.id, qualitySeverities.get(item.id!) || null])),
       theme,
       layoutMode,
       zoom,
@@ -1568,9 +1744,16 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
           if (count === 0) return { fill: isActive ? "#bbf7d0" : "#dcfce7", stroke: isActive ? "#16a34a" : "#22c55e" };
           if (count === 1) return { fill: isActive ? "#fed7aa" : "#ffedd5", stroke: isActive ? "#ea580c" : "#f97316" };
           return { fill: isActive ? "#fecaca" : "#fee2e2", stroke: isActive ? "#dc2626" : "#ef4444" };
+        } else if (viewMode === 'customField') {
+          const value = item.customFields ? item.customFields[exportData.customFieldKey] : undefined;
+          if (value !== undefined && value !== '') {
+            return { fill: getTagColor(String(value)), stroke: getTagBorderColor(String(value)) };
+          }
+          return { fill: isActive ? "#e5e7eb" : "#f3f4f6", stroke: isActive ? "#9ca3af" : "#d1d5db" };
         } else if (viewMode === 'tags') {
-          if (item.tags && item.tags.length > 0) {
-            return { fill: getTagColor(item.tags[0]), stroke: getTagBorderColor(item.tags[0]) };
+          const tagColors = exportData.itemTagColors[item.id] || [];
+          if (tagColors.length > 0) {
+            return tagColors[0];
           }
           return { fill: isActive ? "#e5e7eb" : "#f3f4f6", stroke: isActive ? "#9ca3af" : "#d1d5db" };
         } else if (viewMode === 'summary' || viewMode === 'minimal') {
@@ -1580,11 +1763,12 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
           const hasSkillsGap = !!(item.skillsGaps && item.skillsGaps.trim());
           const hasPrimaryArchitect = !!(item.primaryArchitect && item.primaryArchitect.trim());
           const hasSecondaryArchitects = item.secondaryArchitects && item.secondaryArchitects.length > 0;
-          const isRed = hasSkillsGap || (!hasPrimaryArchitect && !hasSecondaryArchitects);
+          const qualitySeverity = exportData.itemQualitySeverities[item.id];
+          const isRed = hasSkillsGap || (!hasPrimaryArchitect && !hasSecondaryArchitects) || qualitySeverity === 'error';
           
           if (isRed) {
             return { fill: isActive ? "#fecaca" : "#fee2e2", stroke: isActive ? "#dc2626" : "#ef4444" };
-          } else if (!hasSkillsGap && hasSecondaryArchitects && !hasPrimaryArchitect) {
+          } else if ((!hasSkillsGap && hasSecondaryArchitects && !hasPrimaryArchitect) || qualitySeverity === 'warning') {
             return { fill: isActive ? "#fed7aa" : "#ffedd5", stroke: isActive ? "#ea580c" : "#f97316" };
           }
           return { fill: isActive ? "#bfdbfe" : "#e0f2fe", stroke: isActive ? "#3b82f6" : "#0ea5e9" };
@@ -1640,7 +1824,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
                     fill="#475569" 
                     style={{ fontSize: 12, fontWeight: 600 }}
                   >
-                    {group.parent}
+                    {group.parent} ({group.count})
                   </text>
                 </g>
               ))}
@@ -1654,7 +1838,8 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
                     key={i} 
                     d={\`M \${a.x} \${a.y} C \${midX} \${a.y}, \${midX} \${b.y}, \${b.x} \${b.y}\`} 
                     fill="none" 
-                    stroke="#3b82f6" 
+                    stroke={(exportData.relationshipStyles[r.relationshipType || 'Default'] || {}).stroke || '#3b82f6'} 
+                    strokeDasharray={(exportData.relationshipStyles[r.relationshipType || 'Default'] || {}).strokeDasharray} 
                     strokeWidth={2} 
                   />
                 );
@@ -1690,6 +1875,16 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
                       stroke={colors.stroke} 
                       strokeWidth={strokeWidth} 
                     />
+                    {viewMode === 'tags' && (exportData.itemTagColors[n.id] || []).map((c, idx, all) => (
+                      <rect
+                        key={'stripe-' + idx}
+                        x={n.x - layout.nodeWidth / 2 + 6 + idx * (layout.nodeWidth - 12) / all.length}
+                        y={n.y + layout.nodeHeight / 2 - 6}
+                        width={(layout.nodeWidth - 12) / all.length}
+                        height={4}
+                        fill={c.stroke}
+                      />
+                    ))}
                     {nameLines.map((line, idx) => (
                       <text 
                         key={\`name-\${idx}\`} 
@@ -1773,7 +1968,11 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
       <div className="absolute top-0 left-2 z-10 bg-white/90 dark:bg-slate-900/90 border border-slate-200 dark:border-slate-800 rounded px-2 py-1 text-sm flex items-center gap-3">
         {fieldFilter ? (
           <div className="flex items-center gap-2">
-            <span>Filtered by {fieldFilter.field}: {fieldFilter.value}</span>
+            <span>
+              Filtered by {fieldFilter.field.startsWith(CUSTOM_FIELD_FILTER_PREFIX)
+                ? (customFieldOptions.find(o => CUSTOM_FIELD_FILTER_PREFIX + o.key === fieldFilter.field)?.label || fieldFilter.field.slice(CUSTOM_FIELD_FILTER_PREFIX.length))
+                : fieldFilter.field}: {fieldFilter.value}
+            </span>
             <button onClick={() => setFieldFilter(null)} className="px-1 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800">Clear filter</button>
           </div>
         ) : (
@@ -1783,7 +1982,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
                 <span className="mr-1">View:</span>
                 <select 
                   value={viewMode} 
-                  onChange={e => setViewMode(e.target.value as 'skillGaps' | 'tags' | 'summary' | 'tasks' | 'minimal')}
+                  onChange={e => setViewMode(e.target.value as GraphViewMode)}
                   className="px-2 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
                 >
                   <option value="skillGaps">Architecture coverage</option>
@@ -1791,8 +1990,55 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
                   <option value="summary">Summary</option>
                   <option value="tasks">Tasks</option>
                   <option value="minimal">Minimal</option>
+                  {customFieldOptions.length > 0 && <option value="customField">Custom field</option>}
                 </select>
               </label>
+              {viewMode === 'tags' && (
+                <label className="flex items-center gap-1 text-xs">
+                  <span className="mr-1">Category:</span>
+                  <select
+                    value={tagCategory}
+                    onChange={e => setTagCategory(e.target.value)}
+                    className="px-2 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+                  >
+                    <option value="">All tags</option>
+                    {tagCategoryOptions.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {viewMode === 'customField' && (
+                <label className="flex items-center gap-1 text-xs">
+                  <span className="mr-1">Field:</span>
+                  <select
+                    value={customFieldKey}
+                    onChange={e => setCustomFieldKey(e.target.value)}
+                    className="px-2 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+                  >
+                    <option value="">Select...</option>
+                    {customFieldOptions.map(opt => (
+                      <option key={opt.key} value={opt.key}>{opt.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {savedFilters.length > 0 && (
+                <label className="flex items-center gap-1 text-xs">
+                  <span className="mr-1">Highlight:</span>
+                  <select
+                    value={highlightFilterId ?? ''}
+                    onChange={e => setHighlightFilterId(e.target.value ? Number(e.target.value) : null)}
+                    className="px-2 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+                    title="Highlight the items matching a saved filter"
+                  >
+                    <option value="">None</option>
+                    {savedFilters.map(f => (
+                      <option key={f.id} value={f.id}>{f.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
               <label className="flex items-center gap-1 text-xs">
                 <input type="checkbox" checked={layoutMode === 'rows'} onChange={e => setLayoutMode(e.target.checked ? 'rows' : 'columns')} />
                 Row layout
@@ -1823,6 +2069,20 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
               <div className="flex items-center gap-1 border-l border-slate-300 dark:border-slate-700 pl-2">
                 <button onClick={handleExportSVG} className="px-1.5 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800" title="Export as SVG">Export SVG</button>
                 <button onClick={handleExportHTML} className="px-1.5 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800" title="Export as interactive HTML">Export HTML</button>
+                <select
+                  value=""
+                  onChange={e => { if (e.target.value) handleExportFile(e.target.value as DiagramCodeFormat | GraphExchangeFormat) }}
+                  className="px-1.5 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                  title="Export the diagram as text for docs-as-code or network analysis tools"
+                >
+                  <option value="">Export as…</option>
+                  <optgroup label="Diagram code">
+                    {DIAGRAM_CODE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                  </optgroup>
+                  <optgroup label="Network analysis">
+                    {GRAPH_EXCHANGE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                  </optgroup>
+                </select>
               </div>
             </div>
             {showInstructions && (
@@ -1889,7 +2149,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
               className="fill-slate-700 dark:fill-slate-300" 
               style={{ fontSize: 12, fontWeight: 600 }}
             >
-              {group.parent}
+              {group.parent} ({group.count})
             </text>
           </g>
         ))}
@@ -2136,7 +2396,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
           const label = [typeLabel, noteLabel].filter(Boolean).join(' • ')
           return (
             <g key={key} style={{ pointerEvents: 'none' }}>
-              <path d={`M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${endX} ${endY}`} fill="none" stroke="#3b82f6" strokeWidth={2} />
+              <path d={`M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${endX} ${endY}`} fill="none" {...relationshipEdgeStyle(r.relationshipType)} strokeWidth={2} />
               {label && (
                 <text
                   x={midX}
@@ -2197,6 +2457,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
           const isHovered = hoveredItemId === n.id
           const isRelated = n.id !== undefined && relatedItemIds.has(n.id)
           const isActive = isSelected || isHovered || isRelated
+          const isDimmed = !!highlightedItemIds && !highlightedItemIds.has(n.id!)
           
           // Get open tasks for this item
           const itemOpenTasks = n.id !== undefined 
@@ -2223,11 +2484,23 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
               strokeColor = isActive ? "#dc2626" : "#ef4444"
             }
             strokeWidth = isHovered || isSelected ? 2 : (isRelated ? 2 : 1)
+          } else if (viewMode === 'customField') {
+            // Custom field view: color by the selected field's value, or default if no value
+            const fieldValue = getCustomFieldDisplay(n)
+            if (fieldValue) {
+              fillColor = getTagColor(fieldValue)
+              strokeColor = getTagBorderColor(fieldValue)
+            } else {
+              fillColor = isActive ? "#e5e7eb" : "#f3f4f6"
+              strokeColor = isActive ? "#9ca3af" : "#d1d5db"
+            }
+            strokeWidth = isHovered || isSelected ? 2 : (isRelated ? 2 : 1)
           } else if (viewMode === 'tags') {
-            // Tags view: color by first tag, or default if no tags
-            if (n.tags.length > 0) {
-              fillColor = isActive ? getTagColor(n.tags[0]) : getTagColor(n.tags[0])
-              strokeColor = isActive ? getTagBorderColor(n.tags[0]) : getTagBorderColor(n.tags[0])
+            // Tags view: color by the first tag in the chosen category, or default if none
+            const tagColors = getItemTagColors(n)
+            if (tagColors.length > 0) {
+              fillColor = tagColors[0].fill
+              strokeColor = tagColors[0].stroke
             } else {
               fillColor = isActive ? "#e5e7eb" : "#f3f4f6"
               strokeColor = isActive ? "#9ca3af" : "#d1d5db"
@@ -2244,9 +2517,10 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
             const hasSkillsGap = !!n.skillsGaps?.trim()
             const hasPrimaryArchitect = !!n.primaryArchitect?.trim()
             const hasSecondaryArchitects = n.secondaryArchitects.length > 0
+            const qualitySeverity = qualitySeverities.get(n.id!)
             
-            // Determine if item is red (skills gap or no coverage)
-            const isRed = hasSkillsGap || (!hasPrimaryArchitect && !hasSecondaryArchitects)
+            // Determine if item is red (skills gap, no coverage or a broken error rule)
+            const isRed = hasSkillsGap || (!hasPrimaryArchitect && !hasSecondaryArchitects) || qualitySeverity === 'error'
             
             // Get the immediate manager for this item (the manager whose team covers it)
             const managerCoverage = getItemManagerCoverage(n, teamMembers)
@@ -2257,7 +2531,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
             
             if (isRed) {
               baseFillColor = isActive ? "#fecaca" : "#fee2e2"
-            } else if (!hasSkillsGap && hasSecondaryArchitects && !hasPrimaryArchitect) {
+            } else if ((!hasSkillsGap && hasSecondaryArchitects && !hasPrimaryArchitect) || qualitySeverity === 'warning') {
               baseFillColor = isActive ? "#fed7aa" : "#ffedd5"
             } else {
               baseFillColor = isActive ? "#bfdbfe" : "#e0f2fe"
@@ -2323,8 +2597,25 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
               onMouseEnter={() => setHoveredItemId(n.id || null)}
               onMouseLeave={() => setHoveredItemId(null)}
               style={{ cursor: 'pointer' }}
+              opacity={isDimmed ? 0.3 : undefined}
             >
+              {/* Highlight filter: ring around matching items */}
+              {highlightedItemIds && !isDimmed && (
+                <rect x={n.x - layout.nodeWidth / 2 - 4} y={n.y - layout.nodeHeight / 2 - 4} width={layout.nodeWidth + 8} height={layout.nodeHeight + 8} rx={8} ry={8} fill="none" stroke="#f59e0b" strokeWidth={3} />
+              )}
               <rect x={n.x - layout.nodeWidth / 2} y={n.y - layout.nodeHeight / 2} width={layout.nodeWidth} height={layout.nodeHeight} rx={6} ry={6} fill={fillColor} stroke={strokeColor} strokeWidth={strokeWidth} />
+
+              {/* Tags view: one stripe per tag along the bottom edge */}
+              {viewMode === 'tags' && getItemTagColors(n).map((c, idx, all) => (
+                <rect
+                  key={`stripe-${idx}`}
+                  x={n.x - layout.nodeWidth / 2 + 6 + idx * (layout.nodeWidth - 12) / all.length}
+                  y={n.y + layout.nodeHeight / 2 - 6}
+                  width={(layout.nodeWidth - 12) / all.length}
+                  height={4}
+                  fill={c.stroke}
+                />
+              ))}
               
               {/* Filter icon for selected or hovered items - top right corner */}
               {(isSelected || isHovered) && (
@@ -2551,22 +2842,22 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
               
               {viewMode === 'tags' && (
                 <>
-                  {/* Tags - show all tags */}
-                  {n.tags.length > 0 && (
+                  {/* Tags - show the tags in the chosen category, or all tags */}
+                  {tagsInCategory(n.tags, tagCategory).length > 0 && (
                     <foreignObject
                       x={n.x - layout.nodeWidth / 2 + 4}
                       y={n.y - 10 + nameLines.length * 11}
                       width={layout.nodeWidth - 8}
-                      height={Math.min(40, n.tags.length * 12)}
+                      height={Math.min(40, tagsInCategory(n.tags, tagCategory).length * 12)}
                     >
                       <div className="flex flex-wrap gap-1 justify-center text-[8px] leading-tight">
-                        {n.tags.map((tag, idx) => (
+                        {tagsInCategory(n.tags, tagCategory).map((tag, idx) => (
                           <span
                             key={idx}
                             className="px-1.5 py-0.5 rounded text-slate-700 dark:text-slate-300"
                             style={{ 
-                              backgroundColor: getTagColor(tag),
-                              border: `1px solid ${getTagBorderColor(tag)}`
+                              backgroundColor: getTagColors(tag).fill,
+                              border: `1px solid ${getTagColors(tag).stroke}`
                             }}
                           >
                             {tag}
@@ -2578,6 +2869,19 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
                 </>
               )}
               
+              {viewMode === 'customField' && getCustomFieldDisplay(n) && (
+                <text
+                  x={n.x}
+                  y={n.y - 22 + nameLines.length * 11 + 6}
+                  textAnchor="middle"
+                  className="fill-blue-600 hover:underline"
+                  style={{ fontSize: 9, cursor: 'pointer' }}
+                  onClick={(e) => handleFieldClick(e, CUSTOM_FIELD_FILTER_PREFIX + customFieldKey, String(n.customFields?.[customFieldKey] ?? ''))}
+                >
+                  {getCustomFieldDisplay(n)}
+                </text>
+              )}
+
               {viewMode === 'skillGaps' && (
                 <>
                   {/* Business Contact (wrapped, clickable) */}
@@ -2742,6 +3046,31 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
                 <div className="text-slate-600 dark:text-slate-400">{selectedItem.parent}</div>
               </div>
             )}
+            {(lenses.find(l => l.key === selectedItem.lens)?.customFields || []).map(field => {
+              const display = formatCustomFieldValue(field, selectedItem.customFields?.[field.key])
+              if (!display) return null
+              return (
+                <div key={field.key}>
+                  <div className="font-medium text-slate-700 dark:text-slate-300 mb-1">{field.label}</div>
+                  {field.type === 'url' ? (
+                    isWebUrl(display)
+                      ? <a href={display} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{display}</a>
+                      : <span>{display}</span>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setFieldFilter({ field: CUSTOM_FIELD_FILTER_PREFIX + field.key, value: String(selectedItem.customFields?.[field.key]) })
+                        setSelectedItemId(null)
+                      }}
+                      className="text-slate-600 dark:text-slate-400 hover:underline text-left"
+                      title="Filter by this value"
+                    >
+                      {display}
+                    </button>
+                  )}
+                </div>
+              )
+            })}
             {selectedItem.hyperlinks && selectedItem.hyperlinks.length > 0 && (
               <div>
                 <div className="font-medium text-slate-700 dark:text-slate-300 mb-1">Hyperlinks</div>
@@ -2822,6 +3151,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
              (!selectedItem.secondaryArchitects || selectedItem.secondaryArchitects.length === 0) &&
              (!selectedItem.tags || selectedItem.tags.length === 0) && !selectedItem.skillsGaps && 
              !selectedItem.parent && (!selectedItem.hyperlinks || selectedItem.hyperlinks.length === 0) &&
+             Object.keys(selectedItem.customFields || {}).length === 0 &&
              relatedNotes.length === 0 && relatedTasks.length === 0 && (
               <div className="text-slate-500 dark:text-slate-400 italic">No additional details</div>
             )}
@@ -2854,7 +3184,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
           setEditItem(null)
         }}
         lens={editItem?.lens || 'domains'}
-        item={editItem}
+        item={editItem && (storedItems.find(i => i.id === editItem.id) || editItem)}
         onSaved={() => {
           loadItems()
         }}
@@ -2864,7 +3194,7 @@ export function GraphModal({ visible, lensOrderKey, onNavigate: _onNavigate }: G
   )
 }
 
-function computeLayout(items: ItemRecord[], windowW: number, windowH: number, visibleLenses: typeof LENSES, mode: 'columns' | 'rows', showParentBoxes: boolean = true, zoom: number = 1, viewMode: 'skillGaps' | 'tags' | 'summary' | 'tasks' | 'minimal' = 'summary', boxWidthScale: number = 1) {
+function computeLayout(items: ItemRecord[], windowW: number, windowH: number, visibleLenses: typeof LENSES, mode: 'columns' | 'rows', showParentBoxes: boolean = true, zoom: number = 1, viewMode: GraphViewMode = 'summary', boxWidthScale: number = 1) {
   const padding = 16
   // When zoomed in (zoom > 1), calculate layout with more space to fit more items per row
   // Divide by zoom to account for the fact that we'll scale up, so we need less base space
@@ -2879,7 +3209,7 @@ function computeLayout(items: ItemRecord[], windowW: number, windowH: number, vi
   const nodes: PositionedItem[] = []
   const positions = new Map<number, { x: number; y: number }>()
   const headers: Array<{ key: LensKey; label: string; x: number; y: number; width: number; height: number }> = []
-  const parentGroups: Array<{ parent: string; x: number; y: number; width: number; height: number; lens: LensKey }> = []
+  const parentGroups: Array<{ parent: string; count: number; depth: number; x: number; y: number; width: number; height: number; lens: LensKey }> = []
 
   if (mode === 'columns') {
     const n = visibleLenses.length
@@ -2902,67 +3232,52 @@ function computeLayout(items: ItemRecord[], windowW: number, windowH: number, vi
       })
       
       if (showParentBoxes) {
-        // Group items by parent
-        const itemsByParent = new Map<string | null, ItemRecord[]>()
-        colItems.forEach(item => {
-          const parentKey = item.parent || null
-          if (!itemsByParent.has(parentKey)) {
-            itemsByParent.set(parentKey, [])
-          }
-          itemsByParent.get(parentKey)!.push(item)
-        })
-        // Sort parents (null first, then alphabetically)
-        const sortedParents = Array.from(itemsByParent.keys()).sort((a, b) => {
-          if (a === null) return -1
-          if (b === null) return 1
-          return a.localeCompare(b)
-        })
-        
-        let currentY = topOffset
+        // Items with children become boxes holding the item and, indented, its
+        // children - nesting one box per level of the tree
         const parentGroupPadding = 2
         const parentGroupHeaderHeight = 20
-        
-        sortedParents.forEach(parent => {
-          const parentItems = itemsByParent.get(parent)!
-          
-          if (parent !== null && parentItems.length > 0) {
-            // Create parent group box
-            const groupHeight = parentItems.length * (nodeHeight + rowGap) + parentGroupPadding * 2 + parentGroupHeaderHeight
-            const groupX = padding + idx * (colWidth + colGap)
-            const groupY = currentY
-            const groupWidth = colWidth
-            
-            parentGroups.push({
-              parent,
-              x: groupX,
-              y: groupY,
-              width: groupWidth,
-              height: groupHeight,
-              lens: l.key as LensKey
-            })
-            
-            // Position items within parent group
-            parentItems.forEach((it, itemIdx) => {
-              const x = groupX + groupWidth / 2
-              const y = currentY + parentGroupHeaderHeight + parentGroupPadding + itemIdx * (nodeHeight + rowGap) + nodeHeight / 2
-              if (it.id) positions.set(it.id, { x, y })
-              nodes.push({ ...it, x, y })
-            })
-            
-            currentY += groupHeight + rowGap
-          } else {
-            // Items without parent - position normally
-            parentItems.forEach((it, itemIdx) => {
-              const x = padding + idx * (colWidth + colGap) + colWidth / 2
-              const y = currentY + itemIdx * (nodeHeight + rowGap) + nodeHeight / 2
-              if (it.id) positions.set(it.id, { x, y })
-              nodes.push({ ...it, x, y })
-            })
-            currentY += parentItems.length * (nodeHeight + rowGap)
+        const parentGroupInset = 4
+        const columnX = padding + idx * (colWidth + colGap)
+
+        const placeItem = (it: ItemRecord, y: number) => {
+          const x = columnX + colWidth / 2
+          if (it.id) positions.set(it.id, { x, y: y + nodeHeight / 2 })
+          nodes.push({ ...it, x, y: y + nodeHeight / 2 })
+        }
+
+        // Lays out a subtree from y and returns the height it used
+        const layoutNode = (node: ItemTreeNode, x: number, width: number, y: number): number => {
+          if (node.children.length === 0) {
+            placeItem(node.item, y)
+            return nodeHeight + rowGap
           }
-          
-          maxRows = Math.max(maxRows, Math.ceil((currentY - topOffset) / (nodeHeight + rowGap)))
+          let innerY = y + parentGroupHeaderHeight + parentGroupPadding
+          placeItem(node.item, innerY)
+          innerY += nodeHeight + rowGap
+          node.children.forEach(child => {
+            innerY += layoutNode(child, x + parentGroupInset, width - parentGroupInset * 2, innerY)
+          })
+          const height = innerY - y + parentGroupPadding
+          parentGroups.push({
+            parent: node.item.name,
+            count: node.descendantCount,
+            depth: node.depth,
+            x,
+            y,
+            width,
+            height,
+            lens: l.key as LensKey
+          })
+          return height + rowGap
+        }
+
+        // Standalone items first, then the trees
+        const roots = buildItemTree(colItems)
+        let currentY = topOffset
+        ;[...roots.filter(r => r.children.length === 0), ...roots.filter(r => r.children.length > 0)].forEach(root => {
+          currentY += layoutNode(root, columnX, colWidth, currentY)
         })
+        maxRows = Math.max(maxRows, Math.ceil((currentY - topOffset) / (nodeHeight + rowGap)))
       } else {
         // Flat list - no parent grouping
         colItems.forEach((it, row) => {
@@ -3003,7 +3318,8 @@ function computeLayout(items: ItemRecord[], windowW: number, windowH: number, vi
       x: header.x + centerOffset - padding
     }))
     
-    const centeredParentGroups = parentGroups.map(group => ({
+    // Outer boxes first so nested boxes are drawn on top of them
+    const centeredParentGroups = [...parentGroups].sort((a, b) => a.depth - b.depth).map(group => ({
       ...group,
       x: group.x + centerOffset - padding
     }))
@@ -3034,14 +3350,17 @@ function computeLayout(items: ItemRecord[], windowW: number, windowH: number, vi
       let itemsMaxY = itemsStartY // Track the maximum Y position of items (start at itemsStartY)
       
       if (showParentBoxes) {
-        // Group items by parent
+        // Group each tree under its top-level item; the box lists the whole
+        // tree in order, with the number of items below the top-level item
         const itemsByParent = new Map<string | null, ItemRecord[]>()
-        rowItems.forEach(item => {
-          const parentKey = item.parent || null
-          if (!itemsByParent.has(parentKey)) {
-            itemsByParent.set(parentKey, [])
+        const countByParent = new Map<string, number>()
+        buildItemTree(rowItems).forEach(root => {
+          if (root.children.length === 0) {
+            itemsByParent.set(null, [...(itemsByParent.get(null) || []), root.item])
+            return
           }
-          itemsByParent.get(parentKey)!.push(item)
+          itemsByParent.set(root.item.name, flattenItemTree([root]).map(node => node.item))
+          countByParent.set(root.item.name, root.descendantCount)
         })
         const parentGroupPadding = 2
         const parentGroupHeaderHeight = 20
@@ -3138,6 +3457,8 @@ function computeLayout(items: ItemRecord[], windowW: number, windowH: number, vi
               // Parent box - create parent group
               parentGroups.push({
                 parent: box.parent!,
+                count: countByParent.get(box.parent!) || 0,
+                depth: 0,
                 x: groupX,
                 y: groupY,
                 width: box.width,
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react'
+import { getAllItemNames } from '../db'
+import type { HistoryEntry, HistoryTable } from '../types'
+import { formatHistoryValue, getItemHistory, getRecordHistory, historyFieldLabel, revertHistoryEntry, visibleHistoryChanges } from '../utils/history'
+
+interface HistoryPanelProps {
+  // Either an item (item + its relationships) or a single record
+  itemId?: number
+  table?: HistoryTable
+  recordId?: number
+  onReverted?: () => void
+}
+
+const ACTION_LABELS: Record<HistoryEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+}
+
+export function HistoryPanel({ itemId, table, recordId, onReverted }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [itemNames, setItemNames] = useState<Map<number, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadHistory()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [itemId, table, recordId])
+
+  async function loadHistory() {
+    setLoading(true)
+    let loaded: HistoryEntry[] = []
+    if (itemId !== undefined) {
+      loaded = await getItemHistory(itemId)
+    } else if (table && recordId !== undefined) {
+      loaded = await getRecordHistory(table, recordId)
+    }
+    setEntries(loaded)
+    if (loaded.some(e => e.table === 'relationships')) {
+      const items = await getAllItemNames()
+      setItemNames(new Map(items.map(i => [i.id, i.name])))
+    }
+    setLoading(false)
+  }
+
+  async function revert(entry: HistoryEntry) {
+    if (!confirm(`Revert this change from ${new Date(entry.timestamp).toLocaleString()}?`)) return
+    try {
+      await revertHistoryEntry(entry)
+    } catch (e) {
+      alert(`Could not revert change: ${e instanceof Error ? e.message : String(e)}`)
+      return
+    }
+    await loadHistory()
+    onReverted?.()
+  }
+
+  function describe(entry: HistoryEntry): string {
+    if (entry.table === 'relationships') {
+      const otherId = entry.itemIds.find(id => id !== itemId) ?? entry.itemIds[1]
+      return `Relationship to ${itemNames.get(otherId) || '(deleted item)'}`
+    }
+    const name = entry.snapshot?.name ?? entry.snapshot?.title ?? entry.snapshot?.description
+    return name ? String(name) : ''
+  }
+
+  if (loading) {
+    return <div className="text-sm text-slate-500 dark:text-slate-400">Loading history...</div>
+  }
+  if (entries.length === 0) {
+    return <div className="text-sm text-slate-500 dark:text-slate-400">No changes recorded yet</div>
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map(entry => (
+        <div key={entry.id} className="text-sm p-2 border border-slate-200 dark:border-slate-800 rounded">
+          <div className="flex items-center gap-2">
+            <span className={`px-1.5 py-0.5 rounded text-xs ${
+              entry.action === 'create'
+                ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+                : entry.action === 'delete'
+                  ? 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'
+                  : 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+            }`}>
+              {ACTION_LABELS[entry.action]}
+            </span>
+            <span className="font-medium truncate">{describe(entry)}</span>
+            <span className="text-xs text-slate-500 dark:text-slate-400 ml-auto flex-shrink-0">
+              {new Date(entry.timestamp).toLocaleString()}
+            </span>
+            <button
+              onClick={() => revert(entry)}
+              className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 flex-shrink-0"
+              title="Undo this change"
+            >
+              Revert
+            </button>
+          </div>
+          {visibleHistoryChanges(entry).length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-xs text-slate-600 dark:text-slate-400">
+              {visibleHistoryChanges(entry).map(change => (
+                <li key={change.field}>
+                  <span className="font-medium">{historyFieldLabel(change.field)}:</span>{' '}
+                  <span className="line-through">{formatHistoryValue(change.before)}</span>
+                  {' → '}
+                  <span>{formatHistoryValue(change.after)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
 import { useEffect, useState } from 'react'
-import { db, getAllItemNames, getAllPeopleNames, getAllLenses } from '../db'
+import { db, getAllItemNames, getAllPeopleNames, getAllLenses, resolvePersonId, resolvePersonIds } from '../db'
 import {
   LENSES,
+  LIFECYCLE_STATUSES,
+  RELATIONSHIP_LIFECYCLE_STATUSES,
   type ItemRecord,
   type LensKey,
   type LensDefinition,
@@ -13,13 +15,21 @@ import {
   type RelationshipType,
   type RelationshipSideLabel,
   type RelationshipLifecycleStatus,
-  getRelationshipSides,
-  getOppositeSideLabel,
-  inferRelationshipTypeFromSide,
+  type RelationshipTypeDefinition,
+  type LifecycleTransition,
+  type ItemTransitionStatus,
+  type RelationshipTransitionStatus,
 } from '../types'
 import { Modal } from './Modal'
 import { AutocompleteInput, CommaSeparatedAutocompleteInput } from './AutocompleteInput'
 import { TaskDialog } from './TaskDialog'
+import { HistoryPanel } from './HistoryPanel'
+import { LifecycleTransitionsEditor } from './LifecycleTransitionsEditor'
+import { getOppositeSideLabel, getRelationshipSides, getRelationshipTypes, inferRelationshipTypeFromSide, loadRelationshipTypes } from '../utils/relationshipTypes'
+import { createRelationship, getItemRelationships, updateRelationship } from '../utils/relationships'
+import { buildCustomFieldValues, customFieldValueToInput, validateCustomFieldValue } from '../utils/customFields'
+import { buildItemTree, flattenItemTree, getDescendantIds, syncChildParentNames } from '../utils/hierarchy'
+import { validateLifecycleTransitions } from '../utils/lifecycle'
 
 interface ItemDialogProps {
   open: boolean
@@ -29,27 +39,31 @@ interface ItemDialogProps {
   onSaved?: () => void
   onOpenMeetingNote?: (noteId: number) => void // Callback to open meeting notes modal
   onEditPerson?: (personName: string) => void // Callback to navigate to person view
+  parentId?: number // Parent for a new item, e.g. when adding a child from the tree
 }
 
-export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNote, onEditPerson }: ItemDialogProps) {
+export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNote, onEditPerson, parentId: initialParentId }: ItemDialogProps) {
   const isNew = !item?.id
   const [taskDialogOpen, setTaskDialogOpen] = useState(false)
   const [editingTask, setEditingTask] = useState<Task | null>(null)
   const [name, setName] = useState(item?.name || '')
   const [description, setDescription] = useState(item?.description || '')
   const [lifecycleStatus, setLifecycleStatus] = useState(item?.lifecycleStatus || '')
+  const [lifecycleTransitions, setLifecycleTransitions] = useState<LifecycleTransition<ItemTransitionStatus>[]>(item?.lifecycleTransitions || [])
   const [businessContact, setBusinessContact] = useState(item?.businessContact || '')
   const [techContact, setTechContact] = useState(item?.techContact || '')
   const [primaryArchitect, setPrimaryArchitect] = useState(item?.primaryArchitect || '')
   const [secondaryArchitectsText, setSecondaryArchitectsText] = useState((item?.secondaryArchitects || []).join(', '))
   const [tagsText, setTagsText] = useState((item?.tags || []).join(', '))
   const [skillsGaps, setSkillsGaps] = useState(item?.skillsGaps || '')
-  const [parent, setParent] = useState(item?.parent || '')
+  const [parentId, setParentId] = useState<number | undefined>(item ? item.parentId : initialParentId)
   const [hyperlinks, setHyperlinks] = useState<Hyperlink[]>(item?.hyperlinks || [])
-  const [allItems, setAllItems] = useState<ItemRecord[]>([]) // For parent autocomplete
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, string>>(() => toCustomFieldInputs(item))
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details')
+  const [allItems, setAllItems] = useState<ItemRecord[]>([]) // For the parent picker
   const [peopleNames, setPeopleNames] = useState<string[]>([]) // For people autocomplete
 
-  // Relationships (outgoing from this item)
+  // Relationships of this item, seen from its side
   const [rels, setRels] = useState<RelationshipRecord[]>([])
   const [relatedItems, setRelatedItems] = useState<Map<number, ItemRecord>>(new Map())
   const [referencedNotes, setReferencedNotes] = useState<MeetingNote[]>([])
@@ -64,33 +78,45 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
   const [newRelationshipType, setNewRelationshipType] = useState<RelationshipType>('Default')
   const [newRelationshipRole, setNewRelationshipRole] = useState<RelationshipSideLabel | ''>('')
   const [newRelationshipNote, setNewRelationshipNote] = useState('')
-  const BASE_RELATIONSHIP_TYPES: RelationshipType[] = ['Parent-Child', 'Replaces-Replaced By', 'Enables-Depends On', 'Default']
+  const [relationshipTypes, setRelationshipTypes] = useState<RelationshipTypeDefinition[]>(getRelationshipTypes())
+  const [datedRelationshipIds, setDatedRelationshipIds] = useState<Set<number>>(new Set()) // Rows showing their lifecycle changes
+
+  function resetFields(source?: ItemRecord | null) {
+    setName(source?.name || '')
+    setDescription(source?.description || '')
+    setLifecycleStatus(source?.lifecycleStatus || '')
+    setLifecycleTransitions(source?.lifecycleTransitions || [])
+    setBusinessContact(source?.businessContact || '')
+    setTechContact(source?.techContact || '')
+    setPrimaryArchitect(source?.primaryArchitect || '')
+    setSecondaryArchitectsText((source?.secondaryArchitects || []).join(', '))
+    setTagsText((source?.tags || []).join(', '))
+    setSkillsGaps(source?.skillsGaps || '')
+    setParentId(source?.parentId)
+    setHyperlinks(source?.hyperlinks || [])
+    setCustomFieldValues(toCustomFieldInputs(source))
+  }
+
+  async function loadRelationships(itemId: number) {
+    const relationships = await getItemRelationships(itemId)
+    setRels(relationships)
+    // Load related items
+    const itemsMap = new Map<number, ItemRecord>()
+    for (const rel of relationships) {
+      const relatedItem = await db.items.get(rel.toItemId)
+      if (relatedItem) itemsMap.set(rel.toItemId, relatedItem)
+    }
+    setRelatedItems(itemsMap)
+  }
 
   useEffect(() => {
     // Reset fields on item change
-    setName(item?.name || '')
-    setDescription(item?.description || '')
-    setLifecycleStatus(item?.lifecycleStatus || '')
-    setBusinessContact(item?.businessContact || '')
-    setTechContact(item?.techContact || '')
-    setPrimaryArchitect(item?.primaryArchitect || '')
-    setSecondaryArchitectsText((item?.secondaryArchitects || []).join(', '))
-    setTagsText((item?.tags || []).join(', '))
-    setSkillsGaps(item?.skillsGaps || '')
-    setParent(item?.parent || '')
-    setHyperlinks(item?.hyperlinks || [])
+    resetFields(item)
+    setActiveTab('details')
     if (item?.id) {
       const itemId = item.id
       async function loadData() {
-        const relationships = await db.relationships.where({ fromItemId: itemId }).toArray()
-        setRels(relationships)
-        // Load related items
-        const itemsMap = new Map<number, ItemRecord>()
-        for (const rel of relationships) {
-          const relatedItem = await db.items.get(rel.toItemId)
-          if (relatedItem) itemsMap.set(rel.toItemId, relatedItem)
-        }
-        setRelatedItems(itemsMap)
+        await loadRelationships(itemId)
         // Load meeting notes that reference this item
         await loadReferencedNotes(itemId)
         // Load tasks that reference this item
@@ -106,6 +132,19 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
     }
   }, [item?.id, item])
 
+  async function handleHistoryReverted() {
+    if (!item?.id) return
+    const current = await db.items.get(item.id)
+    onSaved?.()
+    if (!current) {
+      // Reverting the creation removed the item
+      onClose()
+      return
+    }
+    resetFields(current)
+    await loadRelationships(item.id)
+  }
+
   async function loadReferencedNotes(itemId: number) {
     // Find notes that reference this item in two ways:
     // 1. Tasks that reference this item in their itemReferences array
@@ -158,27 +197,37 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
     return LENSES.find(l => l.key === lens)?.label || lens
   }
 
+  // Custom fields defined for this item's lens
+  const customFields = lensOptions.find(l => l.key === lens)?.customFields || []
+
+  // Items of this lens in tree order, leaving out the item and its descendants
+  const lensItems = allItems.filter(i => i.lens === lens)
+  const excludedParents = item?.id ? new Set([item.id, ...getDescendantIds(item.id, lensItems)]) : new Set<number>()
+  const parentOptions = flattenItemTree(buildItemTree(lensItems)).filter(node => !excludedParents.has(node.item.id!))
+
   useEffect(() => {
     // Also clear when opening a fresh dialog to add
     if (open && isNew) {
       setName('')
       setDescription('')
       setLifecycleStatus('')
+      setLifecycleTransitions([])
       setBusinessContact('')
       setTechContact('')
       setPrimaryArchitect('')
       setSecondaryArchitectsText('')
       setTagsText('')
       setSkillsGaps('')
-      setParent('')
+      setParentId(initialParentId)
       setHyperlinks([])
+      setCustomFieldValues({})
       setRels([])
       setRelatedItems(new Map())
       setReferencedNotes([])
     }
-  }, [open, isNew])
+  }, [open, isNew, initialParentId])
 
-  // Load all items for parent autocomplete and people names
+  // Load all items for the parent picker and people names
   useEffect(() => {
     async function loadAllItems() {
       const items = await db.items.toArray()
@@ -200,6 +249,7 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
       loadAllItems()
       loadPeopleNames()
       loadLenses()
+      loadRelationshipTypes().then(setRelationshipTypes)
     }
   }, [open])
 
@@ -239,80 +289,39 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
     const note = newRelationshipNote.trim() || undefined
 
     // prevent duplicates both directions
-    const existing = await db.relationships.where({ fromItemId: item.id, toItemId }).first()
-    if (!existing) {
-      await db.relationships.add({
-        fromLens: lens,
-        fromItemId: item.id,
-        toLens,
-        toItemId,
-        lifecycleStatus,
-        relationshipType: baseType,
-        fromItemIdRelationshipType: fromSide,
-        toItemIdRelationshipType: toSide,
-        note,
-        createdAt: now,
-      })
-    }
-    const reverseExisting = await db.relationships.where({ fromItemId: toItemId, toItemId: item.id }).first()
-    if (!reverseExisting) {
-      await db.relationships.add({
-        fromLens: toLens,
-        fromItemId: toItemId,
-        toLens: lens,
-        toItemId: item.id,
-        lifecycleStatus,
-        relationshipType: baseType,
-        fromItemIdRelationshipType: toSide,
-        toItemIdRelationshipType: fromSide,
-        note,
-        createdAt: now,
-      })
-    }
+    await createRelationship({
+      fromLens: lens,
+      fromItemId: item.id,
+      toLens,
+      toItemId,
+      lifecycleStatus,
+      relationshipType: baseType,
+      fromItemIdRelationshipType: fromSide,
+      toItemIdRelationshipType: toSide,
+      note,
+      createdAt: now,
+    })
     // Clear fields
     setNewRelationshipType('Default')
     setNewRelationshipRole('')
     setNewRelationshipNote('')
-    const updated = await db.relationships.where({ fromItemId: item.id }).toArray()
-    setRels(updated)
-    // Reload related items
-    const itemsMap = new Map<number, ItemRecord>()
-    for (const rel of updated) {
-      const relatedItem = await db.items.get(rel.toItemId)
-      if (relatedItem) itemsMap.set(rel.toItemId, relatedItem)
-    }
-    setRelatedItems(itemsMap)
+    await loadRelationships(item.id)
   }
 
   async function removeRelationship(id?: number) {
     if (!id || !item?.id) return
-    const rel = await db.relationships.get(id)
-    if (!rel) return
     await db.relationships.delete(id)
-    // delete reverse as well
-    const reverse = await db.relationships.where({ fromItemId: rel.toItemId, toItemId: rel.fromItemId }).first()
-    if (reverse?.id) await db.relationships.delete(reverse.id)
-    const updated = await db.relationships.where({ fromItemId: item.id }).toArray()
-    setRels(updated)
-    // Reload related items
-    const itemsMap = new Map<number, ItemRecord>()
-    for (const rel of updated) {
-      const relatedItem = await db.items.get(rel.toItemId)
-      if (relatedItem) itemsMap.set(rel.toItemId, relatedItem)
-    }
-    setRelatedItems(itemsMap)
+    await loadRelationships(item.id)
   }
 
-  async function updateRelationshipNote(rel: RelationshipRecord, noteValue: string) {
+  async function changeRelationship(rel: RelationshipRecord, changes: Parameters<typeof updateRelationship>[1]) {
     if (!rel.id || !item?.id) return
-    const note = noteValue === '' ? undefined : noteValue
-    await db.relationships.update(rel.id, { note })
-    const reverse = await db.relationships.where({ fromItemId: rel.toItemId, toItemId: rel.fromItemId }).first()
-    if (reverse?.id) {
-      await db.relationships.update(reverse.id, { note })
-    }
-    const updated = await db.relationships.where({ fromItemId: item.id }).toArray()
-    setRels(updated)
+    await updateRelationship(rel, changes)
+    setRels(await getItemRelationships(item.id))
+  }
+
+  async function updateRelationshipNote(rel: RelationshipRecord, noteValue: string) {
+    await changeRelationship(rel, { note: noteValue === '' ? undefined : noteValue })
   }
 
   async function save() {
@@ -324,6 +333,30 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
     const now = Date.now()
     const secondaryArchitects = splitList(secondaryArchitectsText)
     const tags = splitList(tagsText)
+    const fieldErrors = customFields
+      .map(field => validateCustomFieldValue(field, customFieldValues[field.key] || ''))
+      .filter((err): err is string => !!err)
+    const transitionError = validateLifecycleTransitions(lifecycleTransitions)
+    if (transitionError) fieldErrors.push(transitionError)
+    if (fieldErrors.length > 0) {
+      alert(fieldErrors.join('\n'))
+      return
+    }
+    // Keep values for fields that are no longer part of the lens schema
+    const retainedValues = Object.fromEntries(
+      Object.entries(item?.customFields || {}).filter(([key]) => !customFields.some(f => f.key === key))
+    )
+    const builtValues = { ...retainedValues, ...buildCustomFieldValues(customFields, customFieldValues) }
+    const itemCustomFields = Object.keys(builtValues).length > 0 ? builtValues : undefined
+    // Link people to their team member records, adding anyone new
+    const personIds = {
+      businessContactId: await resolvePersonId(businessContact, 'Business Stakeholder'),
+      techContactId: await resolvePersonId(techContact, 'Tech Stakeholder'),
+      primaryArchitectId: await resolvePersonId(primaryArchitect),
+      secondaryArchitectIds: await resolvePersonIds(secondaryArchitects),
+    }
+
+    const parentItem = parentId !== undefined ? parentOptions.find(o => o.item.id === parentId)?.item : undefined
 
     try {
       if (isNew) {
@@ -332,14 +365,18 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
           name: trimmedName,
           description: description.trim() || undefined,
           lifecycleStatus: (lifecycleStatus || undefined) as LifecycleStatus | undefined,
+          lifecycleTransitions: lifecycleTransitions.length > 0 ? lifecycleTransitions : undefined,
           businessContact,
           techContact,
           primaryArchitect,
           secondaryArchitects,
+          ...personIds,
           tags,
           skillsGaps,
-          parent: parent.trim() || undefined,
+          parentId: parentItem?.id,
+          parent: parentItem?.name,
           hyperlinks: hyperlinks.length > 0 ? hyperlinks : undefined,
+          customFields: itemCustomFields,
           createdAt: now,
           updatedAt: now,
         })
@@ -348,20 +385,19 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
           name: trimmedName,
           description: description.trim() || undefined,
           lifecycleStatus: (lifecycleStatus || undefined) as LifecycleStatus | undefined,
+          lifecycleTransitions: lifecycleTransitions.length > 0 ? lifecycleTransitions : undefined,
           businessContact,
           techContact,
           primaryArchitect,
           secondaryArchitects,
+          ...personIds,
           tags,
           skillsGaps,
+          customFields: itemCustomFields,
           updatedAt: now,
         }
-        // Only include parent if it has a value
-        if (parent.trim()) {
-          updateData.parent = parent.trim()
-        } else {
-          updateData.parent = undefined
-        }
+        updateData.parentId = parentItem?.id
+        updateData.parent = parentItem?.name
         // Only include hyperlinks if there are any
         if (hyperlinks.length > 0) {
           // Filter out any hyperlinks with empty label and url
@@ -371,11 +407,14 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
           updateData.hyperlinks = undefined
         }
         await db.items.update(item!.id!, updateData)
+        if (trimmedName !== item!.name) {
+          await syncChildParentNames(item!.id!, trimmedName)
+        }
         // Verify the update worked by reloading the item
         const updated = await db.items.get(item!.id!)
         if (updated) {
           // Update local state to reflect saved values
-          setParent(updated.parent || '')
+          setParentId(updated.parentId)
           setHyperlinks(updated.hyperlinks && Array.isArray(updated.hyperlinks) ? updated.hyperlinks : [])
         }
       }
@@ -399,6 +438,27 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
         </>
       )}
     >
+      {!isNew && (
+        <div className="flex gap-1 mb-3 border-b border-slate-200 dark:border-slate-800">
+          {(['details', 'history'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-3 py-1.5 text-sm -mb-px border-b-2 ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100'
+              }`}
+            >
+              {tab === 'details' ? 'Details' : 'History'}
+            </button>
+          ))}
+        </div>
+      )}
+      {activeTab === 'history' && item?.id ? (
+        <HistoryPanel itemId={item.id} onReverted={handleHistoryReverted} />
+      ) : (
+      <>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
         <Field label="Name" required>
           <input value={name} onChange={e => setName(e.target.value)} className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700" />
@@ -416,6 +476,13 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
             <option value="Stable">Stable</option>
           </select>
         </Field>
+        <Field label="Planned lifecycle changes">
+          <LifecycleTransitionsEditor<ItemTransitionStatus>
+            value={lifecycleTransitions}
+            statuses={[...LIFECYCLE_STATUSES, 'Retired']}
+            onChange={setLifecycleTransitions}
+          />
+        </Field>
         <Field label="Business contact">
           <AutocompleteInput
             value={businessContact}
@@ -456,19 +523,18 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
           <textarea value={skillsGaps} onChange={e => setSkillsGaps(e.target.value)} className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700" rows={3} placeholder="Describe any skills gaps..." />
         </Field>
         <Field label="Parent">
-          <input
-            type="text"
-            value={parent}
-            onChange={e => setParent(e.target.value)}
-            list="parent-list"
+          <select
+            value={parentId ?? ''}
+            onChange={e => setParentId(e.target.value ? Number(e.target.value) : undefined)}
             className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
-            placeholder="Parent name for grouping (optional)"
-          />
-          <datalist id="parent-list">
-            {Array.from(new Set(allItems.map(i => i.parent).filter(Boolean))).map(p => (
-              <option key={p} value={p!} />
+          >
+            <option value="">(None - top level)</option>
+            {parentOptions.map(node => (
+              <option key={node.item.id} value={node.item.id}>
+                {'\u00a0\u00a0'.repeat(node.depth)}{node.item.name}
+              </option>
             ))}
-          </datalist>
+          </select>
         </Field>
         <Field label="Hyperlinks">
           <div className="space-y-2">
@@ -540,6 +606,37 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
             </button>
           </div>
         </Field>
+        {customFields.map(field => {
+          const value = customFieldValues[field.key] || ''
+          const setValue = (next: string) => setCustomFieldValues(prev => ({ ...prev, [field.key]: next }))
+          return (
+            <Field key={field.key} label={field.label} required={field.required}>
+              {field.type === 'enum' ? (
+                <select value={value} onChange={e => setValue(e.target.value)} className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700">
+                  <option value="">(None)</option>
+                  {(field.options || []).map(opt => (
+                    <option key={opt} value={opt}>{opt}</option>
+                  ))}
+                </select>
+              ) : field.type === 'person' ? (
+                <AutocompleteInput
+                  value={value}
+                  onChange={setValue}
+                  suggestions={peopleNames}
+                  className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+                />
+              ) : (
+                <input
+                  type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : field.type === 'url' ? 'url' : 'text'}
+                  value={value}
+                  onChange={e => setValue(e.target.value)}
+                  className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+                  placeholder={field.type === 'url' ? 'https://...' : undefined}
+                />
+              )}
+            </Field>
+          )
+        })}
       </div>
 
       {!isNew && (
@@ -568,11 +665,11 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
                   }}
                   className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700"
                 >
-                  {BASE_RELATIONSHIP_TYPES.map(opt => (
-                    <option key={opt} value={opt}>{opt}</option>
+                  {relationshipTypes.map(t => (
+                    <option key={t.name} value={t.name}>{t.name}</option>
                   ))}
                 </select>
-                {newRelationshipType !== 'Default' && (
+                {getRelationshipSides(newRelationshipType).from !== getRelationshipSides(newRelationshipType).to && (
                   <select
                     value={newRelationshipRole}
                     onChange={e => setNewRelationshipRole(e.target.value as RelationshipSideLabel)}
@@ -618,7 +715,8 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
               const fromRole: RelationshipSideLabel = r.fromItemIdRelationshipType || sides.from
               const lifecycle: RelationshipLifecycleStatus = r.lifecycleStatus || 'Existing'
               return (
-                <div key={r.id} className="flex items-center gap-2 py-1">
+                <div key={r.id}>
+                <div className="flex items-center gap-2 py-1">
                   <span className="flex-1 text-sm">
                     {lensLabel(r.toLens)}: {relatedItem?.name || `#${r.toItemId}`}
                   </span>
@@ -629,60 +727,30 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
                       const nextSides = getRelationshipSides(nextType)
                       const nextFrom = nextSides.from
                       const nextTo = nextSides.to
-                      if (r.id) {
-                        await db.relationships.update(r.id, {
-                          relationshipType: nextType,
-                          fromItemIdRelationshipType: nextFrom,
-                          toItemIdRelationshipType: nextTo,
-                        })
-                        const reverse = await db.relationships.where({ fromItemId: r.toItemId, toItemId: r.fromItemId }).first()
-                        if (reverse?.id) {
-                          await db.relationships.update(reverse.id, {
-                            relationshipType: nextType,
-                            fromItemIdRelationshipType: nextTo,
-                            toItemIdRelationshipType: nextFrom,
-                          })
-                        }
-                        if (item?.id) {
-                          const updated = await db.relationships.where({ fromItemId: item.id }).toArray()
-                          setRels(updated)
-                        }
-                      }
+                      await changeRelationship(r, {
+                        relationshipType: nextType,
+                        fromItemIdRelationshipType: nextFrom,
+                        toItemIdRelationshipType: nextTo,
+                      })
                     }}
                     className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
                   >
-                    {BASE_RELATIONSHIP_TYPES.map(opt => (
-                      <option key={opt} value={opt}>{opt}</option>
+                    {relationshipTypes.map(t => (
+                      <option key={t.name} value={t.name}>{t.name}</option>
                     ))}
                   </select>
-                  {baseType !== 'Default' && (
+                  {sides.from !== sides.to && (
                     <select
                       value={fromRole}
                       onChange={async (e) => {
                         const selectedRole = e.target.value as RelationshipSideLabel
-                        const inferredType = inferRelationshipTypeFromSide(selectedRole) || baseType
-                        const normalized = getRelationshipSides(inferredType)
                         const nextFrom = selectedRole
-                        const nextTo = getOppositeSideLabel(inferredType, selectedRole) || normalized.to
-                        if (r.id) {
-                          await db.relationships.update(r.id, {
-                            relationshipType: inferredType,
-                            fromItemIdRelationshipType: nextFrom,
-                            toItemIdRelationshipType: nextTo,
-                          })
-                          const reverse = await db.relationships.where({ fromItemId: r.toItemId, toItemId: r.fromItemId }).first()
-                          if (reverse?.id) {
-                            await db.relationships.update(reverse.id, {
-                              relationshipType: inferredType,
-                              fromItemIdRelationshipType: nextTo,
-                              toItemIdRelationshipType: nextFrom,
-                            })
-                          }
-                          if (item?.id) {
-                            const updated = await db.relationships.where({ fromItemId: item.id }).toArray()
-                            setRels(updated)
-                          }
-                        }
+                        const nextTo = getOppositeSideLabel(baseType, selectedRole)
+                        await changeRelationship(r, {
+                          relationshipType: baseType,
+                          fromItemIdRelationshipType: nextFrom,
+                          toItemIdRelationshipType: nextTo,
+                        })
                       }}
                       className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
                     >
@@ -703,17 +771,7 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
                     value={lifecycle}
                     onChange={async (e) => {
                       const newStatus = e.target.value as RelationshipLifecycleStatus
-                      if (r.id) {
-                        await db.relationships.update(r.id, { lifecycleStatus: newStatus })
-                        const reverse = await db.relationships.where({ fromItemId: r.toItemId, toItemId: r.fromItemId }).first()
-                        if (reverse?.id) {
-                          await db.relationships.update(reverse.id, { lifecycleStatus: newStatus })
-                        }
-                        if (item?.id) {
-                          const updated = await db.relationships.where({ fromItemId: item.id }).toArray()
-                          setRels(updated)
-                        }
-                      }
+                      await changeRelationship(r, { lifecycleStatus: newStatus })
                     }}
                     className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
                   >
@@ -721,8 +779,31 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
                     <option value="Planned to remove">Planned to remove</option>
                     <option value="Existing">Existing</option>
                   </select>
+                  <button
+                    className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 whitespace-nowrap"
+                    onClick={() => setDatedRelationshipIds(prev => {
+                      const next = new Set(prev)
+                      if (next.has(r.id!)) next.delete(r.id!)
+                      else next.add(r.id!)
+                      return next
+                    })}
+                    title="Planned lifecycle changes"
+                  >
+                    Dates{r.lifecycleTransitions?.length ? ` (${r.lifecycleTransitions.length})` : ''}
+                  </button>
                   <button className="px-2 py-1 text-xs rounded border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20" onClick={() => removeRelationship(r.id)}>Remove</button>
                 </div>
+                {datedRelationshipIds.has(r.id!) && (
+                  <div className="pl-4 pb-2">
+                    <LifecycleTransitionsEditor<RelationshipTransitionStatus>
+                      compact
+                      value={r.lifecycleTransitions || []}
+                      statuses={[...RELATIONSHIP_LIFECYCLE_STATUSES, 'Removed']}
+                      onChange={next => changeRelationship(r, { lifecycleTransitions: next.length > 0 ? next : undefined })}
+                    />
+                  </div>
+                )}
+                </div>
               )
             })}
           </div>
@@ -890,6 +971,8 @@ export function ItemDialog({ open, onClose, lens, item, onSaved, onOpenMeetingNo
           </div>
         </div>
       )}
+      </>
+      )}
       <TaskDialog
         open={taskDialogOpen}
         onClose={() => {
@@ -918,6 +1001,12 @@ function Field({ label, required, children }: { label: string; required?: boolea
   )
 }
 
+function toCustomFieldInputs(item?: ItemRecord | null): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(item?.customFields || {}).map(([key, value]) => [key, customFieldValueToInput(value)])
+  )
+}
+
 function splitList(s: string): string[] {
   return s.split(',').map(t => t.trim()).filter(Boolean)
 }
@@ -1,19 +1,33 @@
 import { useEffect, useMemo, useState } from 'react'
 import { db } from '../db'
-import { hasGap, type ItemRecord, type LensKey } from '../types'
+import { type CustomFieldDefinition, type DataQualityRule, type ItemRecord, type LensKey } from '../types'
 import clsx from 'clsx'
 import { ItemDialog } from './ItemDialog'
+import { formatCustomFieldValue, isWebUrl } from '../utils/customFields'
+import { trashItem } from '../utils/trash'
+import { buildItemTree, flattenItemTree, setItemParent } from '../utils/hierarchy'
+import { itemLifecycleAsOf } from '../utils/lifecycle'
+import { checkItems, worstSeverity } from '../utils/dataQuality'
 
 interface LensPanelProps {
   lens: LensKey
   title: string
-  query: string
+  matchedItemIds?: Set<number> | null // Items matching the global search; null when not searching
+  asOf?: string // Date to show lifecycle statuses for; today if not set
+  customFields?: CustomFieldDefinition[]
 }
 
-export function LensPanel({ lens, title, query }: LensPanelProps) {
+export function LensPanel({ lens, title, matchedItemIds = null, asOf, customFields = [] }: LensPanelProps) {
   const [items, setItems] = useState<ItemRecord[]>([])
   const [dialogOpen, setDialogOpen] = useState(false)
   const [dialogItem, setDialogItem] = useState<ItemRecord | null>(null)
+  const [dialogParentId, setDialogParentId] = useState<number | undefined>(undefined)
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set())
+  // Item being dragged onto a new parent, and the row it is over (null = top level)
+  const [draggingId, setDraggingId] = useState<number | null>(null)
+  const [dropTarget, setDropTarget] = useState<number | null | undefined>(undefined)
+  const [violations, setViolations] = useState<Map<number, DataQualityRule[]>>(new Map())
+  const [rulesVersion, setRulesVersion] = useState(0)
 
   async function load() {
     const rows = await db.items.where('lens').equals(lens).sortBy('name')
@@ -24,45 +38,97 @@ export function LensPanel({ lens, title, query }: LensPanelProps) {
     load()
   }, [])
 
-  const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase()
-    if (!q) return items
-    return items.filter(i => (
-      i.name.toLowerCase().includes(q) ||
-      i.description?.toLowerCase().includes(q) ||
-      i.lifecycleStatus?.toLowerCase().includes(q) ||
-      i.businessContact?.toLowerCase().includes(q) ||
-      i.techContact?.toLowerCase().includes(q) ||
-      i.primaryArchitect?.toLowerCase().includes(q) ||
-      i.tags.some(t => t.toLowerCase().includes(q))
-    ))
-  }, [items, query])
-
-  function openAdd() {
+  useEffect(() => {
+    function handleRulesUpdated() {
+      setRulesVersion(v => v + 1)
+    }
+    window.addEventListener('dataQualityRulesUpdated', handleRulesUpdated)
+    return () => {
+      window.removeEventListener('dataQualityRulesUpdated', handleRulesUpdated)
+    }
+  }, [])
+
+  // Data-quality rules each item breaks on the as-of date
+  useEffect(() => {
+    let cancelled = false
+    checkItems(items, asOf).then(result => {
+      if (!cancelled) setViolations(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [items, asOf, rulesVersion])
+
+  const tree = useMemo(() => buildItemTree(items), [items])
+
+  // Rows in tree order. While searching, matches are shown with their ancestors
+  // and every branch is expanded.
+  const rows = useMemo(() => {
+    if (!matchedItemIds) return flattenItemTree(tree, collapsed)
+    const visible = flattenItemTree(tree)
+    const keep = new Set<number>()
+    const ancestors: number[] = []
+    for (const node of visible) {
+      ancestors.length = node.depth
+      if (matchedItemIds.has(node.item.id!)) ancestors.concat(node.item.id!).forEach(id => keep.add(id))
+      ancestors.push(node.item.id!)
+    }
+    return visible.filter(node => keep.has(node.item.id!))
+  }, [tree, matchedItemIds, collapsed])
+
+  function openAdd(parentId?: number) {
     setDialogItem(null)
+    setDialogParentId(parentId)
     setDialogOpen(true)
   }
 
   function openEdit(item: ItemRecord) {
     setDialogItem(item)
+    setDialogParentId(undefined)
     setDialogOpen(true)
   }
 
+  function toggleCollapsed(id: number) {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  async function moveItem(parentId: number | null) {
+    const id = draggingId
+    setDraggingId(null)
+    setDropTarget(undefined)
+    if (id === null || id === parentId) return
+    try {
+      await setItemParent(id, parentId ?? undefined)
+      await load()
+    } catch (e) {
+      console.error('Failed to move item:', e)
+      alert(e instanceof Error ? e.message : 'Failed to move item')
+    }
+  }
+
   async function removeItem(id?: number) {
     if (!id) return
-    // Delete all relationships that reference this item (both from and to)
-    await db.relationships.where('fromItemId').equals(id).delete()
-    await db.relationships.where('toItemId').equals(id).delete()
-    // Delete the item
-    await db.items.delete(id)
+    // Moves the item, its relationships and its task/note references to the trash
+    await trashItem(id)
     await load()
   }
 
   function GapDot({ item }: { item: ItemRecord }) {
-    const gap = hasGap(item)
+    const broken = violations.get(item.id!) || []
+    const severity = worstSeverity(broken)
     return (
-      <span title={gap ? 'Gap in coverage' : 'Complete'}
-        className={clsx('inline-block h-2.5 w-2.5 rounded-full', gap ? 'bg-red-500' : 'bg-green-500')} />
+      <span title={broken.length > 0 ? broken.map(r => `${r.severity}: ${r.name}`).join('\n') : 'Complete'}
+        className={clsx('inline-block h-2.5 w-2.5 rounded-full', {
+          'bg-red-500': severity === 'error',
+          'bg-amber-500': severity === 'warning',
+          'bg-blue-500': severity === 'info',
+          'bg-green-500': severity === null,
+        })} />
     )
   }
 
@@ -71,10 +137,22 @@ export function LensPanel({ lens, title, query }: LensPanelProps) {
       <header className="flex items-center gap-3 mb-3">
         <h3 className="font-semibold text-slate-800 dark:text-slate-100">{title}</h3>
         <div className="ml-auto">
-          <button onClick={openAdd} className="px-2 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700">Add</button>
+          <button onClick={() => openAdd()} className="px-2 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700">Add</button>
         </div>
       </header>
 
+      {draggingId !== null && (
+        <div
+          onDragOver={e => { e.preventDefault(); setDropTarget(null) }}
+          onDragLeave={() => setDropTarget(undefined)}
+          onDrop={e => { e.preventDefault(); moveItem(null) }}
+          className={clsx('mb-2 px-3 py-2 text-xs text-center rounded border border-dashed',
+            dropTarget === null ? 'border-blue-500 bg-blue-50 dark:bg-blue-950 text-blue-700 dark:text-blue-300' : 'border-slate-300 dark:border-slate-700 text-slate-500')}
+        >
+          Drop here to move to the top level
+        </div>
+      )}
+
       <div className="overflow-x-auto">
         <table className="w-full text-sm">
           <thead>
@@ -89,14 +167,47 @@ export function LensPanel({ lens, title, query }: LensPanelProps) {
               <th className="py-2 pr-2">Secondary SMEs</th>
               <th className="py-2 pr-2">Tags</th>
               <th className="py-2 pr-2">Skills Gaps</th>
-              <th className="py-2 pr-2 w-28">Actions</th>
+              {customFields.map(field => (
+                <th key={field.key} className="py-2 pr-2">{field.label}</th>
+              ))}
+              <th className="py-2 pr-2 w-44">Actions</th>
             </tr>
           </thead>
           <tbody>
-            {filtered.map(item => (
-              <tr key={item.id} className="border-t border-slate-100 dark:border-slate-800">
+            {rows.map(({ item, depth, children, descendantCount }) => {
+              const lifecycle = itemLifecycleAsOf(item, asOf)
+              return (
+              <tr
+                key={item.id}
+                draggable
+                onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; setDraggingId(item.id!) }}
+                onDragEnd={() => { setDraggingId(null); setDropTarget(undefined) }}
+                onDragOver={e => { if (draggingId !== null && draggingId !== item.id) { e.preventDefault(); setDropTarget(item.id!) } }}
+                onDrop={e => { e.preventDefault(); moveItem(item.id!) }}
+                className={clsx('border-t border-slate-100 dark:border-slate-800',
+                  dropTarget === item.id && 'bg-blue-50 dark:bg-blue-950',
+                  (draggingId === item.id || lifecycle === 'Retired') && 'opacity-50')}
+              >
                 <td className="py-2 pr-2"><GapDot item={item} /></td>
-                <td className="py-2 pr-2">{item.name}</td>
+                <td className="py-2 pr-2 whitespace-nowrap">
+                  <span style={{ paddingLeft: depth * 16 }} className="inline-flex items-center gap-1">
+                    {children.length > 0 ? (
+                      <button
+                        className="w-4 text-slate-500 hover:text-slate-800 dark:hover:text-slate-200"
+                        onClick={() => toggleCollapsed(item.id!)}
+                        title={collapsed.has(item.id!) ? 'Expand' : 'Collapse'}
+                      >
+                        {collapsed.has(item.id!) && !matchedItemIds ? '▸' : '▾'}
+                      </button>
+                    ) : (
+                      <span className="w-4" />
+                    )}
+                    <span>{item.name}</span>
+                    {descendantCount > 0 && (
+                      <span className="text-xs text-slate-500" title={`${descendantCount} item${descendantCount === 1 ? '' : 's'} below, at all levels`}>({descendantCount})</span>
+                    )}
+                  </span>
+                </td>
                 <td className="py-2 pr-2 max-w-xs">
                   {item.description ? (
                     <div className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{item.description}</div>
@@ -104,7 +215,7 @@ export function LensPanel({ lens, title, query }: LensPanelProps) {
                     <span className="text-slate-400">(none)</span>
                   )}
                 </td>
-                <td className="py-2 pr-2">{item.lifecycleStatus || <span className="text-slate-400">(none)</span>}</td>
+                <td className="py-2 pr-2">{lifecycle || <span className="text-slate-400">(none)</span>}</td>
                 <td className="py-2 pr-2">{item.businessContact || <span className="text-slate-400">(blank)</span>}</td>
                 <td className="py-2 pr-2">{item.techContact || <span className="text-slate-400">(blank)</span>}</td>
                 <td className="py-2 pr-2">{item.primaryArchitect || <span className="text-slate-400">(blank)</span>}</td>
@@ -117,15 +228,29 @@ export function LensPanel({ lens, title, query }: LensPanelProps) {
                 <td className="py-2 pr-2">
                   {item.skillsGaps || <span className="text-slate-400">(none)</span>}
                 </td>
+                {customFields.map(field => {
+                  const display = formatCustomFieldValue(field, item.customFields?.[field.key])
+                  return (
+                    <td key={field.key} className="py-2 pr-2">
+                      {!display ? (
+                        <span className="text-slate-400">(blank)</span>
+                      ) : field.type === 'url' && isWebUrl(display) ? (
+                        <a href={display} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{display}</a>
+                      ) : display}
+                    </td>
+                  )
+                })}
                 <td className="py-2 pr-2 flex gap-2">
                   <button className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800" onClick={() => openEdit(item)}>Edit</button>
+                  <button className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 whitespace-nowrap" onClick={() => openAdd(item.id)}>Add child</button>
                   <button className="px-2 py-1 text-xs rounded border border-red-300 text-red-700 hover:bg-red-50" onClick={() => removeItem(item.id)}>Delete</button>
                 </td>
               </tr>
-            ))}
-            {filtered.length === 0 && (
+              )
+            })}
+            {rows.length === 0 && (
               <tr>
-                <td colSpan={11} className="text-center text-slate-500 py-6">No items</td>
+                <td colSpan={11 + customFields.length} className="text-center text-slate-500 py-6">No items</td>
               </tr>
             )}
           </tbody>
@@ -137,6 +262,7 @@ export function LensPanel({ lens, title, query }: LensPanelProps) {
         onClose={() => setDialogOpen(false)}
         lens={lens}
         item={dialogItem}
+        parentId={dialogParentId}
         onSaved={async () => {
           await load()
           // Update dialogItem if we're editing an existing item
@@ -0,0 +1,55 @@
+import type { LifecycleTransition } from '../types'
+import { lifecycleDateStart } from '../utils/lifecycle'
+
+interface LifecycleTransitionsEditorProps<S extends string> {
+  value: LifecycleTransition<S>[]
+  statuses: S[]
+  onChange: (value: LifecycleTransition<S>[]) => void
+  compact?: boolean
+}
+
+// Rows of "status from date" for planned lifecycle changes
+export function LifecycleTransitionsEditor<S extends string>({ value, statuses, onChange, compact }: LifecycleTransitionsEditorProps<S>) {
+  const inputClass = `${compact ? 'text-xs' : 'text-sm'} px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900`
+
+  function update(index: number, changes: Partial<LifecycleTransition<S>>) {
+    onChange(value.map((t, i) => i === index ? { ...t, ...changes } : t))
+  }
+
+  return (
+    <div className="space-y-1">
+      {value.map((t, index) => {
+        const invalid = t.from.trim() !== '' && !lifecycleDateStart(t.from)
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <select value={t.status} onChange={e => update(index, { status: e.target.value as S })} className={inputClass}>
+              {statuses.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <span className={`${compact ? 'text-xs' : 'text-sm'} text-slate-500`}>from</span>
+            <input
+              value={t.from}
+              onChange={e => update(index, { from: e.target.value })}
+              placeholder="2026-Q1, 2027-06 or 2028-01-15"
+              title="YYYY, YYYY-Qn, YYYY-MM or YYYY-MM-DD"
+              className={`${inputClass} flex-1 min-w-[120px] ${invalid ? 'border-red-400 dark:border-red-600' : ''}`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="px-2 py-1 text-xs rounded border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+            >
+              Remove
+            </button>
+          </div>
+        )
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...value, { status: statuses[0], from: '' }])}
+        className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+      >
+        Add lifecycle change
+      </button>
+    </div>
+  )
+}
@@ -10,7 +10,8 @@ import { TableHeader } from '@tiptap/extension-table-header'
 import { TextStyle } from '@tiptap/extension-text-style'
 import { Color } from '@tiptap/extension-color'
 import { Extension } from '@tiptap/core'
-import { db, getAllPeopleNames, getAllItemNames } from '../db'
+import { db, getAllPeopleNames, getAllItemNames, resolvePersonId, resolvePersonIds, splitParticipants } from '../db'
+import { trashMeetingNote } from '../utils/trash'
 import { type MeetingNote, type Task } from '../types'
 import { Modal } from './Modal'
 import { LENSES } from '../types'
@@ -319,9 +320,9 @@ export function MeetingNoteDialog({ open, onClose, note, onSaved, readonly = fal
 
   async function handleDeleteNote() {
     if (!note?.id) return
-    if (!confirm('Delete this meeting note?')) return
-    await db.meetingNotes.delete(note.id)
-    await db.tasks.where('meetingNoteId').equals(note.id).delete()
+    if (!confirm('Delete this meeting note? It can be restored from the Trash.')) return
+    // Moves the note and its tasks to the trash
+    await trashMeetingNote(note.id)
     onSaved?.()
     onClose()
   }
@@ -385,11 +386,13 @@ export function MeetingNoteDialog({ open, onClose, note, onSaved, readonly = fal
     try {
       // Get HTML content from editor
       const htmlContent = editor?.getHTML() || ''
+      const participantIds = await resolvePersonIds(splitParticipants(participants))
       
       if (isNew) {
         meetingNoteId = await db.meetingNotes.add({
           title: title.trim(),
           participants: participants.trim(),
+          participantIds,
           dateTime: utcTimestamp,
           content: htmlContent,
           relatedItems: relatedItems,
@@ -401,25 +404,36 @@ export function MeetingNoteDialog({ open, onClose, note, onSaved, readonly = fal
         await db.meetingNotes.update(meetingNoteId, {
           title: title.trim(),
           participants: participants.trim(),
+          participantIds,
           dateTime: utcTimestamp,
           content: htmlContent,
           relatedItems: relatedItems,
           updatedAt: now,
         })
-        // Don't delete existing tasks - they're managed separately via handleUpdateTask
+        // Don't delete existing tasks - they're managed separately via handleUpdateTask.
+        // Their assignees are edited as you type, so they are linked to people here.
+        const existing = await db.tasks.where('meetingNoteId').equals(meetingNoteId).toArray()
+        for (const task of existing) {
+          const assignedToId = await resolvePersonId(task.assignedTo)
+          if (assignedToId !== task.assignedToId) {
+            await db.tasks.update(task.id!, { assignedToId })
+          }
+        }
       }
 
       // Save new tasks only (existing tasks are already saved via handleUpdateTask)
-      const tasksToSave = tasks
-        .filter(t => t.description.trim())
-        .map(t => ({
+      const tasksToSave = []
+      for (const t of tasks.filter(t => t.description.trim())) {
+        tasksToSave.push({
           meetingNoteId,
           description: t.description.trim(),
           assignedTo: t.assignedTo.trim() || undefined,
+          assignedToId: await resolvePersonId(t.assignedTo),
           itemReferences: t.itemIds || [],
           createdAt: now,
           updatedAt: now,
-        }))
+        })
+      }
 
       if (tasksToSave.length > 0) {
         await db.tasks.bulkAdd(tasksToSave)
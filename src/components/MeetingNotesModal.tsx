@@ -1,5 +1,7 @@
 import { useEffect, useState, useMemo } from 'react'
 import { db, getAllItemNames } from '../db'
+import { trashMeetingNote } from '../utils/trash'
+import { buildSearchIndex, matchingIds, type SearchDocument } from '../utils/search'
 import { type MeetingNote, type Task, LENSES } from '../types'
 import { MeetingNoteDialog } from './MeetingNoteDialog'
 
@@ -21,12 +23,13 @@ export function MeetingNotesModal({ initialNoteId, onNoteDialogClose, onNavigate
   const [refreshKey, setRefreshKey] = useState(0)
   const [itemMap, setItemMap] = useState<Map<number, { name: string; lens: string }>>(new Map())
   const [searchQuery, setSearchQuery] = useState('')
-
+  const [searchIndex, setSearchIndex] = useState<SearchDocument[]>([])
 
   useEffect(() => {
     loadNotes()
     loadTasks()
     loadItems()
+    buildSearchIndex().then(setSearchIndex)
   }, [refreshKey])
 
   async function loadItems() {
@@ -135,12 +138,9 @@ export function MeetingNotesModal({ initialNoteId, onNoteDialogClose, onNavigate
   const viewingNote = notes.find(n => n.id === viewingNoteId)
 
   function handleDeleteNote(note: MeetingNote) {
-    if (!confirm('Delete this meeting note?')) return
-    db.meetingNotes.delete(note.id!)
-      .then(() => {
-        // Also delete associated tasks
-        return db.tasks.where('meetingNoteId').equals(note.id!).delete()
-      })
+    if (!confirm('Delete this meeting note? It can be restored from the Trash.')) return
+    // Moves the note and its tasks to the trash
+    trashMeetingNote(note.id!)
       .then(() => {
         setRefreshKey(k => k + 1)
       })
@@ -225,7 +225,7 @@ export function MeetingNotesModal({ initialNoteId, onNoteDialogClose, onNavigate
           <div className="p-3 border-b border-slate-200 dark:border-slate-800">
             <input
               type="text"
-              placeholder="Search notes and tasks..."
+              placeholder="Search notes and tasks, e.g. related:CRM"
               value={searchQuery}
               onChange={e => setSearchQuery(e.target.value)}
               className="w-full px-2 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
@@ -242,24 +242,9 @@ export function MeetingNotesModal({ initialNoteId, onNoteDialogClose, onNavigate
             ) : (
               <div className="divide-y divide-slate-200 dark:divide-slate-800">
                 {(() => {
-                  const q = searchQuery.toLowerCase().trim()
-                  const filteredNotes = q ? notes.filter(note => {
-                    // Search in title
-                    if (note.title?.toLowerCase().includes(q)) return true
-                    // Search in participants
-                    if (note.participants?.toLowerCase().includes(q)) return true
-                    // Search in content
-                    if (note.content?.toLowerCase().includes(q)) return true
-                    // Search in tasks
-                    const noteTasksList = noteTasks(note.id!)
-                    const taskMatches = noteTasksList.some(task => 
-                      task.description?.toLowerCase().includes(q) ||
-                      task.assignedTo?.toLowerCase().includes(q)
-                    )
-                    if (taskMatches) return true
-                    return false
-                  }) : notes
-                  
+                  const matches = matchingIds(searchIndex, searchQuery, 'note')
+                  const filteredNotes = matches ? notes.filter(note => matches.has(note.id!)) : notes
+
                   return filteredNotes.length === 0 ? (
                     <div className="p-4 text-center text-slate-500 dark:text-slate-400">
                       No notes match your search
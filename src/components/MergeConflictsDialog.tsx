@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react'
+import clsx from 'clsx'
+import type { MergeConflict, MergePlan, MergeResolution, MergeTable } from '../utils/importMerge'
+import { formatHistoryValue, historyFieldLabel } from '../utils/history'
+import { Modal } from './Modal'
+
+const TABLE_LABELS: Record<MergeTable, string> = {
+  items: 'Item',
+  teamMembers: 'Person',
+  meetingNotes: 'Note',
+}
+
+const RESOLUTIONS: Array<{ value: MergeResolution; label: string }> = [
+  { value: 'mine', label: 'Keep mine' },
+  { value: 'theirs', label: 'Take theirs' },
+  { value: 'fields', label: 'Field by field' },
+]
+
+function fieldValue(record: object, field: string): string {
+  const value = (record as Record<string, unknown>)[field]
+  if (field === 'dateTime' && typeof value === 'number') return new Date(value).toLocaleString()
+  return formatHistoryValue(value)
+}
+
+interface MergeConflictsDialogProps {
+  plan: MergePlan | null
+  onCancel: () => void
+  onConfirm: (plan: MergePlan) => void
+}
+
+// Lists what a merge import will add and lets the user resolve each record that
+// differs between the database ("mine") and the file ("theirs")
+export function MergeConflictsDialog({ plan, onCancel, onConfirm }: MergeConflictsDialogProps) {
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([])
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+
+  useEffect(() => {
+    setConflicts(plan?.conflicts || [])
+    setExpanded(new Set())
+  }, [plan])
+
+  function updateConflict(index: number, changes: Partial<MergeConflict>) {
+    setConflicts(prev => prev.map((c, idx) => idx === index ? { ...c, ...changes } : c))
+  }
+
+  function resolveAll(resolution: 'mine' | 'theirs') {
+    setConflicts(prev => prev.map(c => ({ ...c, resolution })))
+  }
+
+  function toggleExpanded(index: number) {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  if (!plan) return null
+  const added = plan.added
+
+  return (
+    <Modal
+      open
+      onClose={onCancel}
+      title="Merge Import"
+      wide
+      footer={
+        <>
+          {conflicts.length > 0 && (
+            <div className="mr-auto flex gap-2">
+              <button
+                className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
+                onClick={() => resolveAll('mine')}
+              >
+                Keep all mine
+              </button>
+              <button
+                className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
+                onClick={() => resolveAll('theirs')}
+              >
+                Take all theirs
+              </button>
+            </div>
+          )}
+          <button
+            className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white"
+            onClick={() => onConfirm({ ...plan, conflicts })}
+          >
+            Merge
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-4 text-sm">
+        <div className="text-slate-600 dark:text-slate-400">
+          <p className="mb-1">The file will add:</p>
+          <ul className="text-xs space-y-0.5">
+            <li>• {added.items} items and {added.relationships} relationships</li>
+            <li>• {added.teamMembers} people</li>
+            <li>• {added.meetingNotes} meeting notes and up to {added.tasks} tasks</li>
+          </ul>
+          <p className="mt-2 text-xs">
+            Items are matched by lens and name, people by name and notes by title and date. {plan.unchanged} matched
+            records are the same in both. Existing relationships and identical tasks are kept as they are.
+          </p>
+        </div>
+
+        {conflicts.length === 0 ? (
+          <p className="text-slate-500 dark:text-slate-400">No conflicts.</p>
+        ) : (
+          <div>
+            <h4 className="font-semibold mb-2">{conflicts.length} conflicts</h4>
+            <ul className="divide-y divide-slate-100 dark:divide-slate-800 border border-slate-200 dark:border-slate-800 rounded">
+              {conflicts.map((conflict, index) => {
+                const showFields = conflict.resolution === 'fields' || expanded.has(index)
+                return (
+                  <li key={`${conflict.table}-${conflict.key}`} className="p-2">
+                    <div className="flex items-center gap-2">
+                      <span className="px-1.5 py-0.5 text-xs rounded bg-slate-100 dark:bg-slate-800">{TABLE_LABELS[conflict.table]}</span>
+                      <button className="font-medium text-left hover:underline" onClick={() => toggleExpanded(index)}>
+                        {conflict.label}
+                      </button>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">
+                        {conflict.fields.map(historyFieldLabel).join(', ')}
+                      </span>
+                      <div className="ml-auto flex gap-1 flex-shrink-0">
+                        {RESOLUTIONS.map(r => (
+                          <button
+                            key={r.value}
+                            onClick={() => updateConflict(index, { resolution: r.value })}
+                            className={clsx(
+                              'px-2 py-0.5 text-xs rounded border',
+                              conflict.resolution === r.value
+                                ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                                : 'border-slate-300 dark:border-slate-700'
+                            )}
+                          >
+                            {r.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {showFields && (
+                      <table className="mt-2 w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-slate-500 dark:text-slate-400">
+                            <th className="py-1 pr-2 w-40">Field</th>
+                            <th className="py-1 pr-2">Mine</th>
+                            <th className="py-1">Theirs</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {conflict.fields.map(field => {
+                            const choice = conflict.resolution === 'fields' ? conflict.fieldChoices[field] : conflict.resolution
+                            return (
+                              <tr key={field} className="border-t border-slate-100 dark:border-slate-800 align-top">
+                                <td className="py-1 pr-2 font-medium">{historyFieldLabel(field)}</td>
+                                {(['mine', 'theirs'] as const).map(side => (
+                                  <td key={side} className="py-1 pr-2">
+                                    <label className={clsx('flex items-start gap-1', conflict.resolution === 'fields' && 'cursor-pointer')}>
+                                      {conflict.resolution === 'fields' && (
+                                        <input
+                                          type="radio"
+                                          className="mt-0.5"
+                                          checked={choice === side}
+                                          onChange={() => updateConflict(index, {
+                                            fieldChoices: { ...conflict.fieldChoices, [field]: side },
+                                          })}
+                                        />
+                                      )}
+                                      <span className={clsx('break-words line-clamp-4', choice !== side && 'text-slate-400 dark:text-slate-500')}>
+                                        {fieldValue(conflict[side], field)}
+                                      </span>
+                                    </label>
+                                  </td>
+                                ))}
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
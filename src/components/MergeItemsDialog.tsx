@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react'
+import type { ItemRecord } from '../types'
+import { Modal } from './Modal'
+import { mergeItems } from '../utils/itemMerge'
+
+interface MergeItemsDialogProps {
+  open: boolean
+  items: ItemRecord[]
+  lensLabel: (key: string) => string
+  onClose: () => void
+  onMerged: () => void
+}
+
+type MergeField = 'name' | 'description' | 'lifecycleStatus' | 'businessContact' | 'techContact' | 'primaryArchitect'
+  | 'secondaryArchitects' | 'tags' | 'skillsGaps' | 'parent' | 'hyperlinks' | 'customFields'
+
+const MERGE_FIELDS: Array<{ key: MergeField; label: string; combinable?: boolean }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'lifecycleStatus', label: 'Lifecycle Status' },
+  { key: 'businessContact', label: 'Business contact' },
+  { key: 'techContact', label: 'Tech contact' },
+  { key: 'primaryArchitect', label: 'Primary architect' },
+  { key: 'secondaryArchitects', label: 'Secondary architects', combinable: true },
+  { key: 'tags', label: 'Tags', combinable: true },
+  { key: 'skillsGaps', label: 'Skills gaps' },
+  { key: 'parent', label: 'Parent' },
+  { key: 'hyperlinks', label: 'Hyperlinks', combinable: true },
+  { key: 'customFields', label: 'Custom fields', combinable: true },
+]
+
+// Person and parent fields carry their id along with the chosen name
+const ID_FIELDS: Partial<Record<MergeField, keyof ItemRecord>> = {
+  businessContact: 'businessContactId',
+  techContact: 'techContactId',
+  primaryArchitect: 'primaryArchitectId',
+  parent: 'parentId',
+}
+
+type Choice = number | 'combine' // item id to take the value from, or combine all
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true
+  if (Array.isArray(value)) return value.length === 0
+  if (typeof value === 'object') return Object.keys(value).length === 0
+  return false
+}
+
+function displayValue(item: ItemRecord, field: MergeField): string {
+  switch (field) {
+    case 'secondaryArchitects':
+    case 'tags':
+      return (item[field] || []).join(', ')
+    case 'hyperlinks':
+      return (item.hyperlinks || []).map(h => h.label || h.url).join(', ')
+    case 'customFields':
+      return Object.entries(item.customFields || {}).map(([k, v]) => `${k}: ${v}`).join(', ')
+    case 'description':
+      return (item.description || '').replace(/<[^>]+>/g, ' ').trim()
+    default:
+      return String(item[field] ?? '')
+  }
+}
+
+function defaultChoices(items: ItemRecord[], survivorId: number): Record<MergeField, Choice> {
+  const survivor = items.find(i => i.id === survivorId) || items[0]
+  const choices = {} as Record<MergeField, Choice>
+  MERGE_FIELDS.forEach(({ key, combinable }) => {
+    if (combinable) {
+      choices[key] = 'combine'
+      return
+    }
+    const source = !isEmptyValue(survivor[key]) ? survivor : items.find(i => !isEmptyValue(i[key])) || survivor
+    choices[key] = source.id!
+  })
+  return choices
+}
+
+function buildMergedValues(items: ItemRecord[], survivorId: number, choices: Record<MergeField, Choice>): Partial<ItemRecord> {
+  const survivor = items.find(i => i.id === survivorId)!
+  // Survivor last so its values win when combining records
+  const ordered = [...items.filter(i => i.id !== survivorId), survivor]
+  const values: Partial<ItemRecord> = {}
+  const assign = <K extends keyof ItemRecord>(key: K, value: ItemRecord[K]) => { values[key] = value }
+
+  MERGE_FIELDS.forEach(({ key }) => {
+    const choice = choices[key]
+    if (choice !== 'combine') {
+      const source = items.find(i => i.id === choice) || survivor
+      assign(key, source[key])
+      const idField = ID_FIELDS[key]
+      if (idField) assign(idField, source[idField])
+      return
+    }
+    if (key === 'tags') {
+      assign('tags', Array.from(new Set(ordered.flatMap(i => i.tags || []))))
+    } else if (key === 'secondaryArchitects') {
+      const names: string[] = []
+      const ids: number[] = []
+      ordered.forEach(i => i.secondaryArchitects.forEach((name, idx) => {
+        if (names.some(n => n.toLowerCase() === name.toLowerCase())) return
+        names.push(name)
+        const id = i.secondaryArchitectIds?.[idx]
+        if (id !== undefined) ids.push(id)
+      }))
+      assign('secondaryArchitects', names)
+      assign('secondaryArchitectIds', ids)
+    } else if (key === 'hyperlinks') {
+      const links = ordered.flatMap(i => i.hyperlinks || [])
+      assign('hyperlinks', links.filter((h, idx) => links.findIndex(o => o.url === h.url) === idx))
+    } else if (key === 'customFields') {
+      assign('customFields', Object.assign({}, ...ordered.map(i => i.customFields || {})))
+    }
+  })
+  return values
+}
+
+export function MergeItemsDialog({ open, items, lensLabel, onClose, onMerged }: MergeItemsDialogProps) {
+  const [includedIds, setIncludedIds] = useState<number[]>([])
+  const [survivorId, setSurvivorId] = useState<number>(0)
+  const [choices, setChoices] = useState<Record<MergeField, Choice>>({} as Record<MergeField, Choice>)
+  const [merging, setMerging] = useState(false)
+
+  useEffect(() => {
+    if (!open || items.length === 0) return
+    setIncludedIds(items.map(i => i.id!))
+    setSurvivorId(items[0].id!)
+    setChoices(defaultChoices(items, items[0].id!))
+  }, [open, items])
+
+  const included = items.filter(i => includedIds.includes(i.id!))
+
+  function toggleIncluded(id: number) {
+    if (includedIds.includes(id)) {
+      if (id === survivorId) return
+      const next = includedIds.filter(i => i !== id)
+      setIncludedIds(next)
+      // Fields sourced from the removed item fall back to the defaults
+      const defaults = defaultChoices(items.filter(i => next.includes(i.id!)), survivorId)
+      setChoices(prev => Object.fromEntries(
+        Object.entries(prev).map(([k, v]) => [k, v === id ? defaults[k as MergeField] : v])
+      ) as Record<MergeField, Choice>)
+    } else {
+      setIncludedIds([...includedIds, id])
+    }
+  }
+
+  function chooseSurvivor(id: number) {
+    setSurvivorId(id)
+    setChoices(defaultChoices(included, id))
+  }
+
+  async function handleMerge() {
+    if (included.length < 2) {
+      alert('Select at least two items to merge')
+      return
+    }
+    const survivor = included.find(i => i.id === survivorId)!
+    const duplicates = included.filter(i => i.id !== survivorId)
+    if (!confirm(`Merge ${duplicates.length} item${duplicates.length === 1 ? '' : 's'} into "${survivor.name}" (${lensLabel(survivor.lens)})? The other items are deleted and their relationships, tasks and notes move to the kept item.`)) return
+    setMerging(true)
+    try {
+      await mergeItems(survivorId, duplicates.map(d => d.id!), buildMergedValues(included, survivorId, choices))
+    } catch (e) {
+      alert(`Merge failed: ${e instanceof Error ? e.message : String(e)}`)
+      setMerging(false)
+      return
+    }
+    setMerging(false)
+    onMerged()
+    onClose()
+  }
+
+  return (
+    <Modal open={open} onClose={onClose} title="Merge Duplicate Items" wide
+      footer={(
+        <>
+          <button className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700" onClick={onClose}>Cancel</button>
+          <button
+            className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white disabled:opacity-50"
+            onClick={handleMerge}
+            disabled={merging || included.length < 2}
+          >
+            Merge
+          </button>
+        </>
+      )}
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b border-slate-200 dark:border-slate-800">
+              <th className="text-left p-2 w-40">Field</th>
+              {items.map(item => (
+                <th key={item.id} className={`text-left p-2 align-top ${includedIds.includes(item.id!) ? '' : 'opacity-40'}`}>
+                  <div className="font-medium">{item.name}</div>
+                  <div className="text-xs font-normal text-slate-500 dark:text-slate-400">{lensLabel(item.lens)}</div>
+                  <label className="flex items-center gap-1 text-xs font-normal mt-1">
+                    <input type="checkbox" checked={includedIds.includes(item.id!)} onChange={() => toggleIncluded(item.id!)} disabled={item.id === survivorId} />
+                    Include
+                  </label>
+                  <label className="flex items-center gap-1 text-xs font-normal">
+                    <input type="radio" name="merge-survivor" checked={survivorId === item.id} onChange={() => chooseSurvivor(item.id!)} disabled={!includedIds.includes(item.id!)} />
+                    Keep this record
+                  </label>
+                </th>
+              ))}
+              <th className="text-left p-2 w-24">Combine</th>
+            </tr>
+          </thead>
+          <tbody>
+            {MERGE_FIELDS.map(({ key, label, combinable }) => (
+              <tr key={key} className="border-b border-slate-100 dark:border-slate-800">
+                <td className="p-2 font-medium align-top">{label}</td>
+                {items.map(item => {
+                  const enabled = includedIds.includes(item.id!)
+                  return (
+                    <td key={item.id} className={`p-2 align-top ${enabled ? '' : 'opacity-40'}`}>
+                      <label className="flex items-start gap-1">
+                        <input
+                          type="radio"
+                          name={`merge-${key}`}
+                          checked={choices[key] === item.id}
+                          onChange={() => setChoices({ ...choices, [key]: item.id! })}
+                          disabled={!enabled}
+                          className="mt-1"
+                        />
+                        <span className="line-clamp-3 break-words">
+                          {displayValue(item, key) || <span className="text-slate-400">(empty)</span>}
+                        </span>
+                      </label>
+                    </td>
+                  )
+                })}
+                <td className="p-2 align-top">
+                  {combinable && (
+                    <input
+                      type="radio"
+                      name={`merge-${key}`}
+                      checked={choices[key] === 'combine'}
+                      onChange={() => setChoices({ ...choices, [key]: 'combine' })}
+                      title="Combine values from all included items"
+                    />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Modal>
+  )
+}
@@ -1,11 +1,32 @@
-type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes' | 'settings' | 'tasks' | 'divest-replacement'
+import { useEffect, useState } from 'react'
+import type { Scenario } from '../types'
+import { getActiveWorkspaceId, getWorkspaces } from '../utils/workspaceStorage'
+import { switchWorkspace } from '../utils/workspaces'
+
+type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes' | 'settings' | 'tasks' | 'divest-replacement' | 'trash' | 'scenarios' | 'tags' | 'data-quality'
 
 interface NavigationProps {
   currentView: ViewType
   onNavigate: (view: ViewType) => void
+  asOfDate: string
+  onAsOfDateChange: (date: string) => void
+  scenarios: Scenario[]
+  activeScenarioId: number | null
+  onScenarioChange: (id: number | null) => void
 }
 
-export function Navigation({ currentView, onNavigate }: NavigationProps) {
+export function Navigation({ currentView, onNavigate, asOfDate, onAsOfDateChange, scenarios, activeScenarioId, onScenarioChange }: NavigationProps) {
+  const [workspaces, setWorkspaces] = useState(getWorkspaces())
+
+  // Workspaces are created and renamed in Settings
+  useEffect(() => {
+    function handleWorkspacesUpdated() {
+      setWorkspaces(getWorkspaces())
+    }
+    window.addEventListener('workspacesUpdated', handleWorkspacesUpdated)
+    return () => window.removeEventListener('workspacesUpdated', handleWorkspacesUpdated)
+  }, [])
+
   const navItems = [
     { id: 'main' as const, label: 'Architecture Lenses' },
     { id: 'diagram' as const, label: 'Architecture Relationship Diagram' },
@@ -14,12 +35,24 @@ export function Navigation({ currentView, onNavigate }: NavigationProps) {
     { id: 'meeting-notes' as const, label: 'Notes' },
     { id: 'tasks' as const, label: 'Tasks' },
     { id: 'divest-replacement' as const, label: 'Target View' },
+    { id: 'tags' as const, label: 'Tags' },
+    { id: 'data-quality' as const, label: 'Data Quality' },
+    { id: 'scenarios' as const, label: 'Scenarios' },
+    { id: 'trash' as const, label: 'Trash' },
     { id: 'settings' as const, label: 'Settings' },
   ]
 
   return (
     <nav className="border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 px-4 py-2">
       <div className="flex gap-2 items-center">
+        <select
+          value={getActiveWorkspaceId()}
+          onChange={e => switchWorkspace(e.target.value)}
+          title="Workspace: each has its own data and view settings"
+          className="px-2 py-1 text-sm font-medium rounded border border-slate-300 dark:border-slate-700 bg-transparent max-w-[12rem]"
+        >
+          {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+        </select>
         {navItems.map(item => (
           <button
             key={item.id}
@@ -33,6 +66,42 @@ export function Navigation({ currentView, onNavigate }: NavigationProps) {
             {item.label}
           </button>
         ))}
+        <label
+          className={`ml-auto flex items-center gap-2 text-sm ${activeScenarioId !== null ? 'text-amber-700 dark:text-amber-300' : 'text-slate-600 dark:text-slate-400'}`}
+          title="Items and relationships are read and edited in the chosen scenario"
+        >
+          Scenario
+          <select
+            value={activeScenarioId ?? ''}
+            onChange={e => onScenarioChange(e.target.value ? Number(e.target.value) : null)}
+            className={`px-2 py-1 text-sm rounded border bg-transparent ${
+              activeScenarioId !== null ? 'border-amber-400 dark:border-amber-600' : 'border-slate-300 dark:border-slate-700'
+            }`}
+          >
+            <option value="">Baseline</option>
+            {scenarios.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+        <label
+          className={`flex items-center gap-2 text-sm ${asOfDate ? 'text-amber-700 dark:text-amber-300' : 'text-slate-600 dark:text-slate-400'}`}
+          title="Show the lenses, diagram and target view as they will look on this date"
+        >
+          As of
+          <input
+            type="date"
+            value={asOfDate}
+            onChange={e => onAsOfDateChange(e.target.value)}
+            className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+          />
+        </label>
+        {asOfDate && (
+          <button
+            onClick={() => onAsOfDateChange('')}
+            className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+          >
+            Today
+          </button>
+        )}
       </div>
     </nav>
   )
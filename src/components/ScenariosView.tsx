@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react'
+import { getAllLenses, readBaseline } from '../db'
+import type { ItemRecord, RelationshipRecord, Scenario } from '../types'
+import { formatHistoryValue, historyFieldLabel, isVisibleHistoryField } from '../utils/history'
+import { changedFields, createScenario, deleteScenario, getScenarioChanges, promoteScenario, renameScenario } from '../utils/scenarios'
+
+type DiffKind = 'Added' | 'Removed' | 'Changed'
+
+interface DiffRow {
+  key: string
+  kind: DiffKind
+  label: string
+  detail?: string // lens or relationship type
+  fields: Array<{ field: string; before: unknown; after: unknown }>
+}
+
+interface ScenarioDiff {
+  items: DiffRow[]
+  relationships: DiffRow[]
+}
+
+const KIND_CLASSES: Record<DiffKind, string> = {
+  Added: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  Removed: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  Changed: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+}
+
+// Field-level differences worth showing, with person and parent ids left out
+function fieldDiffs(before: object, after: object) {
+  const a = before as Record<string, unknown>
+  const b = after as Record<string, unknown>
+  return changedFields(before, after)
+    .filter(isVisibleHistoryField)
+    .map(field => ({ field, before: a[field], after: b[field] }))
+}
+
+// The scenario's changes as rows against the current baseline
+async function loadScenarioDiff(id: number): Promise<ScenarioDiff> {
+  const [changes, baseItems, baseRels, lenses] = await Promise.all([
+    getScenarioChanges(id),
+    readBaseline<ItemRecord>('items'),
+    readBaseline<RelationshipRecord>('relationships'),
+    getAllLenses(),
+  ])
+  const lensLabels = new Map(lenses.map(l => [l.key, l.label]))
+  const baseItemsById = new Map(baseItems.map(i => [i.id!, i]))
+  const baseRelsById = new Map(baseRels.map(r => [r.id!, r]))
+  // Item names as the scenario sees them, for relationship labels
+  const itemNames = new Map(baseItems.map(i => [i.id!, i.name]))
+  for (const change of changes) {
+    if (change.table === 'items' && change.record) itemNames.set(change.recordId, change.record.name)
+  }
+  const itemName = (itemId: number) => itemNames.get(itemId) || `#${itemId}`
+
+  const diff: ScenarioDiff = { items: [], relationships: [] }
+  for (const change of changes) {
+    const key = `${change.table}-${change.recordId}`
+    if (change.table === 'items') {
+      const base = baseItemsById.get(change.recordId)
+      const item = change.record || base
+      const row: DiffRow = { key, kind: 'Changed', label: item?.name || `#${change.recordId}`, detail: item && (lensLabels.get(item.lens) || item.lens), fields: [] }
+      if (change.action === 'create') row.kind = 'Added'
+      else if (change.action === 'delete') row.kind = 'Removed'
+      else if (base) row.fields = fieldDiffs(base, change.record!)
+      diff.items.push(row)
+    } else {
+      const base = baseRelsById.get(change.recordId)
+      const rel = change.record || base
+      const row: DiffRow = {
+        key,
+        kind: 'Changed',
+        label: rel ? `${itemName(rel.fromItemId)} — ${itemName(rel.toItemId)}` : `#${change.recordId}`,
+        detail: rel?.relationshipType,
+        fields: [],
+      }
+      if (change.action === 'create') row.kind = 'Added'
+      else if (change.action === 'delete') row.kind = 'Removed'
+      else if (base) row.fields = fieldDiffs(base, change.record!)
+      diff.relationships.push(row)
+    }
+  }
+  const byLabel = (a: DiffRow, b: DiffRow) => a.kind.localeCompare(b.kind) || a.label.localeCompare(b.label)
+  diff.items.sort(byLabel)
+  diff.relationships.sort(byLabel)
+  return diff
+}
+
+function DiffList({ title, rows }: { title: string; rows: DiffRow[] }) {
+  if (rows.length === 0) return null
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">{title} ({rows.length})</h3>
+      <ul className="space-y-1">
+        {rows.map(row => (
+          <li key={row.key} className="text-sm">
+            <div className="flex items-center gap-2">
+              <span className={`px-1.5 py-0.5 rounded text-xs ${KIND_CLASSES[row.kind]}`}>{row.kind}</span>
+              <span className={row.kind === 'Removed' ? 'line-through' : ''}>{row.label}</span>
+              {row.detail && <span className="text-xs text-slate-500 dark:text-slate-400">{row.detail}</span>}
+            </div>
+            {row.fields.length > 0 && (
+              <ul className="mt-0.5 ml-4 space-y-0.5 text-xs text-slate-600 dark:text-slate-400">
+                {row.fields.map(f => (
+                  <li key={f.field}>
+                    <span className="font-medium">{historyFieldLabel(f.field)}:</span>{' '}
+                    <span className="line-through">{formatHistoryValue(f.before)}</span>
+                    {' → '}
+                    <span>{formatHistoryValue(f.after)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+interface ScenariosViewProps {
+  scenarios: Scenario[]
+  activeScenarioId: number | null
+  onActivate: (id: number | null) => Promise<void>
+  onChanged: () => Promise<void>
+}
+
+export function ScenariosView({ scenarios, activeScenarioId, onActivate, onChanged }: ScenariosViewProps) {
+  const [newName, setNewName] = useState('')
+  const [newDescription, setNewDescription] = useState('')
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editName, setEditName] = useState('')
+  const [editDescription, setEditDescription] = useState('')
+  const [diffId, setDiffId] = useState<number | null>(null)
+  const [diff, setDiff] = useState<ScenarioDiff | null>(null)
+
+  useEffect(() => {
+    setDiff(null)
+    if (diffId === null) return
+    let cancelled = false
+    loadScenarioDiff(diffId)
+      .then(result => { if (!cancelled) setDiff(result) })
+      .catch(e => console.error('Failed to compare scenario:', e))
+    return () => { cancelled = true }
+  }, [diffId])
+
+  async function handleCreate() {
+    try {
+      const id = await createScenario(newName, newDescription)
+      setNewName('')
+      setNewDescription('')
+      await onChanged()
+      if (confirm('Switch to the new scenario now?')) await onActivate(id)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to create scenario')
+    }
+  }
+
+  function startEdit(scenario: Scenario) {
+    setEditingId(scenario.id!)
+    setEditName(scenario.name)
+    setEditDescription(scenario.description || '')
+  }
+
+  async function handleSaveEdit() {
+    if (editingId === null) return
+    try {
+      await renameScenario(editingId, editName, editDescription)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to rename scenario')
+      return
+    }
+    setEditingId(null)
+    await onChanged()
+  }
+
+  async function handlePromote(scenario: Scenario) {
+    if (!confirm(`Apply every change in "${scenario.name}" to the baseline? The scenario is deleted afterwards and the baseline becomes active.`)) return
+    try {
+      const { applied, skipped } = await promoteScenario(scenario.id!)
+      alert(`Applied ${applied} change${applied === 1 ? '' : 's'}${skipped > 0 ? `; ${skipped} no longer fitted the baseline and were skipped` : ''}.`)
+    } catch (e) {
+      console.error('Failed to promote scenario:', e)
+      alert(e instanceof Error ? e.message : 'Failed to promote scenario')
+    }
+    // The baseline is active now, so reload through a switch to refresh every view
+    await onActivate(null)
+  }
+
+  async function handleDelete(scenario: Scenario) {
+    if (!confirm(`Delete the scenario "${scenario.name}"? Its changes are lost; the baseline is not affected.`)) return
+    const wasActive = scenario.id === activeScenarioId
+    await deleteScenario(scenario.id!)
+    if (diffId === scenario.id) setDiffId(null)
+    if (wasActive) await onActivate(null)
+    else await onChanged()
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 dark:bg-slate-900">
+      <div className="p-4 border-b border-slate-200 dark:border-slate-800">
+        <h1 className="text-xl font-semibold">Scenarios</h1>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Model an alternative target state without touching the real data. While a scenario is active, every view shows and edits its items and relationships; lenses, people, notes and tasks are shared with the baseline.
+        </p>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="max-w-3xl space-y-4">
+          <div className="p-3 border border-slate-200 dark:border-slate-800 rounded bg-white dark:bg-slate-900 flex items-center gap-2">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="Scenario name, e.g. Consolidate on Platform A"
+              className="flex-1 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+            />
+            <input
+              value={newDescription}
+              onChange={e => setNewDescription(e.target.value)}
+              placeholder="Description (optional)"
+              className="flex-1 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="px-3 py-1 text-sm rounded bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              New scenario
+            </button>
+          </div>
+
+          {scenarios.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No scenarios yet</p>
+          ) : scenarios.map(scenario => {
+            const active = scenario.id === activeScenarioId
+            const showingDiff = diffId === scenario.id
+            return (
+              <div
+                key={scenario.id}
+                className={`p-3 border rounded bg-white dark:bg-slate-900 ${active ? 'border-amber-400 dark:border-amber-600' : 'border-slate-200 dark:border-slate-800'}`}
+              >
+                {editingId === scenario.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={editName}
+                      onChange={e => setEditName(e.target.value)}
+                      className="flex-1 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                    />
+                    <input
+                      value={editDescription}
+                      onChange={e => setEditDescription(e.target.value)}
+                      placeholder="Description (optional)"
+                      className="flex-1 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                    />
+                    <button onClick={handleSaveEdit} className="px-2 py-1 text-sm rounded bg-blue-600 text-white">Save</button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{scenario.name}</span>
+                    {active && (
+                      <span className="px-1.5 py-0.5 rounded text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">Active</span>
+                    )}
+                    <span className="text-xs text-slate-500 dark:text-slate-400 ml-auto flex-shrink-0">
+                      {active ? 'Being edited' : `${scenario.changes.length} change${scenario.changes.length === 1 ? '' : 's'}`}
+                    </span>
+                    <button
+                      onClick={() => onActivate(active ? null : scenario.id!)}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 flex-shrink-0"
+                    >
+                      {active ? 'Back to baseline' : 'Switch to'}
+                    </button>
+                    <button
+                      onClick={() => setDiffId(showingDiff ? null : scenario.id!)}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 flex-shrink-0"
+                    >
+                      {showingDiff ? 'Hide changes' : 'Compare'}
+                    </button>
+                    <button
+                      onClick={() => startEdit(scenario)}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 flex-shrink-0"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => handlePromote(scenario)}
+                      className="px-2 py-1 text-sm rounded border border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 flex-shrink-0"
+                    >
+                      Promote to baseline
+                    </button>
+                    <button
+                      onClick={() => handleDelete(scenario)}
+                      className="px-2 py-1 text-sm rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 flex-shrink-0"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+                {scenario.description && editingId !== scenario.id && (
+                  <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">{scenario.description}</p>
+                )}
+                {showingDiff && (
+                  <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-800 space-y-3">
+                    {!diff ? (
+                      <p className="text-sm text-slate-500 dark:text-slate-400">Comparing with the baseline...</p>
+                    ) : diff.items.length + diff.relationships.length === 0 ? (
+                      <p className="text-sm text-slate-500 dark:text-slate-400">Same as the baseline</p>
+                    ) : (
+                      <>
+                        <DiffList title="Items" rows={diff.items} />
+                        <DiffList title="Relationships" rows={diff.relationships} />
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
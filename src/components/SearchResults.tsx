@@ -0,0 +1,76 @@
+import clsx from 'clsx'
+import type { SearchResult, SearchResultKind, SearchTextSegment } from '../utils/search'
+
+const MAX_RESULTS = 50
+
+const KIND_LABELS: Record<SearchResultKind, string> = {
+  item: 'Item',
+  note: 'Note',
+  task: 'Task',
+  person: 'Person',
+}
+
+const KIND_STYLES: Record<SearchResultKind, string> = {
+  item: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  note: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  task: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  person: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300',
+}
+
+function Highlighted({ segments }: { segments: SearchTextSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) => segment.match ? (
+        <mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{segment.text}</mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      ))}
+    </>
+  )
+}
+
+interface SearchResultsProps {
+  results: SearchResult[]
+  onSelect: (result: SearchResult) => void
+}
+
+// Dropdown of ranked global search results
+export function SearchResults({ results, onSelect }: SearchResultsProps) {
+  return (
+    <div className="absolute left-0 right-0 top-full mt-1 z-20 max-h-[28rem] overflow-y-auto rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-lg">
+      {results.length === 0 ? (
+        <div className="p-3 text-sm text-slate-500 dark:text-slate-400">No matches</div>
+      ) : (
+        <>
+          {results.slice(0, MAX_RESULTS).map(result => (
+            <button
+              key={`${result.kind}-${result.id}`}
+              // Keep focus in the search box until the click lands
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => onSelect(result)}
+              className="w-full text-left px-3 py-2 border-b border-slate-100 dark:border-slate-800 last:border-b-0 hover:bg-slate-50 dark:hover:bg-slate-800/50"
+            >
+              <div className="flex items-center gap-2">
+                <span className={clsx('px-1.5 py-0.5 text-xs rounded flex-shrink-0', KIND_STYLES[result.kind])}>
+                  {KIND_LABELS[result.kind]}
+                </span>
+                <span className="font-medium truncate"><Highlighted segments={result.titleSegments} /></span>
+                <span className="ml-auto text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">{result.subtitle}</span>
+              </div>
+              {result.snippet && (
+                <div className="mt-1 text-xs text-slate-600 dark:text-slate-400 line-clamp-2">
+                  <Highlighted segments={result.snippet} />
+                </div>
+              )}
+            </button>
+          ))}
+          {results.length > MAX_RESULTS && (
+            <div className="p-2 text-xs text-center text-slate-500 dark:text-slate-400">
+              Showing {MAX_RESULTS} of {results.length} matches. Refine the search to see more.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
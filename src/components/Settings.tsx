@@ -1,8 +1,19 @@
 import { useEffect, useState } from 'react'
 import { db, getAllLenses } from '../db'
-import { type LensDefinition } from '../types'
+import { ARCHIMATE_ELEMENT_TYPES, ARCHIMATE_RELATIONSHIP_TYPES, DEFAULT_RELATIONSHIP_TYPE, type ArchimateElementType, type ArchimateRelationshipType, type ItemRecord, type LensDefinition, type RelationshipLineStyle, type RelationshipTypeDefinition, type Workspace } from '../types'
 import { invalidateLensesCache } from '../utils/lensOrder'
+import { mergeLenses, renameLensKey } from '../utils/lensMaintenance'
+import { trashLens } from '../utils/trash'
+import { getLensArchimateType, getRelationshipArchimateType } from '../utils/archimate'
+import { getLensColor } from '../utils/graphExchange'
+import { LINE_STYLE_DASHARRAY, countRelationshipsOfType, deleteRelationshipType, loadRelationshipTypes, saveRelationshipType } from '../utils/relationshipTypes'
+import { type IntegrityIssue, type IntegrityIssueKind, INTEGRITY_CHECKS, checkIntegrity, repairIntegrityIssues } from '../utils/integrity'
+import { type DuplicateGroup, dismissDuplicateGroup, findDuplicateGroups } from '../utils/duplicates'
 import { type Theme, defaultTheme, loadTheme, saveTheme, applyTheme } from '../utils/theme'
+import { CustomFieldsEditor } from './CustomFieldsEditor'
+import { MergeItemsDialog } from './MergeItemsDialog'
+import { DEFAULT_WORKSPACE_ID, getActiveWorkspaceId, getWorkspaces } from '../utils/workspaceStorage'
+import { createWorkspace, deleteWorkspace, duplicateWorkspace, renameWorkspace, switchWorkspace } from '../utils/workspaces'
 
 type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes'
 
@@ -11,7 +22,7 @@ interface SettingsProps {
 }
 
 export function Settings({ onNavigate: _onNavigate }: SettingsProps) {
-  const [activeSection, setActiveSection] = useState<'lenses' | 'themes'>('lenses')
+  const [activeSection, setActiveSection] = useState<'lenses' | 'relationshipTypes' | 'duplicates' | 'integrity' | 'themes' | 'workspaces'>('lenses')
   const [theme, setTheme] = useState<Theme>(defaultTheme)
 
   useEffect(() => {
@@ -70,6 +81,36 @@ export function Settings({ onNavigate: _onNavigate }: SettingsProps) {
             >
               Manage Architecture Lenses
             </button>
+            <button
+              onClick={() => setActiveSection('relationshipTypes')}
+              className={`w-full text-left px-3 py-2 text-sm rounded transition-colors ${
+                activeSection === 'relationshipTypes'
+                  ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 font-medium'
+                  : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300'
+              }`}
+            >
+              Relationship Types
+            </button>
+            <button
+              onClick={() => setActiveSection('duplicates')}
+              className={`w-full text-left px-3 py-2 text-sm rounded transition-colors ${
+                activeSection === 'duplicates'
+                  ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 font-medium'
+                  : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300'
+              }`}
+            >
+              Find Duplicates
+            </button>
+            <button
+              onClick={() => setActiveSection('integrity')}
+              className={`w-full text-left px-3 py-2 text-sm rounded transition-colors ${
+                activeSection === 'integrity'
+                  ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 font-medium'
+                  : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300'
+              }`}
+            >
+              Data Integrity
+            </button>
             <button
               onClick={() => setActiveSection('themes')}
               className={`w-full text-left px-3 py-2 text-sm rounded transition-colors ${
@@ -80,12 +121,25 @@ export function Settings({ onNavigate: _onNavigate }: SettingsProps) {
             >
               Themes
             </button>
+            <button
+              onClick={() => setActiveSection('workspaces')}
+              className={`w-full text-left px-3 py-2 text-sm rounded transition-colors ${
+                activeSection === 'workspaces'
+                  ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 font-medium'
+                  : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300'
+              }`}
+            >
+              Workspaces
+            </button>
           </nav>
         </div>
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4">
           {activeSection === 'lenses' && <LensManagerSection />}
+          {activeSection === 'relationshipTypes' && <RelationshipTypesSection />}
+          {activeSection === 'duplicates' && <DuplicatesSection />}
+          {activeSection === 'integrity' && <IntegritySection />}
           {activeSection === 'themes' && (
             <ThemesSection
               theme={theme}
@@ -94,6 +148,7 @@ export function Settings({ onNavigate: _onNavigate }: SettingsProps) {
               onReset={resetTheme}
             />
           )}
+          {activeSection === 'workspaces' && <WorkspacesSection />}
         </div>
       </div>
     </div>
@@ -105,6 +160,12 @@ function LensManagerSection() {
   const [lenses, setLenses] = useState<LensDefinition[]>([])
   const [editingId, setEditingId] = useState<number | null>(null)
   const [editLabel, setEditLabel] = useState('')
+  const [editKey, setEditKey] = useState('')
+  const [editArchimateType, setEditArchimateType] = useState<ArchimateElementType>('Grouping')
+  const [editColor, setEditColor] = useState('')
+  const [fieldsLensId, setFieldsLensId] = useState<number | null>(null)
+  const [mergeLensId, setMergeLensId] = useState<number | null>(null)
+  const [mergeTargetKey, setMergeTargetKey] = useState('')
   const [newLensKey, setNewLensKey] = useState('')
   const [newLensLabel, setNewLensLabel] = useState('')
 
@@ -123,15 +184,33 @@ function LensManagerSection() {
     const lens = lenses.find(l => l.id === editingId)
     if (!lens) return
 
+    const newKey = editKey.trim()
+    if (!newKey) {
+      alert('Key is required')
+      return
+    }
+    if (newKey !== lens.key) {
+      if (!confirm(`Change the key "${lens.key}" to "${newKey}"? All items, relationships and saved view settings using this lens will be updated.`)) return
+      try {
+        await renameLensKey(lens.key, newKey)
+      } catch (e) {
+        alert(e instanceof Error ? e.message : 'Error changing lens key')
+        return
+      }
+    }
+
     const now = Date.now()
     await db.lenses.update(editingId, {
       label: editLabel.trim(),
+      archimateType: editArchimateType,
+      color: editColor,
       updatedAt: now,
     })
     
     invalidateLensesCache()
     setEditingId(null)
     setEditLabel('')
+    setEditKey('')
     await loadLenses()
     window.dispatchEvent(new CustomEvent('lensesUpdated'))
   }
@@ -167,29 +246,55 @@ function LensManagerSection() {
   }
 
   async function handleDeleteLens(lensId: number) {
-    if (!confirm('Delete this lens? This will also delete all items in this lens.')) return
+    if (!confirm('Delete this lens? This will also delete all items in this lens. Everything can be restored from the Trash.')) return
     
     const lens = lenses.find(l => l.id === lensId)
     if (!lens) return
 
-    await db.items.where('lens').equals(lens.key).delete()
-    await db.relationships.where('fromLens').equals(lens.key).delete()
-    await db.relationships.where('toLens').equals(lens.key).delete()
-    await db.lenses.delete(lensId)
+    try {
+      await trashLens(lensId)
+    } catch (e) {
+      console.error('Failed to delete lens:', e)
+      alert(e instanceof Error ? e.message : 'Failed to delete lens')
+      return
+    }
     
     invalidateLensesCache()
     await loadLenses()
     window.dispatchEvent(new CustomEvent('lensesUpdated'))
   }
 
+  async function handleMergeLens(source: LensDefinition) {
+    const target = lenses.find(l => l.key === mergeTargetKey)
+    if (!target) {
+      alert('Choose a lens to merge into')
+      return
+    }
+    if (!confirm(`Merge "${source.label}" into "${target.label}"? All items and relationships move to "${target.label}", items with the same name are combined, and "${source.label}" is deleted.`)) return
+    try {
+      const { moved, merged } = await mergeLenses(source.key, target.key)
+      alert(`Moved ${moved} item${moved === 1 ? '' : 's'} and combined ${merged} duplicate${merged === 1 ? '' : 's'}.`)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error merging lenses')
+      return
+    }
+    setMergeLensId(null)
+    setMergeTargetKey('')
+    await loadLenses()
+  }
+
   function startEdit(lens: LensDefinition) {
     setEditingId(lens.id!)
     setEditLabel(lens.label)
+    setEditKey(lens.key)
+    setEditArchimateType(getLensArchimateType(lens))
+    setEditColor(getLensColor(lens))
   }
 
   function cancelEdit() {
     setEditingId(null)
     setEditLabel('')
+    setEditKey('')
   }
 
   return (
@@ -234,18 +339,40 @@ function LensManagerSection() {
           {lenses.map(lens => (
             <div
               key={lens.id}
-              className="border border-slate-200 dark:border-slate-800 rounded p-3 flex items-center justify-between"
+              className="border border-slate-200 dark:border-slate-800 rounded p-3"
             >
+              <div className="flex items-center justify-between">
               {editingId === lens.id ? (
                 <>
                   <div className="flex-1 flex items-center gap-3">
-                    <span className="text-sm text-slate-500 dark:text-slate-400">{lens.key}</span>
+                    <input
+                      type="text"
+                      value={editKey}
+                      onChange={e => setEditKey(e.target.value)}
+                      className="w-40 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 text-slate-500 dark:text-slate-400"
+                      title="Key (unique identifier)"
+                    />
                     <input
                       type="text"
                       value={editLabel}
                       onChange={e => setEditLabel(e.target.value)}
                       className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
                     />
+                    <select
+                      value={editArchimateType}
+                      onChange={e => setEditArchimateType(e.target.value as ArchimateElementType)}
+                      className="w-44 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700"
+                      title="ArchiMate element type"
+                    >
+                      {ARCHIMATE_ELEMENT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <input
+                      type="color"
+                      value={editColor}
+                      onChange={e => setEditColor(e.target.value)}
+                      className="w-10 h-8 rounded border border-slate-300 dark:border-slate-700 cursor-pointer"
+                      title="Node colour in GraphML and GEXF exports"
+                    />
                   </div>
                   <div className="flex gap-2">
                     <button
@@ -265,8 +392,14 @@ function LensManagerSection() {
               ) : (
                 <>
                   <div>
-                    <div className="font-medium">{lens.label}</div>
-                    <div className="text-sm text-slate-500 dark:text-slate-400">{lens.key}</div>
+                    <div className="font-medium flex items-center gap-2">
+                      <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: getLensColor(lens) }} title="Node colour in graph exports" />
+                      {lens.label}
+                    </div>
+                    <div className="text-sm text-slate-500 dark:text-slate-400">
+                      {lens.key} · {getLensArchimateType(lens)}
+                      {lens.customFields && lens.customFields.length > 0 && ` · ${lens.customFields.length} custom field${lens.customFields.length === 1 ? '' : 's'}`}
+                    </div>
                   </div>
                   <div className="flex gap-2">
                     <button
@@ -275,6 +408,21 @@ function LensManagerSection() {
                     >
                       Edit
                     </button>
+                    <button
+                      onClick={() => setFieldsLensId(fieldsLensId === lens.id ? null : lens.id!)}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                      Fields
+                    </button>
+                    <button
+                      onClick={() => {
+                        setMergeLensId(mergeLensId === lens.id ? null : lens.id!)
+                        setMergeTargetKey('')
+                      }}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                      Merge
+                    </button>
                     <button
                       onClick={() => handleDeleteLens(lens.id!)}
                       className="px-2 py-1 text-sm rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
@@ -284,6 +432,222 @@ function LensManagerSection() {
                   </div>
                 </>
               )}
+              </div>
+              {fieldsLensId === lens.id && (
+                <CustomFieldsEditor lens={lens} onSaved={loadLenses} />
+              )}
+              {mergeLensId === lens.id && (
+                <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-800 flex items-center gap-2 text-sm">
+                  <span>Merge into</span>
+                  <select
+                    value={mergeTargetKey}
+                    onChange={e => setMergeTargetKey(e.target.value)}
+                    className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+                  >
+                    <option value="">(Choose lens)</option>
+                    {lenses.filter(l => l.id !== lens.id).map(l => (
+                      <option key={l.key} value={l.key}>{l.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleMergeLens(lens)}
+                    disabled={!mergeTargetKey}
+                    className="px-2 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Merge
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Relationship Types Section
+const EMPTY_RELATIONSHIP_TYPE = {
+  name: '',
+  fromLabel: '',
+  toLabel: '',
+  color: '#3b82f6',
+  lineStyle: 'solid' as RelationshipLineStyle,
+  archimateType: 'Association' as ArchimateRelationshipType,
+}
+
+function RelationshipTypesSection() {
+  const [types, setTypes] = useState<RelationshipTypeDefinition[]>([])
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [form, setForm] = useState(EMPTY_RELATIONSHIP_TYPE)
+
+  useEffect(() => {
+    loadTypes()
+  }, [])
+
+  async function loadTypes() {
+    setTypes(await loadRelationshipTypes())
+  }
+
+  function startEdit(type: RelationshipTypeDefinition) {
+    setEditingId(type.id!)
+    setForm({
+      name: type.name,
+      fromLabel: type.fromLabel,
+      toLabel: type.toLabel,
+      color: type.color,
+      lineStyle: type.lineStyle,
+      archimateType: getRelationshipArchimateType(type),
+    })
+  }
+
+  function cancelEdit() {
+    setEditingId(null)
+    setForm(EMPTY_RELATIONSHIP_TYPE)
+  }
+
+  async function handleSave() {
+    const current = types.find(t => t.id === editingId)
+    if (current && (current.name !== form.name.trim() || current.fromLabel !== form.fromLabel.trim() || current.toLabel !== form.toLabel.trim())) {
+      const used = await countRelationshipsOfType(current.name)
+      if (used > 0 && !confirm(`${used} relationship${used === 1 ? '' : 's'} use "${current.name}" and will be updated. Continue?`)) return
+    }
+    try {
+      await saveRelationshipType(form, editingId ?? undefined)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e))
+      return
+    }
+    cancelEdit()
+    await loadTypes()
+  }
+
+  async function handleDelete(type: RelationshipTypeDefinition) {
+    const used = await countRelationshipsOfType(type.name)
+    const detail = used > 0 ? ` ${used} relationship${used === 1 ? '' : 's'} using it will become ${DEFAULT_RELATIONSHIP_TYPE}.` : ''
+    if (!confirm(`Delete the relationship type "${type.name}"?${detail}`)) return
+    try {
+      await deleteRelationshipType(type.id!)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e))
+      return
+    }
+    if (editingId === type.id) cancelEdit()
+    await loadTypes()
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="border border-slate-200 dark:border-slate-800 rounded p-4">
+        <h2 className="font-medium mb-3">{editingId === null ? 'Create Relationship Type' : 'Edit Relationship Type'}</h2>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm mb-1">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g., Hosts-Hosted On"
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1">From side label</label>
+            <input
+              type="text"
+              value={form.fromLabel}
+              onChange={e => setForm({ ...form, fromLabel: e.target.value })}
+              placeholder="e.g., Hosts"
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1">To side label</label>
+            <input
+              type="text"
+              value={form.toLabel}
+              onChange={e => setForm({ ...form, toLabel: e.target.value })}
+              placeholder="e.g., Hosted On"
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1">Line colour</label>
+            <input
+              type="color"
+              value={form.color}
+              onChange={e => setForm({ ...form, color: e.target.value })}
+              className="w-16 h-8 rounded border border-slate-300 dark:border-slate-700 cursor-pointer"
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1">Line style</label>
+            <select
+              value={form.lineStyle}
+              onChange={e => setForm({ ...form, lineStyle: e.target.value as RelationshipLineStyle })}
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+            >
+              <option value="solid">Solid</option>
+              <option value="dashed">Dashed</option>
+              <option value="dotted">Dotted</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm mb-1">ArchiMate relationship</label>
+            <select
+              value={form.archimateType}
+              onChange={e => setForm({ ...form, archimateType: e.target.value as ArchimateRelationshipType })}
+              className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+              title="Used for ArchiMate export and import, from the from side to the to side"
+            >
+              {ARCHIMATE_RELATIONSHIP_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={handleSave}
+            className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700"
+          >
+            {editingId === null ? 'Create Type' : 'Save'}
+          </button>
+          {editingId !== null && (
+            <button
+              onClick={cancelEdit}
+              className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h2 className="font-medium mb-3">Existing Relationship Types</h2>
+        <div className="space-y-2">
+          {types.map(type => (
+            <div key={type.id} className="border border-slate-200 dark:border-slate-800 rounded p-3 flex items-center gap-3">
+              <svg width="40" height="10" className="flex-shrink-0">
+                <line x1="0" y1="5" x2="40" y2="5" stroke={type.color} strokeWidth={2} strokeDasharray={LINE_STYLE_DASHARRAY[type.lineStyle]} />
+              </svg>
+              <div className="flex-1">
+                <div className="font-medium">{type.name}</div>
+                <div className="text-sm text-slate-500 dark:text-slate-400">{type.fromLabel} / {type.toLabel} · {getRelationshipArchimateType(type)}</div>
+              </div>
+              <button
+                onClick={() => startEdit(type)}
+                className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                Edit
+              </button>
+              {type.name !== DEFAULT_RELATIONSHIP_TYPE && (
+                <button
+                  onClick={() => handleDelete(type)}
+                  className="px-2 py-1 text-sm rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
+                >
+                  Delete
+                </button>
+              )}
             </div>
           ))}
         </div>
@@ -292,6 +656,209 @@ function LensManagerSection() {
   )
 }
 
+// Duplicates Section
+function DuplicatesSection() {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [lensLabels, setLensLabels] = useState<Record<string, string>>({})
+  const [mergeItems, setMergeItems] = useState<ItemRecord[] | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadGroups()
+  }, [])
+
+  const lensLabel = (key: string) => lensLabels[key] || key
+
+  async function loadGroups() {
+    setLoading(true)
+    const [items, lenses] = await Promise.all([db.items.toArray(), getAllLenses()])
+    const labels = Object.fromEntries(lenses.map(l => [l.key, l.label]))
+    setLensLabels(labels)
+    setGroups(findDuplicateGroups(items, key => labels[key] || key))
+    setLoading(false)
+  }
+
+  function handleDismiss(group: DuplicateGroup) {
+    dismissDuplicateGroup(group)
+    setGroups(groups.filter(g => g !== group))
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-medium">Possible Duplicates</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Items with similar names, shared tags or shared architects, within and across lenses.
+          </p>
+        </div>
+        <button
+          onClick={loadGroups}
+          className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+        >
+          Rescan
+        </button>
+      </div>
+      {loading ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Scanning...</p>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No likely duplicates found</p>
+      ) : (
+        <div className="space-y-2">
+          {groups.map(group => (
+            <div key={group.items.map(i => i.id).join('-')} className="border border-slate-200 dark:border-slate-800 rounded p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {group.items.map(i => i.name).join(', ')}
+                  </div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    {Math.round(group.score * 100)}% match · {Array.from(new Set(group.items.map(i => lensLabel(i.lens)))).join(', ')}
+                  </div>
+                  <ul className="mt-1 ml-4 text-xs text-slate-600 dark:text-slate-400 list-disc">
+                    {group.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                  </ul>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => setMergeItems(group.items)}
+                    className="px-2 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700"
+                  >
+                    Merge...
+                  </button>
+                  <button
+                    onClick={() => handleDismiss(group)}
+                    className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    Not duplicates
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <MergeItemsDialog
+        open={mergeItems !== null}
+        items={mergeItems || []}
+        lensLabel={lensLabel}
+        onClose={() => setMergeItems(null)}
+        onMerged={loadGroups}
+      />
+    </div>
+  )
+}
+
+// Data Integrity Section
+function IntegritySection() {
+  const [issues, setIssues] = useState<IntegrityIssue[]>([])
+  const [scanning, setScanning] = useState(true)
+  const [repairing, setRepairing] = useState(false)
+  const [expandedKind, setExpandedKind] = useState<IntegrityIssueKind | null>(null)
+
+  useEffect(() => {
+    runScan()
+  }, [])
+
+  async function runScan() {
+    setScanning(true)
+    setIssues(await checkIntegrity())
+    setScanning(false)
+  }
+
+  async function repair(kinds: IntegrityIssueKind[]) {
+    setRepairing(true)
+    try {
+      for (const kind of kinds) {
+        await repairIntegrityIssues(kind)
+      }
+    } catch (e) {
+      console.error('Repair failed:', e)
+      alert(`Repair failed: ${e instanceof Error ? e.message : String(e)}`)
+    }
+    if (kinds.includes('unknownLens')) {
+      invalidateLensesCache()
+      window.dispatchEvent(new CustomEvent('lensesUpdated'))
+    }
+    setRepairing(false)
+    await runScan()
+  }
+
+  const found = INTEGRITY_CHECKS.filter(check => issues.some(i => i.kind === check.kind))
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-medium">Data Integrity</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Checks relationships, task and meeting note references for records that point at missing or inconsistent data.
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <button
+            onClick={runScan}
+            disabled={scanning || repairing}
+            className="px-3 py-1.5 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+          >
+            Rescan
+          </button>
+          <button
+            onClick={() => {
+              if (confirm(`Repair all ${issues.length} issue${issues.length === 1 ? '' : 's'}?`)) repair(found.map(c => c.kind))
+            }}
+            disabled={scanning || repairing || issues.length === 0}
+            className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Repair All
+          </button>
+        </div>
+      </div>
+      {scanning ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Scanning...</p>
+      ) : found.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No problems found</p>
+      ) : (
+        <div className="space-y-2">
+          {found.map(check => {
+            const checkIssues = issues.filter(i => i.kind === check.kind)
+            const expanded = expandedKind === check.kind
+            return (
+              <div key={check.kind} className="border border-slate-200 dark:border-slate-800 rounded p-3">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setExpandedKind(expanded ? null : check.kind)}
+                    className="flex-1 text-left text-sm"
+                  >
+                    {expanded ? '▾' : '▸'} <span className="font-medium">{check.title}</span>
+                    <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300">
+                      {checkIssues.length}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => repair([check.kind])}
+                    disabled={repairing}
+                    className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50 flex-shrink-0"
+                  >
+                    {check.repair}
+                  </button>
+                </div>
+                {expanded && (
+                  <ul className="mt-2 ml-4 text-xs text-slate-600 dark:text-slate-400 list-disc space-y-0.5">
+                    {checkIssues.map(issue => (
+                      <li key={`${issue.table}-${issue.recordId}`}>{issue.description}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Themes Section
 interface ThemesSectionProps {
   theme: Theme
@@ -478,6 +1045,163 @@ function ThemesSection({ theme, onColorChange, onFontChange, onReset }: ThemesSe
   )
 }
 
+// Workspaces Section
+function WorkspacesSection() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(getWorkspaces())
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const activeId = getActiveWorkspaceId()
+
+  function reload() {
+    setWorkspaces(getWorkspaces())
+    window.dispatchEvent(new CustomEvent('workspacesUpdated'))
+  }
+
+  function handleCreate() {
+    try {
+      const workspace = createWorkspace(newName)
+      setNewName('')
+      reload()
+      if (confirm(`Switch to "${workspace.name}" now?`)) switchWorkspace(workspace.id)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error creating workspace')
+    }
+  }
 
+  function handleRename() {
+    if (editingId === null) return
+    try {
+      renameWorkspace(editingId, editName)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error renaming workspace')
+      return
+    }
+    setEditingId(null)
+    reload()
+  }
 
+  async function handleDuplicate(workspace: Workspace) {
+    setBusy(true)
+    try {
+      let name = `${workspace.name} copy`
+      for (let n = 2; workspaces.some(w => w.name.toLowerCase() === name.toLowerCase()); n++) name = `${workspace.name} copy ${n}`
+      await duplicateWorkspace(workspace.id, name)
+      reload()
+    } catch (e) {
+      console.error('Failed to duplicate workspace:', e)
+      alert(e instanceof Error ? e.message : 'Error duplicating workspace')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleDelete(workspace: Workspace) {
+    if (!confirm(`Permanently delete the workspace "${workspace.name}" with all its data? This cannot be undone.`)) return
+    try {
+      await deleteWorkspace(workspace.id)
+      reload()
+    } catch (e) {
+      console.error('Failed to delete workspace:', e)
+      alert(e instanceof Error ? e.message : 'Error deleting workspace')
+    }
+  }
 
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="border border-slate-200 dark:border-slate-800 rounded p-4">
+        <h2 className="font-medium mb-1">Create New Workspace</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+          Each workspace has its own lenses, items, people, notes and view settings, e.g. one per client engagement or a sandbox for training.
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="e.g., Client A"
+            className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!newName.trim()}
+            className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create Workspace
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="font-medium mb-3">Existing Workspaces</h2>
+        <div className="space-y-2">
+          {workspaces.map(workspace => (
+            <div key={workspace.id} className="border border-slate-200 dark:border-slate-800 rounded p-3 flex items-center gap-3">
+              {editingId === workspace.id ? (
+                <>
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={e => setEditName(e.target.value)}
+                    className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+                  />
+                  <button onClick={handleRename} className="px-2 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700">
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1">
+                    <div className="font-medium">
+                      {workspace.name}
+                      {workspace.id === activeId && <span className="ml-2 text-xs font-normal text-blue-600 dark:text-blue-400">Current</span>}
+                    </div>
+                    {workspace.createdAt > 0 && (
+                      <div className="text-sm text-slate-500 dark:text-slate-400">Created {new Date(workspace.createdAt).toLocaleDateString()}</div>
+                    )}
+                  </div>
+                  {workspace.id !== activeId && (
+                    <button
+                      onClick={() => switchWorkspace(workspace.id)}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                      Switch to
+                    </button>
+                  )}
+                  <button
+                    onClick={() => { setEditingId(workspace.id); setEditName(workspace.name) }}
+                    className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(workspace)}
+                    disabled={busy}
+                    className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    Duplicate
+                  </button>
+                  {workspace.id !== activeId && workspace.id !== DEFAULT_WORKSPACE_ID && (
+                    <button
+                      onClick={() => handleDelete(workspace)}
+                      className="px-2 py-1 text-sm rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
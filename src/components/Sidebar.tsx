@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react'
-import { type LensKey, type LensDefinition } from '../types'
+import { type LensKey, type LensDefinition, type SavedFilter } from '../types'
 import { getLensOrderSync, saveLensOrder } from '../utils/lensOrder'
 import { getAllLenses } from '../db'
+import { deleteSavedFilter, getSavedFilters, renameSavedFilter, saveFilter } from '../utils/savedFilters'
 
 interface SidebarProps {
   visible: Record<LensKey, boolean>
@@ -11,10 +12,24 @@ interface SidebarProps {
   onFilterLens?: (lens: LensKey | null) => void
   filteredLens?: LensKey | null
   onOrderChange?: () => void
+  query?: string // Current global search, which can be saved as a filter
+  onApplyFilter?: (query: string) => void
 }
 
-export function Sidebar({ visible, onToggle, onShowAll, onHideAll, onFilterLens, filteredLens, onOrderChange }: SidebarProps) {
+export function Sidebar({ visible, onToggle, onShowAll, onHideAll, onFilterLens, filteredLens, onOrderChange, query = '', onApplyFilter }: SidebarProps) {
   const [orderedLenses, setOrderedLenses] = useState<LensDefinition[]>([])
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([])
+
+  useEffect(() => {
+    async function loadSavedFilters() {
+      setSavedFilters(await getSavedFilters())
+    }
+    loadSavedFilters()
+    window.addEventListener('savedFiltersUpdated', loadSavedFilters)
+    return () => {
+      window.removeEventListener('savedFiltersUpdated', loadSavedFilters)
+    }
+  }, [])
   
   useEffect(() => {
     async function loadLenses() {
@@ -73,8 +88,34 @@ export function Sidebar({ visible, onToggle, onShowAll, onHideAll, onFilterLens,
     onOrderChange?.()
   }
 
+  async function handleSaveFilter() {
+    const name = window.prompt('Name for this filter:')
+    if (!name?.trim()) return
+    if (savedFilters.some(f => f.name === name.trim()) && !confirm(`Replace the saved filter "${name.trim()}"?`)) return
+    try {
+      await saveFilter(name, query)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error saving filter')
+    }
+  }
+
+  async function handleRenameFilter(filter: SavedFilter) {
+    const name = window.prompt('Rename filter:', filter.name)
+    if (!name?.trim() || name.trim() === filter.name) return
+    try {
+      await renameSavedFilter(filter.id!, name)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error renaming filter')
+    }
+  }
+
+  async function handleDeleteFilter(filter: SavedFilter) {
+    if (!confirm(`Delete the saved filter "${filter.name}"?`)) return
+    await deleteSavedFilter(filter.id!)
+  }
+
   return (
-    <aside className="w-64 shrink-0 border-r border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50 h-full p-4">
+    <aside className="w-64 shrink-0 border-r border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50 h-full p-4 overflow-y-auto">
       <div className="mb-4">
         <h2 className="text-sm font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wide">Lenses</h2>
         <div className="mt-2 flex gap-2 flex-wrap">
@@ -136,6 +177,53 @@ export function Sidebar({ visible, onToggle, onShowAll, onHideAll, onFilterLens,
           </li>
         ))}
       </ul>
+      <div className="mt-6">
+        <h2 className="text-sm font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wide">Saved filters</h2>
+        {query.trim() && (
+          <button
+            className="mt-2 px-2 py-1 text-xs rounded border border-slate-300 hover:bg-slate-100 dark:border-slate-700 dark:hover:bg-slate-800"
+            onClick={handleSaveFilter}
+          >
+            Save current search
+          </button>
+        )}
+        {savedFilters.length === 0 ? (
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Search, then save the search here to reuse it as a filter.</p>
+        ) : (
+          <ul className="mt-2 space-y-1">
+            {savedFilters.map(filter => {
+              const active = query.trim() === filter.query
+              return (
+                <li key={filter.id} className="group flex items-center gap-1">
+                  <span
+                    className={`text-sm flex-1 px-2 py-1.5 rounded hover:bg-white/60 dark:hover:bg-slate-800/60 cursor-pointer truncate ${
+                      active ? 'font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20' : ''
+                    }`}
+                    onClick={() => onApplyFilter?.(active ? '' : filter.query)}
+                    title={active ? 'Click to clear the filter' : filter.query}
+                  >
+                    {filter.name}
+                  </span>
+                  <button
+                    onClick={() => handleRenameFilter(filter)}
+                    className="px-1 text-xs text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 opacity-0 group-hover:opacity-100"
+                    title="Rename"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => handleDeleteFilter(filter)}
+                    className="px-1 text-sm leading-none text-slate-500 hover:text-red-600 dark:text-slate-400 dark:hover:text-red-400 opacity-0 group-hover:opacity-100"
+                    title="Delete"
+                  >
+                    ×
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
     </aside>
   )
 }
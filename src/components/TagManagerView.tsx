@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useState } from 'react'
+import { db } from '../db'
+import {
+  countTagUsage,
+  deleteTag,
+  getTagCategories,
+  getTagCategory,
+  getTagColors,
+  getTagDefinition,
+  loadTagDefinitions,
+  mergeTags,
+  parseTag,
+  renameTag,
+  saveTagDefinition,
+} from '../utils/tags'
+
+const UNCATEGORISED = ''
+
+export function TagManagerView() {
+  const [usage, setUsage] = useState<Map<string, number>>(new Map())
+  const [filter, setFilter] = useState('')
+  const [editingTag, setEditingTag] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [mergeTag, setMergeTag] = useState<string | null>(null)
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [categoryDrafts, setCategoryDrafts] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  async function load() {
+    await loadTagDefinitions()
+    const items = await db.items.toArray()
+    setUsage(countTagUsage(items))
+    setCategoryDrafts({})
+  }
+
+  const tags = useMemo(() => Array.from(usage.keys()).sort((a, b) => a.localeCompare(b)), [usage])
+  const categories = useMemo(() => getTagCategories(tags), [tags])
+
+  // Tags matching the filter, grouped by category with uncategorised tags last
+  const groups = useMemo(() => {
+    const q = filter.trim().toLowerCase()
+    const byCategory = new Map<string, string[]>()
+    for (const tag of tags) {
+      if (q && !tag.toLowerCase().includes(q)) continue
+      const category = getTagCategory(tag) || UNCATEGORISED
+      byCategory.set(category, [...(byCategory.get(category) || []), tag])
+    }
+    return Array.from(byCategory.entries()).sort(([a], [b]) => {
+      if (a === UNCATEGORISED) return 1
+      if (b === UNCATEGORISED) return -1
+      return a.localeCompare(b)
+    })
+  }, [tags, filter])
+
+  async function handleRename() {
+    if (editingTag === null) return
+    const name = editName.trim()
+    if (name !== editingTag && usage.has(name) && !confirm(`"${name}" already exists. Merge "${editingTag}" into it?`)) return
+    try {
+      await renameTag(editingTag, name)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error renaming tag')
+      return
+    }
+    setEditingTag(null)
+    await load()
+  }
+
+  async function handleMerge() {
+    if (mergeTag === null || !mergeTarget) return
+    if (!confirm(`Replace "${mergeTag}" with "${mergeTarget}" on ${usage.get(mergeTag) || 0} item(s)?`)) return
+    try {
+      await mergeTags([mergeTag], mergeTarget)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error merging tags')
+      return
+    }
+    setMergeTag(null)
+    setMergeTarget('')
+    await load()
+  }
+
+  async function handleDelete(tag: string) {
+    if (!confirm(`Remove the tag "${tag}" from ${usage.get(tag) || 0} item(s)?`)) return
+    try {
+      await deleteTag(tag)
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Error deleting tag')
+      return
+    }
+    await load()
+  }
+
+  async function handleColorChange(tag: string, color: string | undefined) {
+    try {
+      await saveTagDefinition(tag, { color, category: getTagDefinition(tag)?.category })
+    } catch (e) {
+      console.error('Failed to save tag colour:', e)
+      alert(e instanceof Error ? e.message : 'Error saving tag colour')
+    }
+    await load()
+  }
+
+  async function handleCategoryCommit(tag: string) {
+    const category = categoryDrafts[tag]
+    if (category === undefined || category.trim() === (getTagDefinition(tag)?.category || '')) return
+    try {
+      await saveTagDefinition(tag, { color: getTagDefinition(tag)?.color, category })
+    } catch (e) {
+      console.error('Failed to save tag category:', e)
+      alert(e instanceof Error ? e.message : 'Error saving tag category')
+    }
+    await load()
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 dark:bg-slate-900">
+      <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex items-center gap-3">
+        <h1 className="text-xl font-semibold">Tags</h1>
+        <span className="text-sm text-slate-500 dark:text-slate-400">
+          {tags.length} tag{tags.length === 1 ? '' : 's'} in {categories.length} categor{categories.length === 1 ? 'y' : 'ies'}
+        </span>
+        <input
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Filter tags..."
+          className="ml-auto px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 bg-transparent w-64"
+        />
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        <p className="max-w-4xl mb-4 text-sm text-slate-500 dark:text-slate-400">
+          Tags written as <code>category:value</code>, e.g. <code>hosting:cloud</code>, belong to that category. Other tags can be given a category here. Colours and categories are used by the Tags view of the diagram.
+        </p>
+        <datalist id="tag-categories">
+          {categories.map(c => <option key={c} value={c} />)}
+        </datalist>
+        {tags.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No items are tagged yet</p>
+        ) : (
+          <div className="max-w-4xl space-y-4">
+            {groups.map(([category, groupTags]) => (
+              <div key={category}>
+                <h2 className="font-medium mb-2">{category || 'Uncategorised'}</h2>
+                <div className="space-y-1">
+                  {groupTags.map(tag => {
+                    const definition = getTagDefinition(tag)
+                    const structured = !!parseTag(tag).category
+                    const colors = getTagColors(tag)
+                    return (
+                      <div key={tag} className="p-2 border border-slate-200 dark:border-slate-800 rounded bg-white dark:bg-slate-900 flex items-center gap-2 text-sm">
+                        {editingTag === tag ? (
+                          <>
+                            <input
+                              value={editName}
+                              onChange={e => setEditName(e.target.value)}
+                              className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                            />
+                            <button onClick={handleRename} className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700">Save</button>
+                            <button
+                              onClick={() => setEditingTag(null)}
+                              className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : mergeTag === tag ? (
+                          <>
+                            <span className="font-medium">Merge "{tag}" into</span>
+                            <select
+                              value={mergeTarget}
+                              onChange={e => setMergeTarget(e.target.value)}
+                              className="flex-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900"
+                            >
+                              <option value="">Select...</option>
+                              {tags.filter(t => t !== tag).map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                            <button
+                              onClick={handleMerge}
+                              disabled={!mergeTarget}
+                              className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Merge
+                            </button>
+                            <button
+                              onClick={() => setMergeTag(null)}
+                              className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <span
+                              className="px-1.5 py-0.5 rounded text-slate-700 dark:text-slate-300 truncate"
+                              style={{ backgroundColor: colors.fill, border: `1px solid ${colors.stroke}` }}
+                            >
+                              {tag}
+                            </span>
+                            <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">
+                              {usage.get(tag)} item{usage.get(tag) === 1 ? '' : 's'}
+                            </span>
+                            <input
+                              list="tag-categories"
+                              value={structured ? parseTag(tag).category : (categoryDrafts[tag] ?? definition?.category ?? '')}
+                              disabled={structured}
+                              title={structured ? 'Structured tags take their category from the part before the colon' : 'Category'}
+                              onChange={e => setCategoryDrafts(d => ({ ...d, [tag]: e.target.value }))}
+                              onBlur={() => handleCategoryCommit(tag)}
+                              onKeyDown={e => { if (e.key === 'Enter') handleCategoryCommit(tag) }}
+                              placeholder="Category"
+                              className="ml-auto w-36 px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-transparent disabled:opacity-60"
+                            />
+                            <input
+                              type="color"
+                              value={definition?.color || '#94a3b8'}
+                              onChange={e => handleColorChange(tag, e.target.value)}
+                              title="Colour"
+                              className="h-7 w-10 rounded border border-slate-300 dark:border-slate-700 bg-transparent"
+                            />
+                            {definition?.color && (
+                              <button
+                                onClick={() => handleColorChange(tag, undefined)}
+                                title="Use the automatic colour"
+                                className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                              >
+                                Auto
+                              </button>
+                            )}
+                            <button
+                              onClick={() => { setEditingTag(tag); setEditName(tag) }}
+                              className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                            >
+                              Rename
+                            </button>
+                            <button
+                              onClick={() => { setMergeTag(tag); setMergeTarget('') }}
+                              className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                            >
+                              Merge
+                            </button>
+                            <button
+                              onClick={() => handleDelete(tag)}
+                              className="px-2 py-1 rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
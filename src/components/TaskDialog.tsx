@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { db, getAllPeopleNames, getAllItemNames } from '../db'
+import { db, getAllPeopleNames, getAllItemNames, resolvePersonId } from '../db'
 import { type Task } from '../types'
 import { Modal } from './Modal'
 import { AutocompleteInput } from './AutocompleteInput'
@@ -104,6 +104,7 @@ export function TaskDialog({ open, onClose, onSaved, initialAssignedTo, initialI
       meetingNoteId: undefined, // Standalone task
       description: description.trim(),
       assignedTo: assignedTo.trim() || undefined,
+      assignedToId: await resolvePersonId(assignedTo),
       itemReferences: itemIds,
       completedAt: task?.completedAt,
       createdAt: task?.createdAt || now,
@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from 'react'
 import { db, getAllItemNames } from '../db'
 import { type Task, type MeetingNote, LENSES } from '../types'
 import { TaskDialog } from './TaskDialog'
+import { buildSearchIndex, matchingIds, type SearchDocument } from '../utils/search'
 
 type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes' | 'settings' | 'tasks'
 
@@ -20,6 +21,7 @@ export function TasksModal({ onEditPerson, onOpenMeetingNote }: TasksModalProps)
   const [showIncompleteOnly, setShowIncompleteOnly] = useState(false)
   const [groupBy, setGroupBy] = useState<GroupBy>('person')
   const [searchQuery, setSearchQuery] = useState('')
+  const [searchIndex, setSearchIndex] = useState<SearchDocument[]>([])
   const [taskDialogOpen, setTaskDialogOpen] = useState(false)
   const [editingTask, setEditingTask] = useState<Task | null>(null)
 
@@ -28,12 +30,14 @@ export function TasksModal({ onEditPerson, onOpenMeetingNote }: TasksModalProps)
   }, [])
 
   async function loadData() {
-    const [allTasks, allNotes, itemNames] = await Promise.all([
+    const [allTasks, allNotes, itemNames, index] = await Promise.all([
       db.tasks.toArray(),
       db.meetingNotes.toArray(),
       getAllItemNames(),
+      buildSearchIndex(),
     ])
     setTasks(allTasks)
+    setSearchIndex(index)
     setMeetingNotes(allNotes)
     
     // Build item map
@@ -55,32 +59,9 @@ export function TasksModal({ onEditPerson, onOpenMeetingNote }: TasksModalProps)
     }
 
     // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter(task => {
-        // Search in description
-        if (task.description && task.description.toLowerCase().includes(query)) return true
-        
-        // Search in assigned person
-        if (task.assignedTo && task.assignedTo.toLowerCase().includes(query)) return true
-        
-        // Search in item names
-        if (task.itemReferences && task.itemReferences.length > 0) {
-          const itemNames = task.itemReferences
-            .map(id => itemMap.get(id))
-            .filter(Boolean)
-            .map(item => `${lensLabel(item!.lens)}: ${item!.name}`.toLowerCase())
-          if (itemNames.some(name => name.includes(query))) return true
-        }
-        
-        // Search in meeting note title
-        if (task.meetingNoteId) {
-          const note = meetingNotes.find(n => n.id === task.meetingNoteId)
-          if (note && note.title && note.title.toLowerCase().includes(query)) return true
-        }
-        
-        return false
-      })
+    const matches = matchingIds(searchIndex, searchQuery, 'task')
+    if (matches) {
+      filtered = filtered.filter(task => matches.has(task.id!))
     }
 
     // Group tasks
@@ -120,7 +101,7 @@ export function TasksModal({ onEditPerson, onOpenMeetingNote }: TasksModalProps)
       })
       return groups
     }
-  }, [tasks, showIncompleteOnly, groupBy, searchQuery, itemMap, meetingNotes])
+  }, [tasks, showIncompleteOnly, groupBy, searchQuery, searchIndex, itemMap])
 
   async function handleToggleTaskComplete(task: Task) {
     const now = Date.now()
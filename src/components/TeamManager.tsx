@@ -1,7 +1,9 @@
 import { useEffect, useState, useMemo } from 'react'
-import { db } from '../db'
+import { db, personKey, renamePerson, resolvePersonId } from '../db'
 import { type TeamMember, type MeetingNote, type Task, LENSES, type ItemRecord, type TeamType } from '../types'
 import { TaskDialog } from './TaskDialog'
+import { HistoryPanel } from './HistoryPanel'
+import { trashTeamMember } from '../utils/trash'
 type ViewType = 'main' | 'diagram' | 'architects' | 'stakeholders' | 'manage-team' | 'meeting-notes'
 
 interface TeamManagerProps {
@@ -25,6 +27,7 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
   const [allItems, setAllItems] = useState<ItemRecord[]>([])
   const [taskDialogOpen, setTaskDialogOpen] = useState(false)
   const [editingTask, setEditingTask] = useState<Task | null>(null)
+  const [detailsTab, setDetailsTab] = useState<'details' | 'history'>('details')
 
   useEffect(() => {
     loadMembers().then(async () => {
@@ -132,9 +135,16 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
     const now = Date.now()
     try {
       if (editingId) {
+        const clash = members.find(m => m.id !== editingId && personKey(m.name) === personKey(name))
+        if (clash) {
+          alert('A team member with this name already exists')
+          return
+        }
+        // Renaming updates every item, task, note and report that references this person
+        await renamePerson(editingId, name)
         await db.teamMembers.update(editingId, {
-          name: name.trim(),
           manager: manager.trim() || undefined,
+          managerId: await resolvePersonId(manager),
           team: team,
           updatedAt: now,
         })
@@ -148,6 +158,7 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
         await db.teamMembers.add({
           name: name.trim(),
           manager: manager.trim() || undefined,
+          managerId: await resolvePersonId(manager),
           team: team,
           createdAt: now,
           updatedAt: now,
@@ -171,13 +182,14 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
   }
 
   async function deleteMember(id: number) {
-    if (!confirm('Delete this team member?')) return
-    await db.teamMembers.delete(id)
+    if (!confirm('Delete this team member? They can be restored from the Trash.')) return
+    await trashTeamMember(id)
     await loadMembers()
   }
 
   async function startEdit(member: TeamMember) {
     setEditingId(member.id!)
+    setDetailsTab('details')
     setName(member.name)
     setManager(member.manager || '')
     setTeam(member.team || 'Architecture')
@@ -187,11 +199,26 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
 
   function cancelEdit() {
     setEditingId(null)
+    setDetailsTab('details')
     setName('')
     setManager('')
     setTeam('Architecture')
   }
 
+  async function handleHistoryReverted() {
+    if (!editingId) return
+    const member = await db.teamMembers.get(editingId)
+    await loadMembers()
+    onSaved?.()
+    if (member) {
+      setName(member.name)
+      setManager(member.manager || '')
+      setTeam(member.team || 'Architecture')
+    } else {
+      cancelEdit()
+    }
+  }
+
   // Get unique manager names for autocomplete
   const managerOptions = Array.from(new Set(members.map(m => m.manager).filter(Boolean)))
 
@@ -220,7 +247,14 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
     const items: Array<{ name: string; lens: string }> = []
     allItems.forEach(item => {
       const personNameLower = personName.toLowerCase()
+      const linked = editingId !== null && (
+        item.primaryArchitectId === editingId ||
+        !!item.secondaryArchitectIds?.includes(editingId) ||
+        item.businessContactId === editingId ||
+        item.techContactId === editingId
+      )
       if (
+        linked ||
         item.primaryArchitect?.toLowerCase() === personNameLower ||
         item.secondaryArchitects.some(arch => arch.trim().toLowerCase() === personNameLower) ||
         item.businessContact?.toLowerCase() === personNameLower ||
@@ -235,7 +269,7 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
       if (a.lens !== b.lens) return a.lens.localeCompare(b.lens)
       return a.name.localeCompare(b.name)
     })
-  }, [name, initialPersonName, allItems])
+  }, [name, initialPersonName, allItems, editingId])
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 dark:bg-slate-900">
@@ -333,6 +367,28 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
 
         {/* Right side: Team Member Details */}
         <div className="flex-1 flex flex-col min-h-0 overflow-y-auto">
+          {editingId && (
+            <div className="flex gap-1 mb-3 border-b border-slate-200 dark:border-slate-800">
+              {(['details', 'history'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setDetailsTab(tab)}
+                  className={`px-3 py-1.5 text-sm -mb-px border-b-2 ${
+                    detailsTab === tab
+                      ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                      : 'border-transparent text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100'
+                  }`}
+                >
+                  {tab === 'details' ? 'Details' : 'History'}
+                </button>
+              ))}
+            </div>
+          )}
+          {editingId && detailsTab === 'history' ? (
+            <div className="border border-slate-200 dark:border-slate-800 rounded p-4">
+              <HistoryPanel table="teamMembers" recordId={editingId} onReverted={handleHistoryReverted} />
+            </div>
+          ) : (
           <div className="border border-slate-200 dark:border-slate-800 rounded p-4">
             <h4 className="font-medium mb-3">
               {editingId ? 'Edit Team Member' : 'Add Team Member'}
@@ -557,6 +613,7 @@ export function TeamManager({ initialPersonName, onSaved, onOpenMeetingNote, onN
               </div>
             )}
           </div>
+          )}
         </div>
       </div>
       <TaskDialog
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react'
+import { db } from '../db'
+import type { TrashEntry, TrashKind } from '../types'
+import {
+  emptyTrash,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  purgeTrashEntry,
+  restoreTrashEntry,
+  saveTrashRetentionDays,
+} from '../utils/trash'
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  item: 'Item',
+  lens: 'Lens',
+  meetingNote: 'Meeting note',
+  teamMember: 'Team member',
+}
+
+function describeDependents(entry: TrashEntry): string[] {
+  const parts: string[] = []
+  const count = (n: number | undefined, singular: string, plural: string) => {
+    if (n) parts.push(`${n} ${n === 1 ? singular : plural}`)
+  }
+  if (entry.kind === 'lens') count(entry.items?.length, 'item', 'items')
+  count(entry.relationships?.length, 'relationship', 'relationships')
+  count(entry.tasks?.length, 'task', 'tasks')
+  count(entry.taskItemReferences?.length, 'task reference', 'task references')
+  count(entry.noteRelatedItems?.length, 'note reference', 'note references')
+  return parts
+}
+
+export function TrashView() {
+  const [entries, setEntries] = useState<TrashEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays())
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  async function loadEntries() {
+    const all = await db.trash.orderBy('deletedAt').reverse().toArray()
+    setEntries(all)
+  }
+
+  async function handleRestore(entry: TrashEntry) {
+    try {
+      await restoreTrashEntry(entry.id!)
+    } catch (e) {
+      alert(`Could not restore: ${e instanceof Error ? e.message : String(e)}`)
+      return
+    }
+    if (entry.kind === 'lens') {
+      window.dispatchEvent(new CustomEvent('lensesUpdated'))
+    }
+    await loadEntries()
+  }
+
+  async function handlePurge(entry: TrashEntry) {
+    if (!confirm(`Permanently delete "${entry.label}"? This cannot be undone.`)) return
+    await purgeTrashEntry(entry.id!)
+    await loadEntries()
+  }
+
+  async function handleEmptyTrash() {
+    if (!confirm('Permanently delete everything in the trash? This cannot be undone.')) return
+    await emptyTrash()
+    await loadEntries()
+  }
+
+  function handleRetentionChange(days: number) {
+    if (!(days > 0)) return
+    setRetentionDays(days)
+    saveTrashRetentionDays(days)
+  }
+
+  async function handlePurgeExpired() {
+    const removed = await purgeExpiredTrash()
+    alert(`Removed ${removed} expired entr${removed === 1 ? 'y' : 'ies'}.`)
+    await loadEntries()
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 dark:bg-slate-900">
+      <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex items-center gap-3">
+        <h1 className="text-xl font-semibold">Trash</h1>
+        <div className="ml-auto flex items-center gap-2 text-sm">
+          <label className="flex items-center gap-1">
+            Keep for
+            <input
+              type="number"
+              min={1}
+              value={retentionDays}
+              onChange={e => handleRetentionChange(Number(e.target.value))}
+              className="w-16 px-2 py-1 rounded border border-slate-300 dark:border-slate-700"
+            />
+            days
+          </label>
+          <button
+            onClick={handlePurgeExpired}
+            className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+          >
+            Purge expired
+          </button>
+          <button
+            onClick={handleEmptyTrash}
+            disabled={entries.length === 0}
+            className="px-2 py-1 rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Empty trash
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Trash is empty</p>
+        ) : (
+          <div className="max-w-3xl space-y-2">
+            {entries.map(entry => {
+              const dependents = describeDependents(entry)
+              const expanded = expandedId === entry.id
+              return (
+                <div key={entry.id} className="p-3 border border-slate-200 dark:border-slate-800 rounded bg-white dark:bg-slate-900">
+                  <div className="flex items-center gap-2">
+                    <span className="px-1.5 py-0.5 rounded text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+                      {KIND_LABELS[entry.kind]}
+                    </span>
+                    <span className="font-medium truncate">{entry.label}</span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400 ml-auto flex-shrink-0">
+                      Deleted {new Date(entry.deletedAt).toLocaleString()}
+                    </span>
+                    <button
+                      onClick={() => handleRestore(entry)}
+                      className="px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 flex-shrink-0"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handlePurge(entry)}
+                      className="px-2 py-1 text-sm rounded border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 flex-shrink-0"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  {dependents.length > 0 && (
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : entry.id!)}
+                      className="mt-1 text-xs text-slate-500 dark:text-slate-400 hover:underline"
+                    >
+                      {expanded ? '▾' : '▸'} With {dependents.join(', ')}
+                    </button>
+                  )}
+                  {expanded && (
+                    <ul className="mt-1 ml-4 text-xs text-slate-600 dark:text-slate-400 list-disc">
+                      {entry.kind === 'lens' && entry.items?.map(item => (
+                        <li key={`item-${item.id}`}>Item: {item.name}</li>
+                      ))}
+                      {entry.tasks?.map(task => (
+                        <li key={`task-${task.id}`}>Task: {task.description}</li>
+                      ))}
+                      {(entry.relationships?.length || 0) > 0 && (
+                        <li>{entry.relationships!.length} relationship row{entry.relationships!.length === 1 ? '' : 's'}</li>
+                      )}
+                      {entry.taskItemReferences?.map(ref => (
+                        <li key={`task-ref-${ref.taskId}`}>Referenced by task #{ref.taskId}</li>
+                      ))}
+                      {entry.noteRelatedItems?.map(ref => (
+                        <li key={`note-ref-${ref.noteId}`}>Related to meeting note #{ref.noteId}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
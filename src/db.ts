@@ -1,17 +1,28 @@
-import Dexie, { type Table } from 'dexie'
-import type { ItemRecord, RelationshipRecord, TeamMember, MeetingNote, Task, LensDefinition, LensKey } from './types'
-import { DEFAULT_LENSES } from './types'
+import Dexie, { type DBCore, type DBCoreRangeType, type DBCoreTable, type Table, type Transaction } from 'dexie'
+import type { ItemRecord, RelationshipRecord, TeamMember, MeetingNote, Task, LensDefinition, LensKey, HistoryEntry, HistoryTable, HistoryFieldChange, TeamType, TrashEntry, RelationshipTypeDefinition, SavedFilter, Scenario, ScenarioTable, TagDefinition, DataQualityRule } from './types'
+import { DEFAULT_DATA_QUALITY_RULES, DEFAULT_LENSES, DEFAULT_RELATIONSHIP_TYPES, reverseRelationship } from './types'
+import { getActiveWorkspaceId, workspaceDatabaseName, workspaceStorage } from './utils/workspaceStorage'
 
-class ArchLensesDB extends Dexie {
+export class ArchLensesDB extends Dexie {
   items!: Table<ItemRecord, number>
   relationships!: Table<RelationshipRecord, number>
   teamMembers!: Table<TeamMember, number>
   meetingNotes!: Table<MeetingNote, number>
   tasks!: Table<Task, number>
   lenses!: Table<LensDefinition, number>
+  history!: Table<HistoryEntry, number>
+  trash!: Table<TrashEntry, number>
+  relationshipTypes!: Table<RelationshipTypeDefinition, number>
+  scenarios!: Table<Scenario, number>
+  // Working copy of the active scenario; see scenario routing below
+  scenarioItems!: Table<ItemRecord, number>
+  scenarioRelationships!: Table<RelationshipRecord, number>
+  tagDefinitions!: Table<TagDefinition, number>
+  savedFilters!: Table<SavedFilter, number>
+  dataQualityRules!: Table<DataQualityRule, number>
 
-  constructor() {
-    super('arch-lenses-db')
+  constructor(name = workspaceDatabaseName(getActiveWorkspaceId())) {
+    super(name)
     this.version(1).stores({
       // lens+name unique compound index, and by lens for queries
       items: '++id, &[lens+name], lens, name, updatedAt',
@@ -204,11 +215,389 @@ class ArchLensesDB extends Dexie {
       tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
       lenses: '++id, key, order, updatedAt',
     })
+    // Version 19: Add customFields to lenses (schema) and items (values) (no index change)
+    this.version(19).stores({
+      items: '++id, &[lens+name], lens, name, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+    })
+    // Version 20: Add change history (audit log) table
+    this.version(20).stores({
+      items: '++id, &[lens+name], lens, name, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+    })
+    // Version 21: Reference people by TeamMember id (resolve existing names, creating members as needed)
+    this.version(21).stores({
+      items: '++id, &[lens+name], lens, name, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+    }).upgrade(async tx => {
+      await linkPeople({
+        teamMembers: tx.table('teamMembers'),
+        items: tx.table('items'),
+        tasks: tx.table('tasks'),
+        meetingNotes: tx.table('meetingNotes'),
+      })
+    })
+    // Version 22: Add recycle bin (trash) table
+    this.version(22).stores({
+      items: '++id, &[lens+name], lens, name, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+    })
+    // Version 23: Store each relationship once instead of as a mirrored pair
+    this.version(23).stores({
+      items: '++id, &[lens+name], lens, name, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+    }).upgrade(async tx => {
+      const relationships = tx.table<RelationshipRecord, number>('relationships')
+      const history = tx.table<HistoryEntry, number>('history')
+      const { folded } = collapseRelationshipPairs(await relationships.toArray())
+      for (const rel of new Set(folded.map(f => f.into))) {
+        await relationships.put(rel)
+      }
+      for (const { rel, into } of folded) {
+        await relationships.delete(rel.id!)
+        // Keep the dropped row's history, expressed from the kept row's side
+        const reversed = rel.fromItemId !== into.fromItemId
+        await history.where('[table+recordId]').equals(['relationships', rel.id!]).modify(entry => {
+          entry.recordId = into.id!
+          if (!reversed) return
+          entry.itemIds = [...entry.itemIds].reverse()
+          if (entry.snapshot) entry.snapshot = { ...reverseRelationship(entry.snapshot as unknown as RelationshipRecord), id: into.id }
+          entry.changes = entry.changes.map(c => ({ ...c, field: swapSideField(c.field) }))
+        })
+      }
+    })
+    // Version 24: Add user-defined relationship types
+    this.version(24).stores({
+      items: '++id, &[lens+name], lens, name, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+      relationshipTypes: '++id, &name, order',
+    })
+    // Version 25: Reference parents by item id (create items for parent names that have none)
+    this.version(25).stores({
+      items: '++id, &[lens+name], lens, name, parentId, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+      relationshipTypes: '++id, &name, order',
+    }).upgrade(async tx => {
+      await linkParents(tx.table('items'))
+    })
+    // Version 26: Add what-if scenarios and the working copy of the active one
+    this.version(26).stores({
+      items: '++id, &[lens+name], lens, name, parentId, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+      relationshipTypes: '++id, &name, order',
+      scenarios: '++id, &name',
+      scenarioItems: '++id, &[lens+name], lens, name, parentId, updatedAt',
+      scenarioRelationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+    })
+    // Version 27: Index item tags and add tag colours and categories
+    this.version(27).stores({
+      items: '++id, &[lens+name], lens, name, parentId, *tags, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+      relationshipTypes: '++id, &name, order',
+      scenarios: '++id, &name',
+      scenarioItems: '++id, &[lens+name], lens, name, parentId, *tags, updatedAt',
+      scenarioRelationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      tagDefinitions: '++id, &name, category',
+    })
+    // Version 28: Add saved filters
+    this.version(28).stores({
+      items: '++id, &[lens+name], lens, name, parentId, *tags, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+      relationshipTypes: '++id, &name, order',
+      scenarios: '++id, &name',
+      scenarioItems: '++id, &[lens+name], lens, name, parentId, *tags, updatedAt',
+      scenarioRelationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      tagDefinitions: '++id, &name, category',
+      savedFilters: '++id, &name',
+    })
+    // Version 29: Add data-quality rules
+    this.version(29).stores({
+      items: '++id, &[lens+name], lens, name, parentId, *tags, updatedAt',
+      relationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      teamMembers: '++id, name, manager, team, updatedAt',
+      meetingNotes: '++id, dateTime, createdAt, updatedAt',
+      tasks: '++id, meetingNoteId, assignedTo, completedAt, createdAt, updatedAt',
+      lenses: '++id, key, order, updatedAt',
+      history: '++id, [table+recordId], *itemIds, timestamp',
+      trash: '++id, kind, deletedAt',
+      relationshipTypes: '++id, &name, order',
+      scenarios: '++id, &name',
+      scenarioItems: '++id, &[lens+name], lens, name, parentId, *tags, updatedAt',
+      scenarioRelationships: '++id,[fromItemId+toItemId],fromLens,fromItemId,toLens,toItemId',
+      tagDefinitions: '++id, &name, category',
+      savedFilters: '++id, &name',
+      dataQualityRules: '++id, lens',
+    })
   }
 }
 
 export const db = new ArchLensesDB()
 
+// --- Scenario routing ---------------------------------------------------------
+// While a what-if scenario is active, items and relationships are read from and
+// written to its working copy (scenarioItems, scenarioRelationships) instead of
+// the baseline tables, so every view shows the scenario without knowing about it.
+// utils/scenarios.ts builds the working copy and records its changes.
+
+const SCENARIO_WORKING_TABLES: Record<ScenarioTable, string> = {
+  items: 'scenarioItems',
+  relationships: 'scenarioRelationships',
+}
+const ACTIVE_SCENARIO_KEY = 'active-scenario-id'
+
+function loadActiveScenarioId(): number | null {
+  try {
+    const saved = Number(workspaceStorage.getItem(ACTIVE_SCENARIO_KEY))
+    return saved > 0 ? saved : null
+  } catch (e) {
+    console.error('Failed to load active scenario:', e)
+    return null
+  }
+}
+
+let activeScenarioId = loadActiveScenarioId()
+let baselineCore: DBCore | null = null
+
+export function getActiveScenarioId(): number | null {
+  return activeScenarioId
+}
+
+// Switch routing only; the working copy must already hold the scenario
+export function setActiveScenarioId(id: number | null): void {
+  activeScenarioId = id
+  try {
+    if (id === null) workspaceStorage.removeItem(ACTIVE_SCENARIO_KEY)
+    else workspaceStorage.setItem(ACTIVE_SCENARIO_KEY, String(id))
+  } catch (e) {
+    console.error('Failed to save active scenario:', e)
+  }
+}
+
+db.use({
+  stack: 'dbcore',
+  name: 'scenarioRouting',
+  create(down) {
+    baselineCore = down
+    return {
+      ...down,
+      // Working tables are always in scope so routing can't change under a running transaction
+      transaction(stores, mode, options) {
+        const scoped = stores.flatMap(name => name in SCENARIO_WORKING_TABLES ? [name, SCENARIO_WORKING_TABLES[name as ScenarioTable]] : [name])
+        return down.transaction(Array.from(new Set(scoped)), mode, options)
+      },
+      table(name) {
+        const baseline = down.table(name)
+        if (!(name in SCENARIO_WORKING_TABLES)) return baseline
+        const working = down.table(SCENARIO_WORKING_TABLES[name as ScenarioTable])
+        const target = (): DBCoreTable => activeScenarioId !== null ? working : baseline
+        return {
+          ...baseline,
+          get: req => target().get(req),
+          getMany: req => target().getMany(req),
+          query: req => target().query(req),
+          openCursor: req => target().openCursor(req),
+          count: req => target().count(req),
+          mutate: req => target().mutate(req),
+        }
+      },
+    }
+  },
+})
+
+// All baseline records of a table, whichever scenario is active
+export async function readBaseline<T>(table: ScenarioTable): Promise<T[]> {
+  await ensureDbReady()
+  const core = baselineCore!
+  const trans = core.transaction([table], 'readonly')
+  const tableCore = core.table(table)
+  // 3 is DBCoreRangeType.Any; the enum is const and can't be imported as a value
+  const { result } = await tableCore.query({
+    trans,
+    values: true,
+    query: { index: tableCore.schema.primaryKey, range: { type: 3 as DBCoreRangeType, lower: undefined, upper: undefined } },
+  })
+  return result as T[]
+}
+
+// --- Change history ---------------------------------------------------------
+// Every create/update/delete on the tables below is recorded in db.history via
+// Dexie hooks. Entries are buffered per transaction and written once it
+// commits, so a failed write never leaves a history entry behind.
+
+const HISTORY_TABLES: HistoryTable[] = ['items', 'relationships', 'teamMembers', 'meetingNotes', 'tasks']
+// Bookkeeping fields that change on every save and are not worth a diff line
+const HISTORY_IGNORED_FIELDS = new Set(['updatedAt'])
+const pendingHistory = new WeakMap<Transaction, HistoryEntry[]>()
+
+type HistoryRecord = { fromItemId?: number; toItemId?: number; itemReferences?: number[]; relatedItems?: number[] }
+
+function historyItemIds(table: HistoryTable, record: HistoryRecord, recordId: number): number[] {
+  if (table === 'items') return [recordId]
+  if (table === 'relationships') return [record.fromItemId, record.toItemId].filter((id): id is number => typeof id === 'number')
+  if (table === 'tasks') return record.itemReferences || []
+  if (table === 'meetingNotes') return record.relatedItems || []
+  return []
+}
+
+function queueHistory(trans: Transaction, entry: HistoryEntry) {
+  // Schema upgrades rewrite records in bulk; those are not user changes
+  if (trans.mode === 'versionchange') return
+  // Scenario edits are recorded as the scenario's changes instead
+  if (activeScenarioId !== null && entry.table in SCENARIO_WORKING_TABLES) return
+  let pending = pendingHistory.get(trans)
+  if (!pending) {
+    pending = []
+    pendingHistory.set(trans, pending)
+    const entries = pending
+    trans.on('complete', () => {
+      writeHistory(entries, Date.now()).catch(err => {
+        console.error('Failed to record change history:', err)
+      })
+    })
+  }
+  pending.push(entry)
+}
+
+// Fields edited keystroke by keystroke (e.g. relationship notes) would otherwise
+// produce one entry per character; successive edits of the same fields on the
+// same record within this window are folded into a single entry.
+const HISTORY_COALESCE_MS = 60 * 1000
+
+async function writeHistory(entries: HistoryEntry[], timestamp: number) {
+  await db.transaction('rw', db.history, async () => {
+    for (const entry of entries) {
+      if (entry.action === 'update') {
+        const last = await db.history.where('[table+recordId]').equals([entry.table, entry.recordId]).last()
+        const sameFields = last?.action === 'update'
+          && last.changes.length === entry.changes.length
+          && entry.changes.every(c => last.changes.some(lc => lc.field === c.field))
+        if (last?.id && sameFields && timestamp - last.timestamp < HISTORY_COALESCE_MS) {
+          const changes = last.changes
+            .map(lc => ({ ...lc, after: entry.changes.find(c => c.field === lc.field)!.after }))
+            .filter(c => JSON.stringify(c.before) !== JSON.stringify(c.after))
+          if (changes.length > 0) {
+            await db.history.update(last.id, { changes, timestamp })
+          } else {
+            await db.history.delete(last.id)
+          }
+          continue
+        }
+      }
+      await db.history.add({ ...entry, timestamp })
+    }
+  })
+}
+
+function diffRecord(before: object, mods: Record<string, unknown>): HistoryFieldChange[] {
+  const changes: HistoryFieldChange[] = []
+  Object.keys(mods).forEach(field => {
+    if (HISTORY_IGNORED_FIELDS.has(field)) return
+    const previous = Dexie.getByKeyPath(before, field)
+    const next = mods[field]
+    if (JSON.stringify(previous) === JSON.stringify(next)) return
+    changes.push({ field, before: previous, after: next })
+  })
+  return changes
+}
+
+HISTORY_TABLES.forEach(tableName => {
+  const table = db.table<HistoryRecord, number>(tableName)
+  table.hook('creating', function (_primKey, obj, trans) {
+    this.onsuccess = primKey => {
+      queueHistory(trans, {
+        table: tableName,
+        recordId: primKey,
+        action: 'create',
+        changes: [],
+        snapshot: { ...obj, id: primKey },
+        itemIds: historyItemIds(tableName, obj, primKey),
+        timestamp: 0,
+      })
+    }
+  })
+  table.hook('updating', function (mods, primKey, obj, trans) {
+    const changes = diffRecord(obj, mods as Record<string, unknown>)
+    if (changes.length === 0) return
+    queueHistory(trans, {
+      table: tableName,
+      recordId: primKey,
+      action: 'update',
+      changes,
+      itemIds: historyItemIds(tableName, obj, primKey),
+      timestamp: 0,
+    })
+  })
+  table.hook('deleting', function (primKey, obj, trans) {
+    queueHistory(trans, {
+      table: tableName,
+      recordId: primKey,
+      action: 'delete',
+      changes: [],
+      snapshot: { ...obj },
+      itemIds: historyItemIds(tableName, obj, primKey),
+      timestamp: 0,
+    })
+  })
+})
+
+const DATA_QUALITY_SEEDED_KEY = 'data-quality-rules-seeded'
+
 export async function seedIfEmpty(): Promise<void> {
   // Seed lenses if empty
   const lensCount = await db.lenses.count()
@@ -222,6 +611,26 @@ export async function seedIfEmpty(): Promise<void> {
     }))
     await db.lenses.bulkAdd(defaultLenses)
   }
+
+  // Seed relationship types if empty
+  if (await db.relationshipTypes.count() === 0) {
+    const now = Date.now()
+    await db.relationshipTypes.bulkAdd(DEFAULT_RELATIONSHIP_TYPES.map((type, idx) => ({
+      ...type,
+      order: idx,
+      createdAt: now,
+      updatedAt: now,
+    })))
+  }
+  
+  // Seed data-quality rules once, so that deleting them all sticks
+  if (!workspaceStorage.getItem(DATA_QUALITY_SEEDED_KEY)) {
+    if (await db.dataQualityRules.count() === 0) {
+      const now = Date.now()
+      await db.dataQualityRules.bulkAdd(DEFAULT_DATA_QUALITY_RULES.map(rule => ({ ...rule, createdAt: now, updatedAt: now })))
+    }
+    workspaceStorage.setItem(DATA_QUALITY_SEEDED_KEY, 'true')
+  }
   
   const count = await db.items.count()
   if (count > 0) return
@@ -240,21 +649,232 @@ export async function getLensByKey(key: LensKey): Promise<LensDefinition | undef
   return await db.lenses.where('key').equals(key).first()
 }
 
-// Helper function to get all people names (team members + stakeholders from items)
+// --- People -------------------------------------------------------------------
+// People are referenced by TeamMember id (primaryArchitectId, assignedToId, ...).
+// The matching name fields are display copies that renamePerson keeps in sync.
+
+type PersonTables = {
+  teamMembers: Table<TeamMember, number>
+  items: Table<ItemRecord, number>
+  tasks: Table<Task, number>
+  meetingNotes: Table<MeetingNote, number>
+}
+
+export interface PersonLookup {
+  byId: Map<number, TeamMember>
+  byName: Map<string, TeamMember> // keyed by personKey(name)
+}
+
+// Names are matched case-insensitively, ignoring surrounding whitespace
+export function personKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+export function splitParticipants(participants: string): string[] {
+  return participants.split(',').map(p => p.trim()).filter(Boolean)
+}
+
+export async function getPersonLookup(): Promise<PersonLookup> {
+  const members = await db.teamMembers.toArray()
+  return {
+    byId: new Map(members.map(m => [m.id!, m])),
+    byName: new Map(members.map(m => [personKey(m.name), m])),
+  }
+}
+
+// Resolve every person reference to a TeamMember id, creating members for
+// names that have none. A stored id is kept only while it still points at a
+// member with the same name, so this is safe to re-run after an import.
+async function linkPeople(tables: PersonTables): Promise<void> {
+  const now = Date.now()
+  const members = await tables.teamMembers.toArray()
+  const byId = new Map(members.map(m => [m.id!, m]))
+  const byName = new Map(members.map(m => [personKey(m.name), m]))
+
+  async function resolve(name: string | undefined, team: TeamType, currentId?: number): Promise<number | undefined> {
+    if (!name?.trim()) return undefined
+    const key = personKey(name)
+    const linked = currentId !== undefined ? byId.get(currentId) : undefined
+    if (linked && personKey(linked.name) === key) return currentId
+    const existing = byName.get(key)
+    if (existing) return existing.id
+    const member: TeamMember = { name: name.trim(), team, createdAt: now, updatedAt: now }
+    member.id = await tables.teamMembers.add(member)
+    byId.set(member.id, member)
+    byName.set(key, member)
+    return member.id
+  }
+
+  for (const item of await tables.items.toArray()) {
+    const ids = {
+      businessContactId: await resolve(item.businessContact, 'Business Stakeholder', item.businessContactId),
+      techContactId: await resolve(item.techContact, 'Tech Stakeholder', item.techContactId),
+      primaryArchitectId: await resolve(item.primaryArchitect, 'Architecture', item.primaryArchitectId),
+      architectureManagerId: await resolve(item.architectureManager, 'Architecture', item.architectureManagerId),
+      secondaryArchitectIds: [] as number[],
+    }
+    const secondaryNames = item.secondaryArchitects || []
+    for (let i = 0; i < secondaryNames.length; i++) {
+      const id = await resolve(secondaryNames[i], 'Architecture', item.secondaryArchitectIds?.[i])
+      if (id !== undefined) ids.secondaryArchitectIds.push(id)
+    }
+    const current = {
+      businessContactId: item.businessContactId,
+      techContactId: item.techContactId,
+      primaryArchitectId: item.primaryArchitectId,
+      architectureManagerId: item.architectureManagerId,
+      secondaryArchitectIds: item.secondaryArchitectIds || [],
+    }
+    if (JSON.stringify(ids) !== JSON.stringify(current)) {
+      await tables.items.update(item.id!, ids)
+    }
+  }
+
+  for (const task of await tables.tasks.toArray()) {
+    const assignedToId = await resolve(task.assignedTo, 'Architecture', task.assignedToId)
+    if (assignedToId !== task.assignedToId) {
+      await tables.tasks.update(task.id!, { assignedToId })
+    }
+  }
+
+  for (const note of await tables.meetingNotes.toArray()) {
+    const names = splitParticipants(note.participants || '')
+    const participantIds: number[] = []
+    for (const name of names) {
+      const id = await resolve(name, 'Architecture')
+      if (id !== undefined) participantIds.push(id)
+    }
+    if (JSON.stringify(participantIds) !== JSON.stringify(note.participantIds || [])) {
+      await tables.meetingNotes.update(note.id!, { participantIds })
+    }
+  }
+
+  for (const member of members) {
+    const managerId = await resolve(member.manager, 'Architecture', member.managerId)
+    if (managerId !== member.managerId) {
+      await tables.teamMembers.update(member.id!, { managerId })
+    }
+  }
+}
+
+// Re-link all person references, e.g. after importing data
+export async function linkPersonReferences(): Promise<void> {
+  await db.transaction('rw', [db.teamMembers, db.items, db.tasks, db.meetingNotes], async () => {
+    await linkPeople(db)
+  })
+}
+
+// Resolve every parent name to an item id in the same lens, creating items for
+// names that have none. A stored parentId is kept while it still points at an
+// item in the same lens, and the parent name is refreshed from it.
+async function linkParents(items: Table<ItemRecord, number>): Promise<void> {
+  const now = Date.now()
+  const all = await items.toArray()
+  const byId = new Map(all.map(i => [i.id!, i]))
+  const byName = new Map(all.map(i => [`${i.lens}\u0000${i.name.toLowerCase()}`, i]))
+
+  for (const item of all) {
+    const linked = item.parentId !== undefined ? byId.get(item.parentId) : undefined
+    if (linked && linked.lens === item.lens && linked.id !== item.id) {
+      if (item.parent !== linked.name) await items.update(item.id!, { parent: linked.name })
+      continue
+    }
+    const name = item.parent?.trim()
+    if (!name) {
+      if (item.parentId !== undefined) await items.update(item.id!, { parentId: undefined, parent: undefined })
+      continue
+    }
+    const key = `${item.lens}\u0000${name.toLowerCase()}`
+    let parent = byName.get(key)
+    if (!parent) {
+      parent = { lens: item.lens, name, secondaryArchitects: [], tags: [], createdAt: now, updatedAt: now }
+      parent.id = await items.add(parent)
+      byId.set(parent.id, parent)
+      byName.set(key, parent)
+    }
+    if (parent.id === item.id) {
+      await items.update(item.id!, { parentId: undefined, parent: undefined })
+    } else {
+      await items.update(item.id!, { parentId: parent.id, parent: parent.name })
+    }
+  }
+}
+
+// Re-link all parent references, e.g. after importing data
+export async function linkItemParentReferences(): Promise<void> {
+  await db.transaction('rw', [db.items], async () => {
+    await linkParents(db.items)
+  })
+}
+
+// Find the TeamMember for a name, creating one if there is none yet
+export async function resolvePersonId(name: string | undefined, team: TeamType = 'Architecture'): Promise<number | undefined> {
+  if (!name?.trim()) return undefined
+  const key = personKey(name)
+  const existing = (await db.teamMembers.toArray()).find(m => personKey(m.name) === key)
+  if (existing) return existing.id
+  const now = Date.now()
+  return await db.teamMembers.add({ name: name.trim(), team, createdAt: now, updatedAt: now })
+}
+
+// Ids in the same order as names (empty names are skipped)
+export async function resolvePersonIds(names: string[], team: TeamType = 'Architecture'): Promise<number[]> {
+  const ids: number[] = []
+  for (const name of names) {
+    const id = await resolvePersonId(name, team)
+    if (id !== undefined) ids.push(id)
+  }
+  return ids
+}
+
+// Rename a team member and update every reference to them
+export async function renamePerson(memberId: number, newName: string): Promise<void> {
+  const name = newName.trim()
+  await db.transaction('rw', [db.teamMembers, db.items, db.tasks, db.meetingNotes], async () => {
+    const member = await db.teamMembers.get(memberId)
+    if (!member || member.name === name) return
+    const now = Date.now()
+    await db.teamMembers.update(memberId, { name, updatedAt: now })
+
+    await db.items.toCollection().modify(item => {
+      if (item.businessContactId === memberId) item.businessContact = name
+      if (item.techContactId === memberId) item.techContact = name
+      if (item.primaryArchitectId === memberId) item.primaryArchitect = name
+      if (item.architectureManagerId === memberId) item.architectureManager = name
+      item.secondaryArchitectIds?.forEach((id, idx) => {
+        if (id === memberId) item.secondaryArchitects[idx] = name
+      })
+    })
+    await db.tasks.filter(task => task.assignedToId === memberId).modify({ assignedTo: name })
+    await db.meetingNotes.filter(note => !!note.participantIds?.includes(memberId)).modify(note => {
+      note.participants = splitParticipants(note.participants)
+        .map(p => personKey(p) === personKey(member.name) ? name : p)
+        .join(', ')
+    })
+    await db.teamMembers.filter(m => m.managerId === memberId).modify({ manager: name })
+  })
+}
+
+// Helper function to get all people names (team members + stakeholders from items).
+// Linked references resolve to the member's current name, so renamed people appear once.
 export async function getAllPeopleNames(): Promise<string[]> {
-  const teamMembers = await db.teamMembers.toArray()
+  const lookup = await getPersonLookup()
   const items = await db.items.toArray()
-  const people = new Set<string>()
-  
-  teamMembers.forEach(m => people.add(m.name))
+  const people = new Map<string, string>()
+  const add = (name: string | undefined, id?: number) => {
+    const resolved = (id !== undefined ? lookup.byId.get(id)?.name : undefined) || name?.trim()
+    if (resolved && !people.has(personKey(resolved))) people.set(personKey(resolved), resolved)
+  }
+
+  lookup.byId.forEach(m => add(m.name))
   items.forEach(item => {
-    if (item.businessContact) people.add(item.businessContact)
-    if (item.techContact) people.add(item.techContact)
-    if (item.primaryArchitect) people.add(item.primaryArchitect)
-    item.secondaryArchitects.forEach(a => people.add(a))
+    add(item.businessContact, item.businessContactId)
+    add(item.techContact, item.techContactId)
+    add(item.primaryArchitect, item.primaryArchitectId)
+    item.secondaryArchitects.forEach((a, idx) => add(a, item.secondaryArchitectIds?.[idx]))
   })
-  
-  return Array.from(people).sort()
+
+  return Array.from(people.values()).sort()
 }
 
 // Helper function to get all item names across all lenses
@@ -276,3 +896,40 @@ export async function ensureDbReady(): Promise<void> {
   // Touch a table to verify access
   await db.lenses.count()
 }
+
+// --- Relationships -------------------------------------------------------------
+// Each link between two items is a single RelationshipRecord. Older databases and
+// backups stored every link twice, once from each side.
+
+function swapSideField(field: string): string {
+  if (field === 'fromItemIdRelationshipType') return 'toItemIdRelationshipType'
+  if (field === 'toItemIdRelationshipType') return 'fromItemIdRelationshipType'
+  if (field === 'fromItemId') return 'toItemId'
+  if (field === 'toItemId') return 'fromItemId'
+  if (field === 'fromLens') return 'toLens'
+  if (field === 'toLens') return 'fromLens'
+  return field
+}
+
+// Reduce relationship rows to one per pair of items. The oldest row of a pair is
+// kept (taking the note from a mirrored row if it has none); the other rows are
+// returned as folded, with the row they were folded into.
+export function collapseRelationshipPairs(rels: RelationshipRecord[]): {
+  kept: RelationshipRecord[]
+  folded: Array<{ rel: RelationshipRecord; into: RelationshipRecord }>
+} {
+  const byPair = new Map<string, RelationshipRecord>()
+  const folded: Array<{ rel: RelationshipRecord; into: RelationshipRecord }> = []
+  const sorted = [...rels].sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+  for (const rel of sorted) {
+    const pair = [rel.fromItemId, rel.toItemId].sort((a, b) => a - b).join('-')
+    const existing = byPair.get(pair)
+    if (!existing) {
+      byPair.set(pair, { ...rel })
+      continue
+    }
+    if (!existing.note && rel.note) existing.note = rel.note
+    folded.push({ rel, into: existing })
+  }
+  return { kept: Array.from(byPair.values()), folded }
+}
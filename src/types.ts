@@ -1,25 +1,66 @@
+import type { Theme } from './utils/theme'
+
 export type LensKey = string; // Now dynamic, can be any string
 
+export type CustomFieldType = 'text' | 'number' | 'date' | 'enum' | 'person' | 'url'
+
+export interface CustomFieldDefinition {
+  key: string; // unique within lens, used as the key in ItemRecord.customFields
+  label: string;
+  type: CustomFieldType;
+  required?: boolean;
+  options?: string[]; // allowed values for enum fields
+}
+
+export type CustomFieldValue = string | number
+
+// ArchiMate 3.1 element types, as written in the Open Exchange Format
+export const ARCHIMATE_ELEMENT_TYPES = [
+  'Resource', 'Capability', 'ValueStream', 'CourseOfAction',
+  'BusinessActor', 'BusinessRole', 'BusinessCollaboration', 'BusinessInterface', 'BusinessProcess', 'BusinessFunction',
+  'BusinessInteraction', 'BusinessEvent', 'BusinessService', 'BusinessObject', 'Contract', 'Representation', 'Product',
+  'ApplicationComponent', 'ApplicationCollaboration', 'ApplicationInterface', 'ApplicationFunction', 'ApplicationInteraction',
+  'ApplicationProcess', 'ApplicationEvent', 'ApplicationService', 'DataObject',
+  'Node', 'Device', 'SystemSoftware', 'TechnologyCollaboration', 'TechnologyInterface', 'Path', 'CommunicationNetwork',
+  'TechnologyFunction', 'TechnologyProcess', 'TechnologyInteraction', 'TechnologyEvent', 'TechnologyService', 'Artifact',
+  'Equipment', 'Facility', 'DistributionNetwork', 'Material',
+  'Stakeholder', 'Driver', 'Assessment', 'Goal', 'Outcome', 'Principle', 'Requirement', 'Constraint', 'Meaning', 'Value',
+  'WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau', 'Gap',
+  'Grouping', 'Location',
+] as const
+
+export type ArchimateElementType = typeof ARCHIMATE_ELEMENT_TYPES[number]
+
+export const ARCHIMATE_RELATIONSHIP_TYPES = [
+  'Composition', 'Aggregation', 'Assignment', 'Realization', 'Serving', 'Access',
+  'Influence', 'Triggering', 'Flow', 'Specialization', 'Association',
+] as const
+
+export type ArchimateRelationshipType = typeof ARCHIMATE_RELATIONSHIP_TYPES[number]
+
 export interface LensDefinition {
   id?: number;
   key: LensKey;
   label: string;
   order: number;
+  customFields?: CustomFieldDefinition[]; // Extra item fields for this lens
+  archimateType?: ArchimateElementType; // Element type for ArchiMate exchange; see utils/archimate.ts for the default
+  color?: string; // hex colour of the lens's nodes in graph exports; see utils/graphExchange.ts for the default
   createdAt: number;
   updatedAt: number;
 }
 
 // Default lenses for initial setup
 export const DEFAULT_LENSES: Omit<LensDefinition, 'id' | 'createdAt' | 'updatedAt' | 'order'>[] = [
-  { key: 'businessUnits', label: 'Business Units' },
-  { key: 'domains', label: 'Domains' },
-  { key: 'channels', label: 'Channels' },
-  { key: 'applications', label: 'Applications' },
-  { key: 'productFamilies', label: 'Product Families' },
-  { key: 'platforms', label: 'Platforms' },
-  { key: 'processes', label: 'Processes' },
-  { key: 'capabilities', label: 'Capabilities' },
-  { key: 'enablers', label: 'Enablers' },
+  { key: 'businessUnits', label: 'Business Units', archimateType: 'BusinessActor' },
+  { key: 'domains', label: 'Domains', archimateType: 'Grouping' },
+  { key: 'channels', label: 'Channels', archimateType: 'BusinessInterface' },
+  { key: 'applications', label: 'Applications', archimateType: 'ApplicationComponent' },
+  { key: 'productFamilies', label: 'Product Families', archimateType: 'Product' },
+  { key: 'platforms', label: 'Platforms', archimateType: 'Node' },
+  { key: 'processes', label: 'Processes', archimateType: 'BusinessProcess' },
+  { key: 'capabilities', label: 'Capabilities', archimateType: 'Capability' },
+  { key: 'enablers', label: 'Enablers', archimateType: 'Resource' },
 ];
 
 // Legacy LENSES constant for backward compatibility (will be replaced by database)
@@ -34,6 +75,20 @@ export const LENSES: LensDefinition[] = DEFAULT_LENSES.map((l, idx) => ({
 export type LifecycleStatus = 'Plan' | 'Emerging' | 'Invest' | 'Divest' | 'Stable'
 export type RelationshipLifecycleStatus = 'Planned to add' | 'Planned to remove' | 'Existing'
 
+export const LIFECYCLE_STATUSES: LifecycleStatus[] = ['Plan', 'Emerging', 'Invest', 'Divest', 'Stable']
+export const RELATIONSHIP_LIFECYCLE_STATUSES: RelationshipLifecycleStatus[] = ['Planned to add', 'Planned to remove', 'Existing']
+
+// Transition-only statuses: the item or relationship no longer exists from that date
+export type ItemTransitionStatus = LifecycleStatus | 'Retired'
+export type RelationshipTransitionStatus = RelationshipLifecycleStatus | 'Removed'
+
+// A lifecycle status that takes effect from a date, written as YYYY, YYYY-Qn,
+// YYYY-MM or YYYY-MM-DD
+export interface LifecycleTransition<S extends string = string> {
+  status: S;
+  from: string;
+}
+
 export interface Hyperlink {
   label: string;
   url: string;
@@ -44,80 +99,113 @@ export interface ItemRecord {
   lens: LensKey;
   name: string; // unique within lens
   description?: string;
-  lifecycleStatus?: LifecycleStatus;
+  lifecycleStatus?: LifecycleStatus; // Status until the first dated transition
+  lifecycleTransitions?: LifecycleTransition<ItemTransitionStatus>[];
   businessContact?: string;
   techContact?: string;
   primaryArchitect?: string;
   secondaryArchitects: string[];
+  // TeamMember ids for the people above; the name fields are kept as display copies
+  businessContactId?: number;
+  techContactId?: number;
+  primaryArchitectId?: number;
+  secondaryArchitectIds?: number[];
   tags: string[];
   skillsGaps?: string;
-  parent?: string; // Used to group lens items together for display
+  parentId?: number; // Parent item in the same lens, forming a tree within the lens
+  parent?: string; // Display copy of the parent item's name
   hyperlinks?: Hyperlink[]; // List of hyperlinks to related webpages
   architectureManager?: string; // Manager who owns this architecture lens item
+  architectureManagerId?: number; // TeamMember id of architectureManager
+  customFields?: Record<string, CustomFieldValue>; // Values for the lens's custom fields, keyed by field key
   createdAt: number;
   updatedAt: number;
 }
 
-export type RelationshipType =
-  | 'Parent-Child'
-  | 'Replaces-Replaced By'
-  | 'Enables-Depends On'
-  | 'Default'
-
-export type RelationshipSideLabel =
-  | 'Parent'
-  | 'Child'
-  | 'Replaces'
-  | 'Replaced By'
-  | 'Enables'
-  | 'Depends On'
-  | 'Default'
-
-const RELATIONSHIP_SIDE_MAP: Record<RelationshipType, { from: RelationshipSideLabel; to: RelationshipSideLabel }> = {
-  'Parent-Child': { from: 'Parent', to: 'Child' },
-  'Replaces-Replaced By': { from: 'Replaces', to: 'Replaced By' },
-  'Enables-Depends On': { from: 'Enables', to: 'Depends On' },
-  Default: { from: 'Default', to: 'Default' },
-}
-
-export function getRelationshipSides(type: RelationshipType | undefined): { from: RelationshipSideLabel; to: RelationshipSideLabel } {
-  if (!type) return { from: 'Default', to: 'Default' }
-  return RELATIONSHIP_SIDE_MAP[type] ?? { from: 'Default', to: 'Default' }
-}
-
-export function getOppositeSideLabel(type: RelationshipType, side: RelationshipSideLabel): RelationshipSideLabel {
-  const sides = getRelationshipSides(type)
-  if (side === sides.from) return sides.to
-  if (side === sides.to) return sides.from
-  return sides.to
-}
-
-export function inferRelationshipTypeFromSide(side: RelationshipSideLabel | undefined): RelationshipType | undefined {
-  if (!side) return undefined
-  const map: Record<RelationshipSideLabel, RelationshipType> = {
-    Parent: 'Parent-Child',
-    Child: 'Parent-Child',
-    Replaces: 'Replaces-Replaced By',
-    'Replaced By': 'Replaces-Replaced By',
-    Enables: 'Enables-Depends On',
-    'Depends On': 'Enables-Depends On',
-    Default: 'Default',
-  }
-  return map[side]
+// Name of a RelationshipTypeDefinition (user-defined in Settings)
+export type RelationshipType = string
+
+// Label for one side of a relationship type, e.g. "Hosts" / "Hosted On"
+export type RelationshipSideLabel = string
+
+export type RelationshipLineStyle = 'solid' | 'dashed' | 'dotted'
+
+export interface RelationshipTypeDefinition {
+  id?: number;
+  name: RelationshipType; // unique, stored on RelationshipRecord.relationshipType
+  fromLabel: RelationshipSideLabel;
+  toLabel: RelationshipSideLabel;
+  color: string; // hex colour for diagram edges
+  lineStyle: RelationshipLineStyle;
+  archimateType?: ArchimateRelationshipType; // Relationship type for ArchiMate exchange, from the fromLabel side to the toLabel side
+  order: number;
+  createdAt: number;
+  updatedAt: number;
 }
 
-export function getRelationshipTypeOptions(): Array<{ value: RelationshipType; label: RelationshipSideLabel }> {
-  return [
-    { value: 'Parent-Child', label: 'Parent' },
-    { value: 'Parent-Child', label: 'Child' },
-    { value: 'Replaces-Replaced By', label: 'Replaces' },
-    { value: 'Replaces-Replaced By', label: 'Replaced By' },
-    { value: 'Enables-Depends On', label: 'Enables' },
-    { value: 'Enables-Depends On', label: 'Depends On' },
-    { value: 'Default', label: 'Default' },
-  ]
+// Colour and category for a tag used on items. Structured tags written as
+// "category:value" (e.g. "hosting:cloud") take their category from the prefix.
+export interface TagDefinition {
+  id?: number;
+  name: string; // the tag as stored in ItemRecord.tags, unique
+  color?: string; // hex colour for diagrams
+  category?: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
+export type DataQualitySeverity = 'error' | 'warning' | 'info'
+
+export const DATA_QUALITY_SEVERITIES: DataQualitySeverity[] = ['error', 'warning', 'info']
+
+// What a data-quality rule checks on each item it applies to
+export type DataQualityCheck =
+  // The field must have a value; custom fields are written as "customFields.<key>"
+  | { kind: 'required-field'; field: string }
+  // At least min relationships, optionally of a type or side label and to items in a lens
+  | { kind: 'relationship'; label?: string; lens?: LensKey; min: number }
+
+export interface DataQualityRule {
+  id?: number;
+  name: string; // e.g. "Divest items must have a Replaced By relationship"
+  lens?: LensKey; // Applies to every lens when not set
+  status?: LifecycleStatus; // Only items with this lifecycle status
+  check: DataQualityCheck;
+  severity: DataQualitySeverity;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// The rule behind the old hard-coded coverage gap check
+export const DEFAULT_DATA_QUALITY_RULES: Omit<DataQualityRule, 'id' | 'createdAt' | 'updatedAt'>[] = [
+  { name: 'Business contact is set', check: { kind: 'required-field', field: 'businessContact' }, severity: 'error', enabled: true },
+  { name: 'Tech contact is set', check: { kind: 'required-field', field: 'techContact' }, severity: 'error', enabled: true },
+  { name: 'Primary architect is set', check: { kind: 'required-field', field: 'primaryArchitect' }, severity: 'error', enabled: true },
+];
+
+// A named search query (see utils/search.ts), reused as a filter across views
+export interface SavedFilter {
+  id?: number;
+  name: string; // unique
+  query: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const DEFAULT_RELATIONSHIP_TYPE: RelationshipType = 'Default'
+
+// Relationship types for initial setup
+export const DEFAULT_RELATIONSHIP_TYPES: Omit<RelationshipTypeDefinition, 'id' | 'createdAt' | 'updatedAt' | 'order'>[] = [
+  { name: 'Parent-Child', fromLabel: 'Parent', toLabel: 'Child', color: '#3b82f6', lineStyle: 'solid', archimateType: 'Composition' },
+  { name: 'Replaces-Replaced By', fromLabel: 'Replaces', toLabel: 'Replaced By', color: '#f97316', lineStyle: 'dashed', archimateType: 'Association' },
+  { name: 'Enables-Depends On', fromLabel: 'Enables', toLabel: 'Depends On', color: '#10b981', lineStyle: 'solid', archimateType: 'Serving' },
+  { name: DEFAULT_RELATIONSHIP_TYPE, fromLabel: 'Default', toLabel: 'Default', color: '#3b82f6', lineStyle: 'solid', archimateType: 'Association' },
+];
+
+// One record per link between two items. Which item is "from" only matters for
+// the side labels; read a relationship from a given item's point of view with
+// orientRelationship.
 export interface RelationshipRecord {
   id?: number;
   fromLens: LensKey;
@@ -125,6 +213,7 @@ export interface RelationshipRecord {
   toLens: LensKey;
   toItemId: number;
   lifecycleStatus?: RelationshipLifecycleStatus;
+  lifecycleTransitions?: LifecycleTransition<RelationshipTransitionStatus>[];
   relationshipType?: RelationshipType;
   fromItemIdRelationshipType?: RelationshipSideLabel;
   toItemIdRelationshipType?: RelationshipSideLabel;
@@ -132,12 +221,31 @@ export interface RelationshipRecord {
   createdAt: number;
 }
 
+// The same relationship with its from and to sides swapped
+export function reverseRelationship(rel: RelationshipRecord): RelationshipRecord {
+  return {
+    ...rel,
+    fromLens: rel.toLens,
+    fromItemId: rel.toItemId,
+    toLens: rel.fromLens,
+    toItemId: rel.fromItemId,
+    fromItemIdRelationshipType: rel.toItemIdRelationshipType,
+    toItemIdRelationshipType: rel.fromItemIdRelationshipType,
+  }
+}
+
+// The relationship as seen from itemId, so that fromItemId is always itemId
+export function orientRelationship(rel: RelationshipRecord, itemId: number): RelationshipRecord {
+  return rel.fromItemId === itemId ? rel : reverseRelationship(rel)
+}
+
 export type TeamType = 'Architecture' | 'Business Stakeholder' | 'Tech Stakeholder'
 
 export interface TeamMember {
   id?: number;
   name: string;
   manager?: string;
+  managerId?: number; // TeamMember id of manager
   team?: TeamType; // Defaults to 'Architecture' if not set
   createdAt: number;
   updatedAt: number;
@@ -147,6 +255,7 @@ export interface MeetingNote {
   id?: number;
   title: string;
   participants: string; // comma-separated list
+  participantIds?: number[]; // TeamMember ids of participants
   dateTime: number; // UTC timestamp
   content: string; // plain text notes
   relatedItems?: number[]; // array of item ids that are related to this note
@@ -159,29 +268,96 @@ export interface Task {
   meetingNoteId?: number; // Optional - tasks can exist without a meeting note
   description: string;
   assignedTo?: string; // person name
+  assignedToId?: number; // TeamMember id of assignedTo
   itemReferences: number[]; // array of item ids
   completedAt?: number; // UTC timestamp when marked complete
   createdAt: number;
   updatedAt: number;
 }
 
+export type HistoryTable = 'items' | 'relationships' | 'teamMembers' | 'meetingNotes' | 'tasks'
+export type HistoryAction = 'create' | 'update' | 'delete'
+
+export interface HistoryFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface HistoryEntry {
+  id?: number;
+  table: HistoryTable;
+  recordId: number;
+  action: HistoryAction;
+  changes: HistoryFieldChange[]; // field-level diff (updates only)
+  snapshot?: Record<string, unknown>; // full record (creates and deletes)
+  itemIds: number[]; // items this change concerns, for per-item history lookups
+  timestamp: number;
+}
+
+export type TrashKind = 'item' | 'lens' | 'meetingNote' | 'teamMember'
+
+// A deleted record together with everything removed or detached along with it
+export interface TrashEntry {
+  id?: number;
+  kind: TrashKind;
+  label: string; // display name of the deleted record
+  deletedAt: number;
+  items?: ItemRecord[];
+  relationships?: RelationshipRecord[];
+  lenses?: LensDefinition[];
+  meetingNotes?: MeetingNote[];
+  tasks?: Task[];
+  teamMembers?: TeamMember[];
+  // Item ids stripped from surviving tasks and notes, put back on restore
+  taskItemReferences?: Array<{ taskId: number; itemIds: number[] }>;
+  noteRelatedItems?: Array<{ noteId: number; itemIds: number[] }>;
+  // Children of removed items moved up a level, put back under their parent on restore
+  childParentRefs?: Array<{ itemId: number; parentId: number }>;
+}
+
+export type ScenarioTable = 'items' | 'relationships'
+export type ScenarioChangeAction = 'create' | 'update' | 'delete'
+
+// One difference between a scenario and the baseline. The record is the
+// scenario's version (for create and update); records created in the scenario
+// keep their working-copy id, which is remapped when the change is applied.
+export type ScenarioChange =
+  | { table: 'items'; action: ScenarioChangeAction; recordId: number; record?: ItemRecord }
+  | { table: 'relationships'; action: ScenarioChangeAction; recordId: number; record?: RelationshipRecord }
+
+// A named what-if copy of the architecture, stored as changes to the baseline
+export interface Scenario {
+  id?: number;
+  name: string;
+  description?: string;
+  changes: ScenarioChange[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A named, separate copy of the app's data: its own database and view settings
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Written as JSON by Export; see utils/exportBundle.ts for the schema and upgrades
 export type ExportBundle = {
-  version: 1;
+  version: 2;
   exportedAt: string;
+  workspace?: string; // Name of the workspace the bundle was exported from
   items: ItemRecord[];
   relationships: RelationshipRecord[];
   teamMembers?: TeamMember[];
   meetingNotes?: MeetingNote[];
   tasks?: Task[];
-  lenses?: LensDefinition[];
-  theme?: any; // Theme from utils/theme.ts - using any to avoid circular dependency
+  lenses?: LensDefinition[]; // Always present alongside items, so their lens keys can be checked
+  relationshipTypes?: RelationshipTypeDefinition[];
+  tagDefinitions?: TagDefinition[];
+  savedFilters?: SavedFilter[];
+  dataQualityRules?: DataQualityRule[];
+  theme?: Theme;
 };
 
-export function hasGap(item: ItemRecord): boolean {
-  if (!item.name?.trim()) return true;
-  if (!item.businessContact?.trim()) return true;
-  if (!item.techContact?.trim()) return true;
-  if (!item.primaryArchitect?.trim()) return true;
-  // Allow empty secondaryArchitects
-  return false;
-}
@@ -0,0 +1,337 @@
+import { db, getAllLenses, linkItemParentReferences } from '../db'
+import {
+  DEFAULT_LENSES,
+  DEFAULT_RELATIONSHIP_TYPE,
+  DEFAULT_RELATIONSHIP_TYPES,
+  LIFECYCLE_STATUSES,
+  RELATIONSHIP_LIFECYCLE_STATUSES,
+  orientRelationship,
+  type ArchimateElementType,
+  type ArchimateRelationshipType,
+  type ItemRecord,
+  type LensDefinition,
+  type LifecycleStatus,
+  type RelationshipLifecycleStatus,
+  type RelationshipRecord,
+  type RelationshipTypeDefinition,
+} from '../types'
+import { getRelationshipTypes, orientByType } from './relationshipTypes'
+import { findRelationship, updateRelationship } from './relationships'
+import { escapeXml } from './xml'
+
+// ArchiMate Open Exchange Format (version 3.1) export and import. Lenses map to
+// element types and relationship types to ArchiMate relationships; the lens,
+// lifecycle, parent and relationship type are kept as element and relationship
+// properties so a round trip restores them.
+
+const NS = 'http://www.opengroup.org/xsd/archimate/3.0/'
+const XSI = 'http://www.w3.org/2001/XMLSchema-instance'
+
+const FALLBACK_ELEMENT_TYPE: ArchimateElementType = 'Grouping'
+const FALLBACK_RELATIONSHIP_TYPE: ArchimateRelationshipType = 'Association'
+
+// Property names written on export and recognised on import
+const PROPERTIES = {
+  lens: 'Lens',
+  lifecycle: 'Lifecycle status',
+  parent: 'Parent',
+  relationshipType: 'Relationship type',
+} as const
+
+export function getLensArchimateType(lens: Pick<LensDefinition, 'key' | 'archimateType'>): ArchimateElementType {
+  return lens.archimateType
+    ?? DEFAULT_LENSES.find(l => l.key === lens.key)?.archimateType
+    ?? FALLBACK_ELEMENT_TYPE
+}
+
+export function getRelationshipArchimateType(type: Pick<RelationshipTypeDefinition, 'name' | 'archimateType'>): ArchimateRelationshipType {
+  return type.archimateType
+    ?? DEFAULT_RELATIONSHIP_TYPES.find(t => t.name === type.name)?.archimateType
+    ?? FALLBACK_RELATIONSHIP_TYPE
+}
+
+function propertiesXml(values: Array<[string, string | undefined]>, indent: string): string[] {
+  const set = values.filter((entry): entry is [string, string] => !!entry[1])
+  if (set.length === 0) return []
+  return [
+    `${indent}<properties>`,
+    ...set.flatMap(([ref, value]) => [
+      `${indent}  <property propertyDefinitionRef="${ref}">`,
+      `${indent}    <value xml:lang="en">${escapeXml(value)}</value>`,
+      `${indent}  </property>`,
+    ]),
+    `${indent}</properties>`,
+  ]
+}
+
+// Every item and relationship as an Open Exchange model
+export async function exportArchimateXml(modelName: string): Promise<string> {
+  const [lenses, items, relationships] = await Promise.all([
+    getAllLenses(),
+    db.items.toArray(),
+    db.relationships.toArray(),
+  ])
+  const lensByKey = new Map(lenses.map(l => [l.key, l]))
+  const byId = new Map(items.map(i => [i.id!, i]))
+  const types = getRelationshipTypes()
+  const propertyIds = {
+    lens: 'propid-lens',
+    lifecycle: 'propid-lifecycle',
+    parent: 'propid-parent',
+    relationshipType: 'propid-relationship-type',
+  }
+
+  const elements = items.flatMap(item => {
+    const lens = lensByKey.get(item.lens) ?? { key: item.lens }
+    return [
+      `    <element identifier="id-item-${item.id}" xsi:type="${getLensArchimateType(lens)}">`,
+      `      <name xml:lang="en">${escapeXml(item.name)}</name>`,
+      ...(item.description ? [`      <documentation xml:lang="en">${escapeXml(item.description)}</documentation>`] : []),
+      ...propertiesXml([
+        [propertyIds.lens, item.lens],
+        [propertyIds.lifecycle, item.lifecycleStatus],
+        [propertyIds.parent, item.parentId !== undefined ? byId.get(item.parentId)?.name : undefined],
+      ], '      '),
+      '    </element>',
+    ]
+  })
+
+  const links = relationships
+    .filter(rel => byId.has(rel.fromItemId) && byId.has(rel.toItemId))
+    .flatMap(rel => {
+      const typeName = rel.relationshipType || DEFAULT_RELATIONSHIP_TYPE
+      const type = types.find(t => t.name === typeName)
+      // ArchiMate relationships run from the item on the type's from side
+      const oriented = orientByType(rel)
+      return [
+        `    <relationship identifier="id-rel-${rel.id}" source="id-item-${oriented.fromItemId}" target="id-item-${oriented.toItemId}" xsi:type="${getRelationshipArchimateType(type ?? { name: typeName })}">`,
+        ...(rel.note ? [`      <documentation xml:lang="en">${escapeXml(rel.note)}</documentation>`] : []),
+        ...propertiesXml([
+          [propertyIds.relationshipType, typeName],
+          [propertyIds.lifecycle, rel.lifecycleStatus],
+        ], '      '),
+        '    </relationship>',
+      ]
+    })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<model xmlns="${NS}" xmlns:xsi="${XSI}" xsi:schemaLocation="${NS} http://www.opengroup.org/xsd/archimate/3.1/archimate3_Model.xsd" identifier="id-model">`,
+    `  <name xml:lang="en">${escapeXml(modelName)}</name>`,
+    ...(elements.length > 0 ? ['  <elements>', ...elements, '  </elements>'] : []),
+    ...(links.length > 0 ? ['  <relationships>', ...links, '  </relationships>'] : []),
+    '  <propertyDefinitions>',
+    ...Object.entries(propertyIds).flatMap(([key, id]) => [
+      `    <propertyDefinition identifier="${id}" type="string">`,
+      `      <name xml:lang="en">${PROPERTIES[key as keyof typeof PROPERTIES]}</name>`,
+      '    </propertyDefinition>',
+    ]),
+    '  </propertyDefinitions>',
+    '</model>',
+    '',
+  ].join('\n')
+}
+
+export interface ArchimateElement {
+  identifier: string
+  type: string
+  name: string
+  documentation?: string
+  properties: Record<string, string> // By property name
+}
+
+export interface ArchimateRelationship {
+  identifier: string
+  type: string
+  source: string
+  target: string
+  documentation?: string
+  properties: Record<string, string>
+}
+
+export interface ArchimateModel {
+  name: string
+  elements: ArchimateElement[]
+  relationships: ArchimateRelationship[]
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName)
+}
+
+function childText(parent: Element, localName: string): string | undefined {
+  // Multilingual models repeat the element per language; the first one is used
+  return childElements(parent, localName)[0]?.textContent?.trim() || undefined
+}
+
+function xsiType(element: Element): string {
+  return element.getAttributeNS(XSI, 'type') || element.getAttribute('xsi:type') || ''
+}
+
+// Read the elements and relationships of an Open Exchange file. Views and
+// organizations are ignored.
+export function parseArchimateXml(text: string): ArchimateModel {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid XML')
+  const root = doc.documentElement
+  if (root.localName !== 'model') throw new Error('The file is not an ArchiMate Open Exchange model')
+
+  const propertyNames = new Map<string, string>()
+  for (const definitions of childElements(root, 'propertyDefinitions')) {
+    for (const definition of childElements(definitions, 'propertyDefinition')) {
+      propertyNames.set(definition.getAttribute('identifier') || '', childText(definition, 'name') || '')
+    }
+  }
+  const readProperties = (parent: Element): Record<string, string> => {
+    const properties: Record<string, string> = {}
+    for (const list of childElements(parent, 'properties')) {
+      for (const property of childElements(list, 'property')) {
+        const name = propertyNames.get(property.getAttribute('propertyDefinitionRef') || '')
+        const value = childText(property, 'value')
+        if (name && value !== undefined) properties[name] = value
+      }
+    }
+    return properties
+  }
+
+  const elements = childElements(root, 'elements').flatMap(list => childElements(list, 'element')).map(el => ({
+    identifier: el.getAttribute('identifier') || '',
+    type: xsiType(el),
+    name: childText(el, 'name') || '',
+    documentation: childText(el, 'documentation'),
+    properties: readProperties(el),
+  }))
+  const relationships = childElements(root, 'relationships').flatMap(list => childElements(list, 'relationship')).map(el => ({
+    identifier: el.getAttribute('identifier') || '',
+    type: xsiType(el),
+    source: el.getAttribute('source') || '',
+    target: el.getAttribute('target') || '',
+    documentation: childText(el, 'documentation'),
+    properties: readProperties(el),
+  }))
+  return { name: childText(root, 'name') || '', elements, relationships }
+}
+
+export interface ArchimateImportResult {
+  created: number
+  updated: number
+  relationshipsCreated: number
+  relationshipsUpdated: number
+  // Element types no lens maps to, with how many elements of each were skipped
+  skippedElements: Record<string, number>
+  skippedRelationships: number // Relationships whose ends were skipped or missing
+}
+
+// Lens for an element: the lens it was exported from if that lens exists here,
+// otherwise the first lens mapped to its element type
+function findLensForElement(element: ArchimateElement, lenses: LensDefinition[]): LensDefinition | undefined {
+  const exported = element.properties[PROPERTIES.lens]
+  return lenses.find(l => l.key === exported)
+    ?? lenses.find(l => getLensArchimateType(l) === element.type)
+}
+
+// Relationship type for a relationship: the type it was exported as if it exists
+// here, otherwise a type mapped to its ArchiMate type (preferring Default)
+function findTypeForRelationship(rel: ArchimateRelationship, types: RelationshipTypeDefinition[]): RelationshipTypeDefinition | undefined {
+  const exported = types.find(t => t.name === rel.properties[PROPERTIES.relationshipType])
+  if (exported) return exported
+  const matching = types.filter(t => getRelationshipArchimateType(t) === rel.type)
+  return matching.find(t => t.name === DEFAULT_RELATIONSHIP_TYPE) ?? matching[0]
+}
+
+// Upsert the model's elements as items (by lens and name, ignoring case) and its
+// relationships between them. Elements whose type no lens maps to are skipped.
+export async function importArchimateModel(model: ArchimateModel): Promise<ArchimateImportResult> {
+  const result: ArchimateImportResult = {
+    created: 0,
+    updated: 0,
+    relationshipsCreated: 0,
+    relationshipsUpdated: 0,
+    skippedElements: {},
+    skippedRelationships: 0,
+  }
+  const lenses = await getAllLenses()
+  const types = getRelationshipTypes()
+  const itemsByIdentifier = new Map<string, ItemRecord>()
+
+  await db.transaction('rw', [db.items, db.relationships], async () => {
+    const now = Date.now()
+    const items = await db.items.toArray()
+    const byName = new Map(items.map(i => [`${i.lens}\u0000${i.name.toLowerCase()}`, i]))
+
+    for (const element of model.elements) {
+      const lens = findLensForElement(element, lenses)
+      if (!lens || !element.name) {
+        const type = element.type || '(no type)'
+        result.skippedElements[type] = (result.skippedElements[type] || 0) + 1
+        continue
+      }
+      const status = element.properties[PROPERTIES.lifecycle]
+      const parent = element.properties[PROPERTIES.parent]
+      const values: Partial<ItemRecord> = {
+        ...(element.documentation !== undefined && { description: element.documentation }),
+        ...(LIFECYCLE_STATUSES.includes(status as LifecycleStatus) && { lifecycleStatus: status as LifecycleStatus }),
+        // Parents are linked by name once every element is in
+        ...(parent !== undefined && { parent, parentId: undefined }),
+      }
+      const key = `${lens.key}\u0000${element.name.toLowerCase()}`
+      const existing = byName.get(key)
+      if (existing) {
+        await db.items.update(existing.id!, { ...values, updatedAt: now })
+        itemsByIdentifier.set(element.identifier, existing)
+        result.updated++
+      } else {
+        const item: ItemRecord = {
+          secondaryArchitects: [],
+          tags: [],
+          ...values,
+          lens: lens.key,
+          name: element.name,
+          createdAt: now,
+          updatedAt: now,
+        }
+        item.id = await db.items.add(item)
+        byName.set(key, item)
+        itemsByIdentifier.set(element.identifier, item)
+        result.created++
+      }
+    }
+
+    for (const rel of model.relationships) {
+      const from = itemsByIdentifier.get(rel.source)
+      const to = itemsByIdentifier.get(rel.target)
+      if (!from || !to || from.id === to.id) {
+        result.skippedRelationships++
+        continue
+      }
+      const type = findTypeForRelationship(rel, types)
+      const status = rel.properties[PROPERTIES.lifecycle]
+      const changes: Partial<RelationshipRecord> = {
+        relationshipType: type?.name ?? DEFAULT_RELATIONSHIP_TYPE,
+        fromItemIdRelationshipType: type?.fromLabel ?? DEFAULT_RELATIONSHIP_TYPE,
+        toItemIdRelationshipType: type?.toLabel ?? DEFAULT_RELATIONSHIP_TYPE,
+        ...(RELATIONSHIP_LIFECYCLE_STATUSES.includes(status as RelationshipLifecycleStatus) && { lifecycleStatus: status as RelationshipLifecycleStatus }),
+        ...(rel.documentation !== undefined && { note: rel.documentation }),
+      }
+      const existing = await findRelationship(from.id!, to.id!)
+      if (existing) {
+        await updateRelationship(orientRelationship(existing, from.id!), changes)
+        result.relationshipsUpdated++
+      } else {
+        await db.relationships.add({
+          lifecycleStatus: 'Existing',
+          ...changes,
+          fromLens: from.lens,
+          fromItemId: from.id!,
+          toLens: to.lens,
+          toItemId: to.id!,
+          createdAt: now,
+        })
+        result.relationshipsCreated++
+      }
+    }
+  })
+  await linkItemParentReferences()
+  return result
+}
+
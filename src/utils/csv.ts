@@ -0,0 +1,68 @@
+// Parse CSV text (RFC 4180: quoted values may contain commas, quotes and line
+// breaks) into rows of cells. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  function endRow() {
+    row.push(cell)
+    if (row.some(c => c.trim())) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += ch
+    }
+  }
+  if (cell || row.length > 0) endRow()
+  return rows
+}
+
+function formatCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Format rows of cells as CSV text, quoting cells where needed
+export function formatCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatCsvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function normalizeHeader(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// Map each column to the first unused target whose names match its header
+// (ignoring case, spaces and punctuation). Unmatched columns map to ''.
+export function guessColumnMapping(headers: string[], candidates: Array<{ target: string; names: string[] }>): string[] {
+  const used = new Set<string>()
+  return headers.map(header => {
+    const normalized = normalizeHeader(header)
+    const match = candidates.find(c => !used.has(c.target) && c.names.some(n => normalizeHeader(n) === normalized))
+    if (!match) return ''
+    used.add(match.target)
+    return match.target
+  })
+}
@@ -0,0 +1,199 @@
+import { db, linkItemParentReferences, linkPersonReferences } from '../db'
+import {
+  LIFECYCLE_STATUSES,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type ItemRecord,
+  type LensKey,
+  type LifecycleStatus,
+} from '../types'
+import { guessColumnMapping } from './csv'
+import { CUSTOM_FIELD_FILTER_PREFIX, parseCustomFieldValue, validateCustomFieldValue } from './customFields'
+
+// Item fields a CSV column can be mapped to. List fields hold several values
+// separated by commas or semicolons within the cell.
+export const CSV_ITEM_FIELDS: Array<{ key: string; label: string; list?: boolean }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'lifecycleStatus', label: 'Lifecycle status' },
+  { key: 'businessContact', label: 'Business contact' },
+  { key: 'techContact', label: 'Tech contact' },
+  { key: 'primaryArchitect', label: 'Primary architect' },
+  { key: 'secondaryArchitects', label: 'Secondary architects', list: true },
+  { key: 'architectureManager', label: 'Architecture manager' },
+  { key: 'tags', label: 'Tags', list: true },
+  { key: 'skillsGaps', label: 'Skills gaps' },
+  { key: 'parent', label: 'Parent' },
+  { key: 'hyperlinks', label: 'Hyperlinks', list: true },
+]
+
+// Target field for each column, by column index ('' = ignore the column).
+// Custom fields are addressed as 'customFields.<key>'.
+export type CsvColumnMapping = string[]
+
+// Map columns whose header matches a field's label or key
+export function guessCsvMapping(headers: string[], customFields: CustomFieldDefinition[] = []): CsvColumnMapping {
+  return guessColumnMapping(headers, [
+    ...CSV_ITEM_FIELDS.map(f => ({ target: f.key, names: [f.label, f.key] })),
+    ...customFields.map(f => ({ target: CUSTOM_FIELD_FILTER_PREFIX + f.key, names: [f.label, f.key] })),
+  ])
+}
+
+function splitListCell(value: string): string[] {
+  return value.split(/[,;]/).map(v => v.trim()).filter(Boolean)
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export interface CsvImportRow {
+  rowNumber: number // Line in the file, counting the header as 1
+  name: string
+  values: Partial<ItemRecord> // Only the mapped, non-blank fields
+  action: 'create' | 'update'
+  errors: string[]
+}
+
+// Turn data rows into items for a lens, validating each row. Rows are matched
+// to existing items by name (case-insensitive), like the [lens+name] index.
+export function buildCsvImportPreview(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  customFields: CustomFieldDefinition[],
+  existingItems: ItemRecord[],
+): CsvImportRow[] {
+  const existingByName = new Map(existingItems.map(i => [i.name.toLowerCase(), i]))
+  const seen = new Map<string, number>()
+
+  const preview = rows.map((cells, idx): CsvImportRow => {
+    const values: Partial<ItemRecord> = {}
+    const custom: Record<string, CustomFieldValue> = {}
+    const errors: string[] = []
+    mapping.forEach((target, col) => {
+      const raw = (cells[col] || '').trim()
+      if (!target || !raw) return
+      if (target.startsWith(CUSTOM_FIELD_FILTER_PREFIX)) {
+        const field = customFields.find(f => f.key === target.slice(CUSTOM_FIELD_FILTER_PREFIX.length))
+        if (!field) return
+        const error = validateCustomFieldValue(field, raw)
+        if (error) errors.push(error)
+        else custom[field.key] = parseCustomFieldValue(field, raw)!
+        return
+      }
+      switch (target) {
+        case 'lifecycleStatus': {
+          const status = LIFECYCLE_STATUSES.find(s => s.toLowerCase() === raw.toLowerCase())
+          if (status) values.lifecycleStatus = status as LifecycleStatus
+          else errors.push(`Lifecycle status must be one of: ${LIFECYCLE_STATUSES.join(', ')}`)
+          break
+        }
+        case 'secondaryArchitects':
+        case 'tags':
+          values[target] = splitListCell(raw)
+          break
+        case 'hyperlinks': {
+          const urls = splitListCell(raw)
+          const invalid = urls.filter(url => !isValidUrl(url))
+          if (invalid.length > 0) errors.push(`Not a valid URL: ${invalid.join(', ')}`)
+          else values.hyperlinks = urls.map(url => ({ label: url, url }))
+          break
+        }
+        default:
+          (values as Record<string, string>)[target] = raw
+      }
+    })
+    if (Object.keys(custom).length > 0) values.customFields = custom
+
+    const name = values.name || ''
+    const existing = existingByName.get(name.toLowerCase())
+    if (!name) {
+      errors.unshift('Name is required')
+    } else {
+      const firstRow = seen.get(name.toLowerCase())
+      if (firstRow !== undefined) errors.unshift(`Duplicate of row ${firstRow}`)
+      else seen.set(name.toLowerCase(), idx + 2)
+    }
+    // Required custom fields only need a value when the item is created
+    if (!existing) {
+      customFields
+        .filter(f => f.required && custom[f.key] === undefined && !errors.includes(`${f.label} is required`))
+        .forEach(f => errors.push(`${f.label} is required`))
+    }
+    return { rowNumber: idx + 2, name, values, action: existing ? 'update' : 'create', errors }
+  })
+
+  // Parents must be in the lens or the file, without loops
+  const parentOf = new Map(existingItems.map(i => [i.name.toLowerCase(), i.parent?.toLowerCase()]))
+  preview.forEach(row => {
+    const key = row.name.toLowerCase()
+    if (!row.name) return
+    if ('parent' in row.values) parentOf.set(key, row.values.parent!.toLowerCase())
+    else if (!parentOf.has(key)) parentOf.set(key, undefined)
+  })
+  preview.forEach(row => {
+    const parent = row.values.parent
+    if (!parent || !row.name) return
+    if (!parentOf.has(parent.toLowerCase())) {
+      row.errors.push(`Parent "${parent}" is not in this lens or the file`)
+      return
+    }
+    const visited = new Set([row.name.toLowerCase()])
+    for (let current = parentOf.get(row.name.toLowerCase()); current; current = parentOf.get(current)) {
+      if (visited.has(current)) {
+        row.errors.push(`Parent "${parent}" would place the item under itself`)
+        return
+      }
+      visited.add(current)
+    }
+  })
+  return preview
+}
+
+// Create or update the valid rows' items, returning how many of each
+export async function applyCsvImport(lens: LensKey, rows: CsvImportRow[]): Promise<{ created: number; updated: number }> {
+  const valid = rows.filter(r => r.errors.length === 0)
+  let created = 0
+  let updated = 0
+  await db.transaction('rw', db.items, async () => {
+    const now = Date.now()
+    const lensItems = await db.items.where('lens').equals(lens).toArray()
+    const byName = new Map(lensItems.map(i => [i.name.toLowerCase(), i]))
+    for (const row of valid) {
+      const existing = byName.get(row.name.toLowerCase())
+      // A new parent name is linked to its item once every row is in
+      const parentChange = 'parent' in row.values ? { parentId: undefined } : {}
+      if (existing) {
+        const values = { ...row.values }
+        delete values.name
+        await db.items.update(existing.id!, {
+          ...values,
+          ...parentChange,
+          customFields: values.customFields ? { ...existing.customFields, ...values.customFields } : existing.customFields,
+          updatedAt: now,
+        })
+        updated++
+      } else {
+        await db.items.add({
+          secondaryArchitects: [],
+          tags: [],
+          ...row.values,
+          lens,
+          name: row.name,
+          createdAt: now,
+          updatedAt: now,
+        })
+        created++
+      }
+    }
+  })
+  // Link the imported names to team members and parent items
+  await linkPersonReferences()
+  await linkItemParentReferences()
+  return { created, updated }
+}
@@ -0,0 +1,93 @@
+import type { CustomFieldDefinition, CustomFieldType, CustomFieldValue, ItemRecord } from '../types'
+
+export const CUSTOM_FIELD_TYPES: Array<{ value: CustomFieldType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'enum', label: 'Choice list' },
+  { value: 'person', label: 'Person' },
+  { value: 'url', label: 'URL' },
+]
+
+// Prefix used by field filters (e.g. GraphModal) to address a custom field
+export const CUSTOM_FIELD_FILTER_PREFIX = 'customFields.'
+
+// Turn a label into a field key, e.g. "Cost Centre" -> "costCentre"
+export function toCustomFieldKey(label: string): string {
+  const words = label.trim().replace(/[^a-zA-Z0-9 ]/g, ' ').split(/\s+/).filter(Boolean)
+  return words
+    .map((w, idx) => idx === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1))
+    .join('')
+}
+
+// Convert a stored value to the string used in form inputs
+export function customFieldValueToInput(value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null) return ''
+  return String(value)
+}
+
+// Only web links are accepted and linked; javascript: and data: URLs would run when clicked
+export function isWebUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Validate a raw input value against its field definition. Returns an error message or null.
+export function validateCustomFieldValue(field: CustomFieldDefinition, raw: string): string | null {
+  const value = raw.trim()
+  if (!value) {
+    return field.required ? `${field.label} is required` : null
+  }
+  switch (field.type) {
+    case 'number':
+      if (isNaN(Number(value))) return `${field.label} must be a number`
+      return null
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) return `${field.label} must be a date (YYYY-MM-DD)`
+      return null
+    case 'enum':
+      if (!(field.options || []).includes(value)) return `${field.label} must be one of: ${(field.options || []).join(', ')}`
+      return null
+    case 'url':
+      if (!isWebUrl(value)) return `${field.label} must be a valid http or https URL`
+      return null
+    default:
+      return null
+  }
+}
+
+// Parse a (validated) raw input value into the stored representation
+export function parseCustomFieldValue(field: CustomFieldDefinition, raw: string): CustomFieldValue | undefined {
+  const value = raw.trim()
+  if (!value) return undefined
+  if (field.type === 'number') return Number(value)
+  return value
+}
+
+// Build the customFields record for an item from raw form values, dropping empty values
+export function buildCustomFieldValues(fields: CustomFieldDefinition[], rawValues: Record<string, string>): Record<string, CustomFieldValue> | undefined {
+  const result: Record<string, CustomFieldValue> = {}
+  fields.forEach(field => {
+    const parsed = parseCustomFieldValue(field, rawValues[field.key] || '')
+    if (parsed !== undefined) result[field.key] = parsed
+  })
+  return Object.keys(result).length > 0 ? result : undefined
+}
+
+// Display string for a stored value
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null || value === '') return ''
+  if (field.type === 'date') {
+    const date = new Date(String(value))
+    return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString()
+  }
+  return String(value)
+}
+
+export function getCustomFieldValue(item: ItemRecord, fieldKey: string): CustomFieldValue | undefined {
+  return item.customFields?.[fieldKey]
+}
@@ -0,0 +1,195 @@
+import { db } from '../db'
+import {
+  DATA_QUALITY_SEVERITIES,
+  orientRelationship,
+  type DataQualityCheck,
+  type DataQualityRule,
+  type DataQualitySeverity,
+  type ItemRecord,
+  type LensDefinition,
+  type RelationshipRecord,
+} from '../types'
+import { CUSTOM_FIELD_FILTER_PREFIX } from './customFields'
+import { itemLifecycleAsOf, landscapeAsOf } from './lifecycle'
+
+// Item fields a required-field rule can check
+export const REQUIRABLE_FIELDS: Array<{ key: keyof ItemRecord; label: string }> = [
+  { key: 'description', label: 'Description' },
+  { key: 'lifecycleStatus', label: 'Lifecycle status' },
+  { key: 'businessContact', label: 'Business contact' },
+  { key: 'techContact', label: 'Tech contact' },
+  { key: 'primaryArchitect', label: 'Primary architect' },
+  { key: 'secondaryArchitects', label: 'Secondary architects' },
+  { key: 'architectureManager', label: 'Architecture manager' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'parentId', label: 'Parent' },
+  { key: 'hyperlinks', label: 'Hyperlinks' },
+]
+
+export type DataQualityRuleInput = Omit<DataQualityRule, 'id' | 'createdAt' | 'updatedAt'>
+
+export interface DataQualityViolation {
+  item: ItemRecord
+  rule: DataQualityRule
+}
+
+// Cache for rules loaded from database. Loaded at startup so the sync helpers
+// below can be used while rendering.
+let rulesCache: DataQualityRule[] | null = null
+
+export async function loadDataQualityRules(): Promise<DataQualityRule[]> {
+  if (rulesCache) return rulesCache
+  try {
+    rulesCache = await db.dataQualityRules.toArray()
+    return rulesCache
+  } catch (e) {
+    console.error('Failed to load data-quality rules from DB:', e)
+    return []
+  }
+}
+
+export function invalidateDataQualityRulesCache() {
+  rulesCache = null
+}
+
+export function getDataQualityRules(): DataQualityRule[] {
+  return rulesCache || []
+}
+
+// Reload the cache and tell views after rules change
+export async function dataQualityRulesChanged() {
+  invalidateDataQualityRulesCache()
+  await loadDataQualityRules()
+  window.dispatchEvent(new CustomEvent('dataQualityRulesUpdated'))
+}
+
+function validateRule(rule: DataQualityRuleInput) {
+  if (!rule.name.trim()) throw new Error('Name is required')
+  if (rule.check.kind === 'required-field' && !rule.check.field) throw new Error('Choose a field')
+  if (rule.check.kind === 'relationship' && (!Number.isInteger(rule.check.min) || rule.check.min < 1)) {
+    throw new Error('The minimum number of relationships must be a whole number of at least 1')
+  }
+}
+
+export async function saveDataQualityRule(rule: DataQualityRuleInput, id?: number): Promise<void> {
+  validateRule(rule)
+  const now = Date.now()
+  const values = { ...rule, name: rule.name.trim() }
+  if (id !== undefined) {
+    await db.dataQualityRules.update(id, { ...values, updatedAt: now })
+  } else {
+    await db.dataQualityRules.add({ ...values, createdAt: now, updatedAt: now })
+  }
+  await dataQualityRulesChanged()
+}
+
+export async function setDataQualityRuleEnabled(id: number, enabled: boolean): Promise<void> {
+  await db.dataQualityRules.update(id, { enabled, updatedAt: Date.now() })
+  await dataQualityRulesChanged()
+}
+
+export async function deleteDataQualityRule(id: number): Promise<void> {
+  await db.dataQualityRules.delete(id)
+  await dataQualityRulesChanged()
+}
+
+// A readable summary of what a rule checks, e.g. 'At least 1 "Replaced By" relationship'
+export function describeCheck(check: DataQualityCheck, lenses: LensDefinition[] = []): string {
+  if (check.kind === 'required-field') {
+    if (check.field.startsWith(CUSTOM_FIELD_FILTER_PREFIX)) {
+      const key = check.field.slice(CUSTOM_FIELD_FILTER_PREFIX.length)
+      const label = lenses.flatMap(l => l.customFields || []).find(f => f.key === key)?.label || key
+      return `${label} is set`
+    }
+    return `${REQUIRABLE_FIELDS.find(f => f.key === check.field)?.label || check.field} is set`
+  }
+  const lensLabel = check.lens ? lenses.find(l => l.key === check.lens)?.label || check.lens : undefined
+  return [
+    `At least ${check.min}`,
+    check.label ? `"${check.label}"` : '',
+    check.min === 1 ? 'relationship' : 'relationships',
+    lensLabel ? `to ${lensLabel}` : '',
+  ].filter(Boolean).join(' ')
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'string') return value.trim().length > 0
+  return value !== undefined && value !== null
+}
+
+// Relationships of each item, oriented from the item, on a date
+export interface DataQualityContext {
+  relationships: Map<number, RelationshipRecord[]>
+  asOf?: string
+}
+
+export function buildDataQualityContext(items: ItemRecord[], relationships: RelationshipRecord[], asOf?: string): DataQualityContext {
+  const byItem = new Map<number, RelationshipRecord[]>()
+  for (const rel of landscapeAsOf(items, relationships, asOf).relationships) {
+    for (const id of [rel.fromItemId, rel.toItemId]) {
+      byItem.set(id, [...(byItem.get(id) || []), orientRelationship(rel, id)])
+    }
+  }
+  return { relationships: byItem, asOf }
+}
+
+function ruleApplies(rule: DataQualityRule, item: ItemRecord, asOf?: string): boolean {
+  if (!rule.enabled) return false
+  if (rule.lens && rule.lens !== item.lens) return false
+  return !rule.status || itemLifecycleAsOf(item, asOf) === rule.status
+}
+
+function passes(check: DataQualityCheck, item: ItemRecord, relationships: RelationshipRecord[]): boolean {
+  if (check.kind === 'required-field') {
+    const value = check.field.startsWith(CUSTOM_FIELD_FILTER_PREFIX)
+      ? item.customFields?.[check.field.slice(CUSTOM_FIELD_FILTER_PREFIX.length)]
+      : item[check.field as keyof ItemRecord]
+    return hasValue(value)
+  }
+  const label = check.label?.toLowerCase()
+  const matching = relationships.filter(rel => (
+    (!check.lens || rel.toLens === check.lens) &&
+    (!label || rel.relationshipType?.toLowerCase() === label || rel.fromItemIdRelationshipType?.toLowerCase() === label)
+  ))
+  return matching.length >= check.min
+}
+
+// Rules an item breaks, most severe first
+export function evaluateItem(item: ItemRecord, context: DataQualityContext, rules = getDataQualityRules()): DataQualityRule[] {
+  return rules
+    .filter(rule => ruleApplies(rule, item, context.asOf) && !passes(rule.check, item, context.relationships.get(item.id!) || []))
+    .sort((a, b) => DATA_QUALITY_SEVERITIES.indexOf(a.severity) - DATA_QUALITY_SEVERITIES.indexOf(b.severity))
+}
+
+export function worstSeverity(rules: DataQualityRule[]): DataQualitySeverity | null {
+  for (const severity of DATA_QUALITY_SEVERITIES) {
+    if (rules.some(r => r.severity === severity)) return severity
+  }
+  return null
+}
+
+// Broken rules for some items (e.g. one lens), keyed by item id. Relationships
+// are counted against the whole landscape, so those to items in other lenses
+// that are retired on the date don't count, as in checkDataQuality.
+export async function checkItems(items: ItemRecord[], asOf?: string): Promise<Map<number, DataQualityRule[]>> {
+  const [rules, stored, storedRelationships] = await Promise.all([
+    loadDataQualityRules(),
+    db.items.toArray(),
+    db.relationships.toArray(),
+  ])
+  const context = buildDataQualityContext(stored, storedRelationships, asOf)
+  return new Map(items.map(item => [item.id!, evaluateItem(item, context, rules)]))
+}
+
+// Every violation in the landscape on a date
+export async function checkDataQuality(asOf?: string): Promise<DataQualityViolation[]> {
+  const [rules, stored, storedRelationships] = await Promise.all([
+    loadDataQualityRules(),
+    db.items.toArray(),
+    db.relationships.toArray(),
+  ])
+  const { items } = landscapeAsOf(stored, storedRelationships, asOf)
+  const context = buildDataQualityContext(stored, storedRelationships, asOf)
+  return items.flatMap(item => evaluateItem(item, context, rules).map(rule => ({ item, rule })))
+}
@@ -0,0 +1,179 @@
+import { DEFAULT_RELATIONSHIP_TYPE, type ItemRecord, type LensDefinition, type RelationshipLineStyle, type RelationshipRecord } from '../types'
+import { buildItemTree, type ItemTreeNode } from './hierarchy'
+import { getRelationshipTypeDefinition, orientByType } from './relationshipTypes'
+
+// Text exports of a diagram for docs-as-code: Mermaid flowchart, PlantUML and
+// Graphviz DOT. Lenses become subgraphs, items with children nested subgraphs
+// holding the item and its children, and relationships labelled edges.
+
+export type DiagramCodeFormat = 'mermaid' | 'plantuml' | 'dot'
+
+export const DIAGRAM_CODE_FORMATS: Array<{ value: DiagramCodeFormat; label: string; extension: string }> = [
+  { value: 'mermaid', label: 'Mermaid', extension: 'mmd' },
+  { value: 'plantuml', label: 'PlantUML', extension: 'puml' },
+  { value: 'dot', label: 'Graphviz DOT', extension: 'dot' },
+]
+
+// What is on screen: lenses in display order, their items and the relationships between them
+export interface DiagramGraph {
+  lenses: Pick<LensDefinition, 'key' | 'label'>[]
+  items: ItemRecord[]
+  relationships: RelationshipRecord[]
+}
+
+interface DiagramEdge {
+  from: number
+  to: number
+  label?: string
+  directed: boolean
+  color?: string
+  lineStyle: RelationshipLineStyle
+}
+
+// Edges read from the item on the type's from side and labelled with that side,
+// e.g. "CRM Hosts Billing". Symmetric types are drawn without an arrow and the
+// Default type without a label.
+function diagramEdges(graph: DiagramGraph): DiagramEdge[] {
+  const ids = new Set(graph.items.map(i => i.id!))
+  return graph.relationships
+    .filter(rel => ids.has(rel.fromItemId) && ids.has(rel.toItemId))
+    .map(rel => {
+      const oriented = orientByType(rel)
+      const type = getRelationshipTypeDefinition(rel.relationshipType)
+      const isDefault = (rel.relationshipType || DEFAULT_RELATIONSHIP_TYPE) === DEFAULT_RELATIONSHIP_TYPE
+      return {
+        from: oriented.fromItemId,
+        to: oriented.toItemId,
+        label: isDefault ? undefined : oriented.fromItemIdRelationshipType,
+        directed: !type || type.fromLabel !== type.toLabel,
+        color: type?.color,
+        lineStyle: type?.lineStyle || 'solid',
+      }
+    })
+}
+
+function lensTrees(graph: DiagramGraph): Array<{ lens: Pick<LensDefinition, 'key' | 'label'>; roots: ItemTreeNode[] }> {
+  return graph.lenses
+    .map(lens => ({ lens, roots: buildItemTree(graph.items.filter(i => i.lens === lens.key)) }))
+    .filter(({ roots }) => roots.length > 0)
+}
+
+// Identifier-safe form of a lens key
+function slug(value: string): string {
+  return value.replace(/[^A-Za-z0-9_]/g, '_')
+}
+
+// Writes lens and parent groups with a per-format syntax
+interface GroupSyntax {
+  open: (id: string, label: string) => string
+  close: string
+  node: (item: ItemRecord) => string
+}
+
+function writeGroups(graph: DiagramGraph, syntax: GroupSyntax, indent = '  '): string[] {
+  const lines: string[] = []
+  const writeNode = (node: ItemTreeNode, depth: number) => {
+    const pad = indent.repeat(depth)
+    if (node.children.length === 0) {
+      lines.push(pad + syntax.node(node.item))
+      return
+    }
+    lines.push(pad + syntax.open(`p${node.item.id}`, node.item.name))
+    lines.push(pad + indent + syntax.node(node.item))
+    node.children.forEach(child => writeNode(child, depth + 1))
+    lines.push(pad + syntax.close)
+  }
+  lensTrees(graph).forEach(({ lens, roots }) => {
+    lines.push(indent + syntax.open(`lens_${slug(lens.key)}`, lens.label))
+    roots.forEach(root => writeNode(root, 2))
+    lines.push(indent + syntax.close)
+  })
+  return lines
+}
+
+function mermaidText(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`
+}
+
+export function toMermaid(graph: DiagramGraph): string {
+  const edges = diagramEdges(graph)
+  const lines = [
+    'flowchart LR',
+    ...writeGroups(graph, {
+      open: (id, label) => `subgraph ${id}[${mermaidText(label)}]`,
+      close: 'end',
+      node: item => `i${item.id}[${mermaidText(item.name)}]`,
+    }),
+  ]
+  edges.forEach(edge => {
+    // Mermaid has one broken line style for both dashed and dotted
+    const arrow = edge.lineStyle !== 'solid' ? (edge.directed ? '-.->' : '-.-') : (edge.directed ? '-->' : '---')
+    lines.push(`  i${edge.from} ${arrow}${edge.label ? `|${mermaidText(edge.label)}|` : ''} i${edge.to}`)
+  })
+  // Links are styled by their position in the file
+  edges.forEach((edge, idx) => {
+    if (edge.color) lines.push(`  linkStyle ${idx} stroke:${edge.color}`)
+  })
+  return lines.join('\n') + '\n'
+}
+
+function plantUmlText(value: string): string {
+  // PlantUML has no escape for double quotes in names
+  return `"${value.replace(/"/g, "'")}"`
+}
+
+export function toPlantUml(graph: DiagramGraph): string {
+  const lines = [
+    '@startuml',
+    'left to right direction',
+    ...writeGroups(graph, {
+      open: (id, label) => `rectangle ${plantUmlText(label)} as ${id} {`,
+      close: '}',
+      node: item => `rectangle ${plantUmlText(item.name)} as i${item.id}`,
+    }),
+  ]
+  diagramEdges(graph).forEach(edge => {
+    const style = [edge.color, edge.lineStyle !== 'solid' ? edge.lineStyle : undefined].filter(Boolean).join(',')
+    const line = `-${style ? `[${style}]` : ''}-${edge.directed ? '>' : ''}`
+    lines.push(`i${edge.from} ${line} i${edge.to}${edge.label ? ` : ${edge.label}` : ''}`)
+  })
+  lines.push('@enduml')
+  return lines.join('\n') + '\n'
+}
+
+function dotText(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+export function toDot(graph: DiagramGraph): string {
+  const lines = [
+    'digraph "Arch Lenses" {',
+    '  rankdir=LR',
+    '  node [shape=box]',
+    ...writeGroups(graph, {
+      // Graphviz only draws subgraphs named cluster_* as boxes
+      open: (id, label) => `subgraph cluster_${id} { label=${dotText(label)}`,
+      close: '}',
+      node: item => `i${item.id} [label=${dotText(item.name)}]`,
+    }),
+  ]
+  diagramEdges(graph).forEach(edge => {
+    const attributes = [
+      edge.label ? `label=${dotText(edge.label)}` : undefined,
+      edge.directed ? undefined : 'dir=none',
+      edge.color ? `color=${dotText(edge.color)}` : undefined,
+      edge.lineStyle !== 'solid' ? `style=${edge.lineStyle}` : undefined,
+    ].filter(Boolean)
+    lines.push(`  i${edge.from} -> i${edge.to}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''}`)
+  })
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+export function toDiagramCode(graph: DiagramGraph, format: DiagramCodeFormat): string {
+  switch (format) {
+    case 'mermaid': return toMermaid(graph)
+    case 'plantuml': return toPlantUml(graph)
+    case 'dot': return toDot(graph)
+  }
+}
@@ -0,0 +1,140 @@
+import type { ItemRecord } from '../types'
+import { workspaceStorage } from './workspaceStorage'
+
+export interface DuplicateGroup {
+  items: ItemRecord[]
+  reasons: string[]
+  score: number // best pair score in the group, 0..1
+}
+
+const DISMISSED_KEY = 'duplicate-dismissed-pairs'
+
+// Pairs scoring below this are not reported
+const MIN_SCORE = 0.5
+// A name match this strong is reported even without shared tags or architects
+const STRONG_NAME_MATCH = 0.75
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').split(' ').filter(Boolean)
+}
+
+function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0]
+    prev[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j]
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diag = above
+    }
+  }
+  return prev[b.length]
+}
+
+// 0..1. Scores both typos ("Salesfroce") and one name containing the other ("CRM" / "CRM Platform").
+export function nameSimilarity(a: string, b: string): number {
+  const ta = nameTokens(a)
+  const tb = nameTokens(b)
+  if (ta.length === 0 || tb.length === 0) return 0
+  const ja = ta.join(' ')
+  const jb = tb.join(' ')
+  if (ja === jb) return 1
+  const shared = ta.filter(t => tb.includes(t)).length
+  const containment = shared / Math.min(ta.length, tb.length)
+  const edit = 1 - levenshtein(ja, jb) / Math.max(ja.length, jb.length)
+  return Math.max(containment * 0.9, edit)
+}
+
+function overlap(a: string[], b: string[]): string[] {
+  const setB = new Set(b.map(v => v.trim().toLowerCase()).filter(Boolean))
+  return Array.from(new Set(a.map(v => v.trim().toLowerCase()).filter(v => setB.has(v))))
+}
+
+function architects(item: ItemRecord): string[] {
+  return [item.primaryArchitect || '', ...(item.secondaryArchitects || [])].filter(Boolean)
+}
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`
+}
+
+export function loadDismissedPairs(): Set<string> {
+  try {
+    const stored = workspaceStorage.getItem(DISMISSED_KEY)
+    if (stored) return new Set(JSON.parse(stored) as string[])
+  } catch (e) {
+    console.error('Failed to load dismissed duplicates:', e)
+  }
+  return new Set()
+}
+
+// Remember that the items in a group are not duplicates of each other
+export function dismissDuplicateGroup(group: DuplicateGroup): void {
+  const dismissed = loadDismissedPairs()
+  group.items.forEach(a => group.items.forEach(b => {
+    if (a.id! < b.id!) dismissed.add(pairKey(a.id!, b.id!))
+  }))
+  try {
+    workspaceStorage.setItem(DISMISSED_KEY, JSON.stringify(Array.from(dismissed)))
+  } catch (e) {
+    console.error('Failed to save dismissed duplicates:', e)
+  }
+}
+
+// Find likely duplicates within and across lenses. Pairs are scored on name
+// similarity, shared tags and shared architects, then linked into groups.
+export function findDuplicateGroups(items: ItemRecord[], lensLabel: (key: string) => string = k => k): DuplicateGroup[] {
+  const dismissed = loadDismissedPairs()
+  const parent = new Map<number, number>()
+  const find = (id: number): number => {
+    const p = parent.get(id) ?? id
+    if (p === id) return id
+    const root = find(p)
+    parent.set(id, root)
+    return root
+  }
+  const groupReasons = new Map<number, { reasons: string[]; score: number }>()
+  const pairs: Array<{ a: ItemRecord; b: ItemRecord; reason: string; score: number }> = []
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i]
+      const b = items[j]
+      if (dismissed.has(pairKey(a.id!, b.id!))) continue
+      const nameScore = nameSimilarity(a.name, b.name)
+      if (nameScore < 0.4) continue
+      const sharedTags = overlap(a.tags || [], b.tags || [])
+      const sharedArchitects = overlap(architects(a), architects(b))
+      const score = Math.min(1, nameScore * 0.7 + (sharedTags.length > 0 ? 0.15 : 0) + (sharedArchitects.length > 0 ? 0.15 : 0))
+      if (nameScore < STRONG_NAME_MATCH && score < MIN_SCORE) continue
+      if (nameScore < STRONG_NAME_MATCH && sharedTags.length === 0 && sharedArchitects.length === 0) continue
+
+      const details = [`names ${Math.round(nameScore * 100)}% similar`]
+      if (sharedTags.length > 0) details.push(`shared tags: ${sharedTags.join(', ')}`)
+      if (sharedArchitects.length > 0) details.push(`shared architects: ${sharedArchitects.join(', ')}`)
+      const where = a.lens === b.lens ? lensLabel(a.lens) : `${lensLabel(a.lens)} / ${lensLabel(b.lens)}`
+      pairs.push({ a, b, score, reason: `"${a.name}" and "${b.name}" (${where}): ${details.join('; ')}` })
+      parent.set(find(a.id!), find(b.id!))
+    }
+  }
+
+  pairs.forEach(({ a, reason, score }) => {
+    const root = find(a.id!)
+    const entry = groupReasons.get(root) || { reasons: [], score: 0 }
+    entry.reasons.push(reason)
+    entry.score = Math.max(entry.score, score)
+    groupReasons.set(root, entry)
+  })
+
+  const members = new Map<number, ItemRecord[]>()
+  items.forEach(item => {
+    const root = find(item.id!)
+    if (!groupReasons.has(root)) return
+    members.set(root, [...(members.get(root) || []), item])
+  })
+
+  return Array.from(members.entries())
+    .map(([root, groupItems]) => ({ items: groupItems, ...groupReasons.get(root)! }))
+    .sort((a, b) => b.score - a.score)
+}
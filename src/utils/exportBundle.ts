@@ -0,0 +1,415 @@
+import { collapseRelationshipPairs } from '../db'
+import {
+  ARCHIMATE_ELEMENT_TYPES,
+  ARCHIMATE_RELATIONSHIP_TYPES,
+  DATA_QUALITY_SEVERITIES,
+  DEFAULT_RELATIONSHIP_TYPE,
+  DEFAULT_RELATIONSHIP_TYPES,
+  LIFECYCLE_STATUSES,
+  RELATIONSHIP_LIFECYCLE_STATUSES,
+  type ExportBundle,
+  type RelationshipRecord,
+} from '../types'
+
+// Format written by Export. Older files are upgraded on import, one version at a time.
+export const EXPORT_BUNDLE_VERSION = 2
+
+type LooseRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is LooseRecord {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function records(value: unknown): LooseRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : []
+}
+
+// Version 1 files were written straight from the tables of whichever database
+// version made them: relationships may be mirrored pairs without side labels or
+// with old lifecycle values, and older records lack fields added since.
+function upgradeFromV1(bundle: LooseRecord): LooseRecord {
+  const types = [...records(bundle.relationshipTypes), ...DEFAULT_RELATIONSHIP_TYPES]
+  const relationships = collapseRelationshipPairs(records(bundle.relationships) as unknown as RelationshipRecord[]).kept
+    .map(rel => {
+      const type = types.find(t => t.name === (rel.relationshipType || DEFAULT_RELATIONSHIP_TYPE))
+        ?? types.find(t => t.name === DEFAULT_RELATIONSHIP_TYPE)!
+      const status = rel.lifecycleStatus as string | undefined
+      return {
+        ...rel,
+        relationshipType: type.name,
+        fromItemIdRelationshipType: rel.fromItemIdRelationshipType || type.fromLabel,
+        toItemIdRelationshipType: rel.toItemIdRelationshipType || type.toLabel,
+        lifecycleStatus: status === 'Plan' || status === 'Planned to add' ? 'Planned to add'
+          : status === 'Planned to remove' ? 'Planned to remove' : 'Existing',
+      }
+    })
+  return {
+    ...bundle,
+    version: 2,
+    items: records(bundle.items).map(item => ({
+      ...item,
+      secondaryArchitects: Array.isArray(item.secondaryArchitects) ? item.secondaryArchitects : [],
+      tags: Array.isArray(item.tags) ? item.tags : [],
+    })),
+    relationships,
+    teamMembers: bundle.teamMembers && records(bundle.teamMembers).map(member => ({ team: 'Architecture', ...member })),
+    meetingNotes: bundle.meetingNotes && records(bundle.meetingNotes).map(note => ({
+      ...note,
+      title: typeof note.title === 'string' ? note.title : '',
+      participants: typeof note.participants === 'string' ? note.participants : '',
+    })),
+    tasks: bundle.tasks && records(bundle.tasks).map(task => {
+      // Tasks referred to a single item before they could refer to several
+      const { itemReference, ...rest } = task
+      return {
+        ...rest,
+        itemReferences: Array.isArray(task.itemReferences) ? task.itemReferences
+          : typeof itemReference === 'number' ? [itemReference] : [],
+      }
+    }),
+    lenses: Array.isArray(bundle.lenses) ? bundle.lenses : [],
+  }
+}
+
+const UPGRADES: Record<number, (bundle: LooseRecord) => LooseRecord> = {
+  1: upgradeFromV1,
+}
+
+// Bring a parsed file up to the current format
+export function upgradeBundle(data: unknown): unknown {
+  if (!isRecord(data)) return data
+  let bundle = data
+  // Files from before the format was versioned have no version number
+  const declared = bundle.version === undefined ? 1 : bundle.version
+  if (typeof declared !== 'number' || !Number.isInteger(declared) || declared < 1) {
+    throw new Error(`Unknown export format version: ${JSON.stringify(bundle.version)}`)
+  }
+  let version = declared
+  if (version > EXPORT_BUNDLE_VERSION) {
+    throw new Error(`This file uses export format version ${version}, which is newer than this app supports (${EXPORT_BUNDLE_VERSION}). Please update the app.`)
+  }
+  while (version < EXPORT_BUNDLE_VERSION) {
+    bundle = UPGRADES[version](bundle)
+    version = bundle.version as number
+  }
+  return bundle
+}
+
+// --- Schema ----------------------------------------------------------------
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'string[]' | 'number[]'
+
+interface FieldSpec {
+  type: FieldType
+  required?: boolean
+  nonEmpty?: boolean // Strings that must not be blank
+  values?: readonly string[] // Allowed values of a string field
+}
+
+type RecordSchema = Record<string, FieldSpec>
+
+const ID: FieldSpec = { type: 'number', required: true }
+const NAME: FieldSpec = { type: 'string', required: true, nonEmpty: true }
+const TIMESTAMPS: RecordSchema = {
+  createdAt: { type: 'number', required: true },
+  updatedAt: { type: 'number', required: true },
+}
+
+const COLLECTION_SCHEMAS = {
+  items: {
+    id: ID,
+    lens: NAME,
+    name: NAME,
+    description: { type: 'string' },
+    lifecycleStatus: { type: 'string', values: LIFECYCLE_STATUSES },
+    lifecycleTransitions: { type: 'array' },
+    businessContact: { type: 'string' },
+    techContact: { type: 'string' },
+    primaryArchitect: { type: 'string' },
+    secondaryArchitects: { type: 'string[]', required: true },
+    architectureManager: { type: 'string' },
+    businessContactId: { type: 'number' },
+    techContactId: { type: 'number' },
+    primaryArchitectId: { type: 'number' },
+    secondaryArchitectIds: { type: 'number[]' },
+    architectureManagerId: { type: 'number' },
+    tags: { type: 'string[]', required: true },
+    skillsGaps: { type: 'string' },
+    parentId: { type: 'number' },
+    parent: { type: 'string' },
+    hyperlinks: { type: 'array' },
+    customFields: { type: 'object' },
+    ...TIMESTAMPS,
+  },
+  relationships: {
+    id: ID,
+    fromLens: NAME,
+    fromItemId: { type: 'number', required: true },
+    toLens: NAME,
+    toItemId: { type: 'number', required: true },
+    lifecycleStatus: { type: 'string', values: RELATIONSHIP_LIFECYCLE_STATUSES },
+    lifecycleTransitions: { type: 'array' },
+    relationshipType: { type: 'string' },
+    fromItemIdRelationshipType: { type: 'string' },
+    toItemIdRelationshipType: { type: 'string' },
+    note: { type: 'string' },
+    createdAt: { type: 'number', required: true },
+  },
+  teamMembers: {
+    id: ID,
+    name: NAME,
+    manager: { type: 'string' },
+    managerId: { type: 'number' },
+    team: { type: 'string', values: ['Architecture', 'Business Stakeholder', 'Tech Stakeholder'] },
+    ...TIMESTAMPS,
+  },
+  meetingNotes: {
+    id: ID,
+    title: { type: 'string', required: true },
+    participants: { type: 'string', required: true },
+    participantIds: { type: 'number[]' },
+    dateTime: { type: 'number', required: true },
+    content: { type: 'string', required: true },
+    relatedItems: { type: 'number[]' },
+    ...TIMESTAMPS,
+  },
+  tasks: {
+    id: ID,
+    meetingNoteId: { type: 'number' },
+    description: { type: 'string', required: true },
+    assignedTo: { type: 'string' },
+    assignedToId: { type: 'number' },
+    itemReferences: { type: 'number[]', required: true },
+    completedAt: { type: 'number' },
+    ...TIMESTAMPS,
+  },
+  lenses: {
+    key: NAME,
+    label: NAME,
+    order: { type: 'number', required: true },
+    customFields: { type: 'array' },
+    archimateType: { type: 'string', values: ARCHIMATE_ELEMENT_TYPES },
+    color: { type: 'string' },
+  },
+  relationshipTypes: {
+    name: NAME,
+    fromLabel: NAME,
+    toLabel: NAME,
+    color: { type: 'string' },
+    lineStyle: { type: 'string', values: ['solid', 'dashed', 'dotted'] },
+    archimateType: { type: 'string', values: ARCHIMATE_RELATIONSHIP_TYPES },
+    order: { type: 'number', required: true },
+  },
+  tagDefinitions: {
+    name: NAME,
+    color: { type: 'string' },
+    category: { type: 'string' },
+  },
+  savedFilters: {
+    name: NAME,
+    query: NAME,
+  },
+  dataQualityRules: {
+    name: NAME,
+    lens: { type: 'string' },
+    status: { type: 'string', values: LIFECYCLE_STATUSES },
+    check: { type: 'object', required: true },
+    severity: { type: 'string', required: true, values: DATA_QUALITY_SEVERITIES },
+    enabled: { type: 'boolean', required: true },
+  },
+} satisfies Record<string, RecordSchema>
+
+type Collection = keyof typeof COLLECTION_SCHEMAS
+
+// Collections every file has, even if empty
+const REQUIRED_COLLECTIONS: Collection[] = ['items', 'relationships']
+
+const TYPE_DESCRIPTIONS: Record<FieldType, string> = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'true or false',
+  object: 'an object',
+  array: 'a list',
+  'string[]': 'a list of strings',
+  'number[]': 'a list of numbers',
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string'
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'boolean': return typeof value === 'boolean'
+    case 'object': return isRecord(value)
+    case 'array': return Array.isArray(value)
+    case 'string[]': return Array.isArray(value) && value.every(v => typeof v === 'string')
+    case 'number[]': return Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v))
+  }
+}
+
+function validateRecord(record: unknown, path: string, schema: RecordSchema, errors: string[]) {
+  if (!isRecord(record)) {
+    errors.push(`${path} must be an object`)
+    return
+  }
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = record[field]
+    if (value === undefined || value === null) {
+      if (spec.required) errors.push(`${path}.${field} is required`)
+      continue
+    }
+    if (!hasType(value, spec.type)) {
+      errors.push(`${path}.${field} must be ${TYPE_DESCRIPTIONS[spec.type]}`)
+    } else if (spec.nonEmpty && !(value as string).trim()) {
+      errors.push(`${path}.${field} must not be empty`)
+    } else if (spec.values && !spec.values.includes(value as string)) {
+      errors.push(`${path}.${field} must be one of: ${spec.values.join(', ')} (found "${value}")`)
+    }
+  }
+}
+
+// What a file's references may point at besides its own records
+export interface BundleValidationContext {
+  lensKeys: string[] // Lenses in the current database
+  relationshipTypes: string[] // Relationship type names in the current database
+}
+
+// One message per problem, e.g. 'items[42].lens refers to unknown lens "apps"'.
+// Errors reject the file; warnings are references to items (or notes) missing
+// from it, which real databases can hold and which are dropped on import.
+export interface BundleValidation {
+  errors: string[]
+  warnings: string[]
+}
+
+// Check the shape of an upgraded file and the references between its records
+export function validateBundle(data: unknown, context: BundleValidationContext): BundleValidation {
+  const errors: string[] = []
+  const warnings: string[] = []
+  if (!isRecord(data)) return { errors: ['The file does not contain an export'], warnings }
+  if (data.version !== EXPORT_BUNDLE_VERSION) errors.push(`version must be ${EXPORT_BUNDLE_VERSION}`)
+  if (typeof data.exportedAt !== 'string') errors.push('exportedAt must be a string')
+  if (data.workspace !== undefined && typeof data.workspace !== 'string') errors.push('workspace must be a string')
+
+  for (const [collection, schema] of Object.entries(COLLECTION_SCHEMAS) as Array<[Collection, RecordSchema]>) {
+    const value = data[collection]
+    if (value === undefined) {
+      if (REQUIRED_COLLECTIONS.includes(collection)) errors.push(`${collection} is required`)
+      continue
+    }
+    if (!Array.isArray(value)) {
+      errors.push(`${collection} must be a list`)
+      continue
+    }
+    value.forEach((record, idx) => validateRecord(record, `${collection}[${idx}]`, schema, errors))
+  }
+  if (data.theme !== undefined) {
+    validateRecord(data.theme, 'theme', {
+      name: { type: 'string' },
+      colors: { type: 'object' },
+      fonts: { type: 'object' },
+    }, errors)
+  }
+  // References only make sense between well-formed records
+  if (errors.length > 0) return { errors, warnings }
+
+  const bundle = data as unknown as ExportBundle
+  const lensKeys = new Set([...context.lensKeys, ...(bundle.lenses || []).map(l => l.key)])
+  const typeNames = new Set([...context.relationshipTypes, ...(bundle.relationshipTypes || []).map(t => t.name)])
+  const itemIds = new Set(bundle.items.map(i => i.id!))
+  const noteIds = new Set((bundle.meetingNotes || []).map(n => n.id!))
+  // Notes and tasks can be exported without items, and then refer to items elsewhere
+  const checkItemRefs = bundle.items.length > 0
+
+  function checkUnique(collection: string, keys: Array<string | number>) {
+    const seen = new Set<string | number>()
+    keys.forEach((key, idx) => {
+      if (seen.has(key)) errors.push(`${collection}[${idx}] duplicates ${JSON.stringify(key)}`)
+      seen.add(key)
+    })
+  }
+  checkUnique('items', bundle.items.map(i => i.id!))
+  checkUnique('items', bundle.items.map(i => `${i.lens}/${i.name}`))
+  checkUnique('lenses', (bundle.lenses || []).map(l => l.key))
+  checkUnique('relationshipTypes', (bundle.relationshipTypes || []).map(t => t.name))
+  checkUnique('tagDefinitions', (bundle.tagDefinitions || []).map(t => t.name))
+  checkUnique('savedFilters', (bundle.savedFilters || []).map(f => f.name))
+
+  bundle.items.forEach((item, idx) => {
+    if (!lensKeys.has(item.lens)) errors.push(`items[${idx}].lens refers to unknown lens "${item.lens}"`)
+    if (item.parentId !== undefined && !itemIds.has(item.parentId)) {
+      warnings.push(`items[${idx}].parentId refers to unknown item ${item.parentId}`)
+    }
+  })
+  bundle.relationships.forEach((rel, idx) => {
+    for (const end of ['from', 'to'] as const) {
+      const itemId = rel[`${end}ItemId`]
+      if (!itemIds.has(itemId)) warnings.push(`relationships[${idx}].${end}ItemId refers to unknown item ${itemId}`)
+    }
+    if (rel.relationshipType && !typeNames.has(rel.relationshipType)) {
+      errors.push(`relationships[${idx}].relationshipType refers to unknown relationship type "${rel.relationshipType}"`)
+    }
+  })
+  bundle.tasks?.forEach((task, idx) => {
+    if (task.meetingNoteId !== undefined && bundle.meetingNotes && !noteIds.has(task.meetingNoteId)) {
+      warnings.push(`tasks[${idx}].meetingNoteId refers to unknown meeting note ${task.meetingNoteId}`)
+    }
+    if (!checkItemRefs) return
+    task.itemReferences.forEach((itemId, refIdx) => {
+      if (!itemIds.has(itemId)) warnings.push(`tasks[${idx}].itemReferences[${refIdx}] refers to unknown item ${itemId}`)
+    })
+  })
+  if (checkItemRefs) {
+    bundle.meetingNotes?.forEach((note, idx) => {
+      note.relatedItems?.forEach((itemId, refIdx) => {
+        if (!itemIds.has(itemId)) warnings.push(`meetingNotes[${idx}].relatedItems[${refIdx}] refers to unknown item ${itemId}`)
+      })
+    })
+  }
+  bundle.dataQualityRules?.forEach((rule, idx) => {
+    if (rule.lens && !lensKeys.has(rule.lens)) errors.push(`dataQualityRules[${idx}].lens refers to unknown lens "${rule.lens}"`)
+  })
+  return { errors, warnings }
+}
+
+// Remove the references validateBundle warns about: relationships to missing
+// items are dropped, and parents, task and note links to them are cleared
+function dropMissingReferences(bundle: ExportBundle): ExportBundle {
+  const itemIds = new Set(bundle.items.map(i => i.id!))
+  const noteIds = new Set((bundle.meetingNotes || []).map(n => n.id!))
+  const checkItemRefs = bundle.items.length > 0
+  return {
+    ...bundle,
+    items: bundle.items.map(item => item.parentId !== undefined && !itemIds.has(item.parentId)
+      ? { ...item, parentId: undefined, parent: undefined }
+      : item),
+    relationships: bundle.relationships.filter(rel => itemIds.has(rel.fromItemId) && itemIds.has(rel.toItemId)),
+    tasks: bundle.tasks?.map(task => ({
+      ...task,
+      meetingNoteId: task.meetingNoteId !== undefined && bundle.meetingNotes && !noteIds.has(task.meetingNoteId) ? undefined : task.meetingNoteId,
+      itemReferences: checkItemRefs ? task.itemReferences.filter(id => itemIds.has(id)) : task.itemReferences,
+    })),
+    meetingNotes: bundle.meetingNotes?.map(note => checkItemRefs && note.relatedItems
+      ? { ...note, relatedItems: note.relatedItems.filter(id => itemIds.has(id)) }
+      : note),
+  }
+}
+
+export const MAX_REPORTED_ERRORS = 10
+
+// Parse, upgrade and validate the text of an export file. References to
+// missing records are dropped and listed as warnings.
+export function parseExportBundle(text: string, context: BundleValidationContext): { bundle: ExportBundle; warnings: string[] } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  const bundle = upgradeBundle(data)
+  const { errors, warnings } = validateBundle(bundle, context)
+  if (errors.length > 0) {
+    const more = errors.length > MAX_REPORTED_ERRORS ? `\n...and ${errors.length - MAX_REPORTED_ERRORS} more` : ''
+    throw new Error(`The file is not a valid export:\n${errors.slice(0, MAX_REPORTED_ERRORS).join('\n')}${more}`)
+  }
+  return { bundle: dropMissingReferences(bundle as ExportBundle), warnings }
+}
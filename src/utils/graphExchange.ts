@@ -0,0 +1,267 @@
+import { DEFAULT_RELATIONSHIP_TYPE, type ItemRecord, type LensDefinition, type RelationshipRecord } from '../types'
+import { getRelationshipTypeDefinition, orientByType } from './relationshipTypes'
+import { escapeXml } from './xml'
+
+// Graph interchange exports for network analysis tools: GraphML (yEd, Gephi,
+// NetworkX) and GEXF (Gephi). Items become nodes carrying every item field,
+// relationships edges carrying their type, sides, lifecycle and note.
+
+export type GraphExchangeFormat = 'graphml' | 'gexf'
+
+export const GRAPH_EXCHANGE_FORMATS: Array<{ value: GraphExchangeFormat; label: string; extension: string }> = [
+  { value: 'graphml', label: 'GraphML', extension: 'graphml' },
+  { value: 'gexf', label: 'GEXF', extension: 'gexf' },
+]
+
+// Lenses without a colour of their own get one from their key
+const LENS_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16', '#06b6d4']
+
+export function getLensColor(lens: Pick<LensDefinition, 'key' | 'color'>): string {
+  if (lens.color) return lens.color
+  let hash = 0
+  for (let i = 0; i < lens.key.length; i++) {
+    hash = lens.key.charCodeAt(i) + ((hash << 5) - hash)
+  }
+  return LENS_COLORS[Math.abs(hash) % LENS_COLORS.length]
+}
+
+export interface GraphExchangeInput {
+  lenses: Pick<LensDefinition, 'key' | 'label' | 'customFields'>[]
+  items: ItemRecord[]
+  relationships: RelationshipRecord[]
+  positions: Map<number, { x: number; y: number }> // Node centres from the diagram layout
+  nodeSize: { width: number; height: number }
+  colors: Map<number, string> // Hex colour each item is drawn with
+}
+
+type AttributeType = 'string' | 'int' | 'long'
+
+interface Attribute<T> {
+  id: string
+  title: string
+  type: AttributeType
+  value: (record: T) => string | number | undefined
+}
+
+// Lists are joined with commas; structured fields are written as JSON
+function listValue(values: Array<string | number> | undefined): string | undefined {
+  return values && values.length > 0 ? values.join(', ') : undefined
+}
+
+function jsonValue(value: unknown[] | undefined): string | undefined {
+  return value && value.length > 0 ? JSON.stringify(value) : undefined
+}
+
+const ITEM_ATTRIBUTES: Attribute<ItemRecord>[] = [
+  { id: 'lens', title: 'Lens', type: 'string', value: item => item.lens },
+  { id: 'name', title: 'Name', type: 'string', value: item => item.name },
+  { id: 'description', title: 'Description', type: 'string', value: item => item.description },
+  { id: 'lifecycleStatus', title: 'Lifecycle status', type: 'string', value: item => item.lifecycleStatus },
+  { id: 'lifecycleTransitions', title: 'Lifecycle transitions', type: 'string', value: item => jsonValue(item.lifecycleTransitions) },
+  { id: 'businessContact', title: 'Business contact', type: 'string', value: item => item.businessContact },
+  { id: 'businessContactId', title: 'Business contact id', type: 'int', value: item => item.businessContactId },
+  { id: 'techContact', title: 'Tech contact', type: 'string', value: item => item.techContact },
+  { id: 'techContactId', title: 'Tech contact id', type: 'int', value: item => item.techContactId },
+  { id: 'primaryArchitect', title: 'Primary architect', type: 'string', value: item => item.primaryArchitect },
+  { id: 'primaryArchitectId', title: 'Primary architect id', type: 'int', value: item => item.primaryArchitectId },
+  { id: 'secondaryArchitects', title: 'Secondary architects', type: 'string', value: item => listValue(item.secondaryArchitects) },
+  { id: 'secondaryArchitectIds', title: 'Secondary architect ids', type: 'string', value: item => listValue(item.secondaryArchitectIds) },
+  { id: 'architectureManager', title: 'Architecture manager', type: 'string', value: item => item.architectureManager },
+  { id: 'architectureManagerId', title: 'Architecture manager id', type: 'int', value: item => item.architectureManagerId },
+  { id: 'tags', title: 'Tags', type: 'string', value: item => listValue(item.tags) },
+  { id: 'skillsGaps', title: 'Skills gaps', type: 'string', value: item => item.skillsGaps },
+  { id: 'parent', title: 'Parent', type: 'string', value: item => item.parent },
+  { id: 'parentId', title: 'Parent id', type: 'int', value: item => item.parentId },
+  { id: 'hyperlinks', title: 'Hyperlinks', type: 'string', value: item => jsonValue(item.hyperlinks) },
+  { id: 'createdAt', title: 'Created', type: 'long', value: item => item.createdAt },
+  { id: 'updatedAt', title: 'Updated', type: 'long', value: item => item.updatedAt },
+]
+
+const EDGE_ATTRIBUTES: Attribute<RelationshipRecord>[] = [
+  { id: 'relationshipType', title: 'Relationship type', type: 'string', value: rel => rel.relationshipType || DEFAULT_RELATIONSHIP_TYPE },
+  { id: 'sourceSide', title: 'Source side', type: 'string', value: rel => rel.fromItemIdRelationshipType },
+  { id: 'targetSide', title: 'Target side', type: 'string', value: rel => rel.toItemIdRelationshipType },
+  { id: 'lifecycleStatus', title: 'Lifecycle status', type: 'string', value: rel => rel.lifecycleStatus },
+  { id: 'note', title: 'Note', type: 'string', value: rel => rel.note },
+]
+
+// Node attributes: the item fields, then one per custom field of the exported lenses
+function itemAttributes(input: GraphExchangeInput): Attribute<ItemRecord>[] {
+  const custom = new Map<string, string>()
+  input.lenses.forEach(lens => (lens.customFields || []).forEach(field => {
+    if (!custom.has(field.key)) custom.set(field.key, field.label)
+  }))
+  return [
+    ...ITEM_ATTRIBUTES,
+    ...Array.from(custom, ([key, label]) => ({
+      id: `customFields.${key}`,
+      title: label,
+      type: 'string' as const,
+      value: (item: ItemRecord) => item.customFields?.[key],
+    })),
+  ]
+}
+
+interface ExchangeEdge {
+  rel: RelationshipRecord // Oriented from the type's from side
+  directed: boolean
+  label?: string
+  color?: string
+}
+
+function exchangeEdges(input: GraphExchangeInput): ExchangeEdge[] {
+  const ids = new Set(input.items.map(i => i.id!))
+  return input.relationships
+    .filter(rel => ids.has(rel.fromItemId) && ids.has(rel.toItemId))
+    .map(rel => {
+      const type = getRelationshipTypeDefinition(rel.relationshipType)
+      const oriented = orientByType(rel)
+      return {
+        rel: oriented,
+        directed: !type || type.fromLabel !== type.toLabel,
+        label: oriented.fromItemIdRelationshipType,
+        color: type?.color,
+      }
+    })
+}
+
+function hexToRgb(hex: string | undefined): { r: number; g: number; b: number } | undefined {
+  const match = hex?.match(/^#([0-9a-f]{3}|[0-9a-f]{6})([0-9a-f]{2})?$/i)
+  if (!match) return undefined
+  const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1]
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+  }
+}
+
+function solidHex(hex: string | undefined): string | undefined {
+  const rgb = hexToRgb(hex)
+  return rgb && '#' + [rgb.r, rgb.g, rgb.b].map(c => c.toString(16).padStart(2, '0')).join('')
+}
+
+const GRAPHML_TYPES: Record<AttributeType, string> = { string: 'string', int: 'int', long: 'long' }
+
+// GraphML with yEd's node graphics, so yEd shows the diagram's positions and colours
+export function toGraphMl(input: GraphExchangeInput): string {
+  const nodeAttributes = itemAttributes(input)
+  const edges = exchangeEdges(input)
+  const data = (key: string, value: string | number | undefined) =>
+    value === undefined || value === '' ? [] : [`      <data key="${key}">${escapeXml(String(value))}</data>`]
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:y="http://www.yworks.com/xml/graphml"',
+    '  xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://www.yworks.com/xml/schema/graphml/1.1/ygraphml.xsd">',
+    ...nodeAttributes.map(a => `  <key id="n.${escapeXml(a.id)}" for="node" attr.name="${escapeXml(a.title)}" attr.type="${GRAPHML_TYPES[a.type]}"/>`),
+    '  <key id="n.x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="n.y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="n.graphics" for="node" yfiles.type="nodegraphics"/>',
+    ...EDGE_ATTRIBUTES.map(a => `  <key id="e.${a.id}" for="edge" attr.name="${escapeXml(a.title)}" attr.type="${GRAPHML_TYPES[a.type]}"/>`),
+    '  <key id="e.graphics" for="edge" yfiles.type="edgegraphics"/>',
+    '  <graph id="G" edgedefault="directed">',
+  ]
+  const { width, height } = input.nodeSize
+  input.items.forEach(item => {
+    const pos = input.positions.get(item.id!)
+    const color = solidHex(input.colors.get(item.id!))
+    lines.push(`    <node id="n${item.id}">`)
+    nodeAttributes.forEach(a => lines.push(...data(`n.${escapeXml(a.id)}`, a.value(item))))
+    if (pos) lines.push(...data('n.x', pos.x), ...data('n.y', pos.y))
+    lines.push(
+      '      <data key="n.graphics">',
+      '        <y:ShapeNode>',
+      // yEd positions nodes by their top-left corner
+      ...(pos ? [`          <y:Geometry x="${pos.x - width / 2}" y="${pos.y - height / 2}" width="${width}" height="${height}"/>`] : []),
+      ...(color ? [`          <y:Fill color="${color}" transparent="false"/>`] : []),
+      `          <y:NodeLabel>${escapeXml(item.name)}</y:NodeLabel>`,
+      '          <y:Shape type="roundrectangle"/>',
+      '        </y:ShapeNode>',
+      '      </data>',
+      '    </node>',
+    )
+  })
+  edges.forEach(({ rel, directed, label, color }) => {
+    lines.push(`    <edge id="e${rel.id}" source="n${rel.fromItemId}" target="n${rel.toItemId}"${directed ? '' : ' directed="false"'}>`)
+    EDGE_ATTRIBUTES.forEach(a => lines.push(...data(`e.${a.id}`, a.value(rel))))
+    lines.push(
+      '      <data key="e.graphics">',
+      '        <y:PolyLineEdge>',
+      ...(color ? [`          <y:LineStyle color="${solidHex(color) || color}" type="line" width="1.0"/>`] : []),
+      `          <y:Arrows source="none" target="${directed ? 'standard' : 'none'}"/>`,
+      ...(label ? [`          <y:EdgeLabel>${escapeXml(label)}</y:EdgeLabel>`] : []),
+      '        </y:PolyLineEdge>',
+      '      </data>',
+      '    </edge>',
+    )
+  })
+  lines.push('  </graph>', '</graphml>', '')
+  return lines.join('\n')
+}
+
+const GEXF_TYPES: Record<AttributeType, string> = { string: 'string', int: 'integer', long: 'long' }
+
+export function toGexf(input: GraphExchangeInput): string {
+  const nodeAttributes = itemAttributes(input)
+  const edges = exchangeEdges(input)
+  const attvalues = (values: Array<[string, string | number | undefined]>, indent: string) => {
+    const set = values.filter(([, value]) => value !== undefined && value !== '')
+    if (set.length === 0) return []
+    return [
+      `${indent}<attvalues>`,
+      ...set.map(([id, value]) => `${indent}  <attvalue for="${escapeXml(id)}" value="${escapeXml(String(value))}"/>`),
+      `${indent}</attvalues>`,
+    ]
+  }
+  const vizColor = (hex: string | undefined, indent: string) => {
+    const rgb = hexToRgb(hex)
+    return rgb ? [`${indent}<viz:color r="${rgb.r}" g="${rgb.g}" b="${rgb.b}"/>`] : []
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().split('T')[0]}">`,
+    '    <creator>Arch Lenses</creator>',
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...nodeAttributes.map(a => `      <attribute id="${escapeXml(a.id)}" title="${escapeXml(a.title)}" type="${GEXF_TYPES[a.type]}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...EDGE_ATTRIBUTES.map(a => `      <attribute id="${a.id}" title="${escapeXml(a.title)}" type="${GEXF_TYPES[a.type]}"/>`),
+    '    </attributes>',
+    '    <nodes>',
+  ]
+  input.items.forEach(item => {
+    const pos = input.positions.get(item.id!)
+    lines.push(
+      `      <node id="${item.id}" label="${escapeXml(item.name)}">`,
+      ...attvalues(nodeAttributes.map(a => [a.id, a.value(item)]), '        '),
+      ...vizColor(input.colors.get(item.id!), '        '),
+      // GEXF's y axis points up, the diagram's down
+      ...(pos ? [`        <viz:position x="${pos.x}" y="${-pos.y}" z="0"/>`] : []),
+      `        <viz:size value="${input.nodeSize.width / 2}"/>`,
+      '      </node>',
+    )
+  })
+  lines.push('    </nodes>', '    <edges>')
+  edges.forEach(({ rel, directed, label, color }) => {
+    lines.push(
+      `      <edge id="${rel.id}" source="${rel.fromItemId}" target="${rel.toItemId}"${directed ? '' : ' type="undirected"'}${label ? ` label="${escapeXml(label)}"` : ''}>`,
+      ...attvalues(EDGE_ATTRIBUTES.map(a => [a.id, a.value(rel)]), '        '),
+      ...vizColor(color, '        '),
+      '      </edge>',
+    )
+  })
+  lines.push('    </edges>', '  </graph>', '</gexf>', '')
+  return lines.join('\n')
+}
+
+export function toGraphExchange(input: GraphExchangeInput, format: GraphExchangeFormat): string {
+  switch (format) {
+    case 'graphml': return toGraphMl(input)
+    case 'gexf': return toGexf(input)
+  }
+}
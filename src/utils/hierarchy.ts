@@ -0,0 +1,119 @@
+import { db } from '../db'
+import type { ItemRecord } from '../types'
+
+export interface ItemTreeNode {
+  item: ItemRecord
+  children: ItemTreeNode[]
+  depth: number
+  // Number of items below this one, at any level
+  descendantCount: number
+}
+
+// Parent of an item if the reference is usable: it exists, is in the same lens
+// and does not lead back to the item
+function validParent(item: ItemRecord, byId: Map<number, ItemRecord>): ItemRecord | undefined {
+  if (item.parentId === undefined) return undefined
+  const parent = byId.get(item.parentId)
+  if (!parent || parent.lens !== item.lens) return undefined
+  const seen = new Set<number>([item.id!])
+  let current: ItemRecord | undefined = parent
+  while (current) {
+    if (seen.has(current.id!)) return undefined
+    seen.add(current.id!)
+    current = current.parentId !== undefined ? byId.get(current.parentId) : undefined
+  }
+  return parent
+}
+
+// Arrange items into trees by parentId, siblings sorted by name. Items whose
+// parent is missing, in another lens or part of a cycle become roots.
+export function buildItemTree(items: ItemRecord[]): ItemTreeNode[] {
+  const byId = new Map(items.map(i => [i.id!, i]))
+  const childrenOf = new Map<number | undefined, ItemRecord[]>()
+  for (const item of items) {
+    const parentId = validParent(item, byId)?.id
+    const siblings = childrenOf.get(parentId) || []
+    siblings.push(item)
+    childrenOf.set(parentId, siblings)
+  }
+
+  const build = (item: ItemRecord, depth: number): ItemTreeNode => {
+    const children = (childrenOf.get(item.id) || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(child => build(child, depth + 1))
+    const descendantCount = children.reduce((sum, c) => sum + 1 + c.descendantCount, 0)
+    return { item, children, depth, descendantCount }
+  }
+  return (childrenOf.get(undefined) || [])
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(item => build(item, 0))
+}
+
+// Depth-first list of tree nodes, skipping the children of collapsed items
+export function flattenItemTree(roots: ItemTreeNode[], collapsed: Set<number> = new Set()): ItemTreeNode[] {
+  const result: ItemTreeNode[] = []
+  const visit = (node: ItemTreeNode) => {
+    result.push(node)
+    if (!collapsed.has(node.item.id!)) node.children.forEach(visit)
+  }
+  roots.forEach(visit)
+  return result
+}
+
+// Ids of every item below an item, at any level
+export function getDescendantIds(itemId: number, items: ItemRecord[]): Set<number> {
+  const childrenOf = new Map<number, number[]>()
+  items.forEach(i => {
+    if (i.parentId === undefined) return
+    childrenOf.set(i.parentId, [...(childrenOf.get(i.parentId) || []), i.id!])
+  })
+  const result = new Set<number>()
+  const stack = [...(childrenOf.get(itemId) || [])]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    if (result.has(id) || id === itemId) continue
+    result.add(id)
+    stack.push(...(childrenOf.get(id) || []))
+  }
+  return result
+}
+
+// Names from the root down to an item's parent
+export function getAncestorNames(item: ItemRecord, items: ItemRecord[]): string[] {
+  const byId = new Map(items.map(i => [i.id!, i]))
+  const names: string[] = []
+  const seen = new Set<number>([item.id!])
+  let parent = item.parentId !== undefined ? byId.get(item.parentId) : undefined
+  while (parent && !seen.has(parent.id!)) {
+    names.unshift(parent.name)
+    seen.add(parent.id!)
+    parent = parent.parentId !== undefined ? byId.get(parent.parentId) : undefined
+  }
+  return names
+}
+
+// Move an item under another item of the same lens, or to the top level when
+// parentId is undefined
+export async function setItemParent(itemId: number, parentId: number | undefined): Promise<void> {
+  await db.transaction('rw', db.items, async () => {
+    const item = await db.items.get(itemId)
+    if (!item) throw new Error('This item no longer exists')
+    if (parentId === undefined) {
+      await db.items.update(itemId, { parentId: undefined, parent: undefined, updatedAt: Date.now() })
+      return
+    }
+    const parent = await db.items.get(parentId)
+    if (!parent) throw new Error('The parent item no longer exists')
+    if (parent.lens !== item.lens) throw new Error('An item can only be placed under an item in the same lens')
+    const lensItems = await db.items.where('lens').equals(item.lens).toArray()
+    if (parentId === itemId || getDescendantIds(itemId, lensItems).has(parentId)) {
+      throw new Error(`"${item.name}" cannot be placed under itself or one of its children`)
+    }
+    await db.items.update(itemId, { parentId, parent: parent.name, updatedAt: Date.now() })
+  })
+}
+
+// Refresh the parent name copied onto the children of a renamed item
+export async function syncChildParentNames(parentId: number, name: string): Promise<void> {
+  await db.items.where('parentId').equals(parentId).modify({ parent: name })
+}
@@ -0,0 +1,130 @@
+import { db, renamePerson } from '../db'
+import { findRelationship } from './relationships'
+import { trashItem, trashMeetingNote, trashTeamMember } from './trash'
+import type { HistoryEntry, HistoryFieldChange, HistoryTable, ItemRecord, RelationshipRecord } from '../types'
+
+// Friendly labels for record fields shown in history diffs
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  lifecycleStatus: 'Lifecycle status',
+  lifecycleTransitions: 'Lifecycle changes',
+  businessContact: 'Business contact',
+  techContact: 'Tech contact',
+  primaryArchitect: 'Primary architect',
+  secondaryArchitects: 'Secondary architects',
+  tags: 'Tags',
+  skillsGaps: 'Skills gaps',
+  parent: 'Parent',
+  hyperlinks: 'Hyperlinks',
+  customFields: 'Custom fields',
+  relationshipType: 'Relationship type',
+  fromItemIdRelationshipType: 'Role',
+  toItemIdRelationshipType: 'Other role',
+  note: 'Note',
+  manager: 'Manager',
+  team: 'Team',
+  title: 'Title',
+  participants: 'Participants',
+  dateTime: 'Date',
+  content: 'Content',
+}
+
+// Person and parent id fields change together with their name fields; only the names are shown
+const HIDDEN_FIELDS = new Set([
+  'businessContactId',
+  'techContactId',
+  'primaryArchitectId',
+  'secondaryArchitectIds',
+  'architectureManagerId',
+  'assignedToId',
+  'participantIds',
+  'managerId',
+  'parentId',
+])
+
+export function isVisibleHistoryField(field: string): boolean {
+  return !HIDDEN_FIELDS.has(field)
+}
+
+export function visibleHistoryChanges(entry: HistoryEntry): HistoryFieldChange[] {
+  return entry.changes.filter(c => isVisibleHistoryField(c.field))
+}
+
+export function historyFieldLabel(field: string): string {
+  return FIELD_LABELS[field] || field
+}
+
+// Display string for a value stored in a history entry
+export function formatHistoryValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)'
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '(empty)'
+    return value.map(v => typeof v === 'object' ? JSON.stringify(v) : String(v)).join(', ')
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Newest first
+export async function getRecordHistory(table: HistoryTable, recordId: number): Promise<HistoryEntry[]> {
+  const entries = await db.history.where('[table+recordId]').equals([table, recordId]).toArray()
+  return entries.sort((a, b) => b.timestamp - a.timestamp || (b.id || 0) - (a.id || 0))
+}
+
+// Changes to an item plus changes to its relationships
+export async function getItemHistory(itemId: number): Promise<HistoryEntry[]> {
+  const entries = await db.history.where('itemIds').equals(itemId).toArray()
+  return entries
+    .filter(e => (e.table === 'items' && e.recordId === itemId) || e.table === 'relationships')
+    .sort((a, b) => b.timestamp - a.timestamp || (b.id || 0) - (a.id || 0))
+}
+
+// Records with dependents are removed through the trash, which detaches the
+// references to them and lets the undo itself be undone
+const TRASH_REMOVERS: Partial<Record<HistoryTable, (id: number) => Promise<void>>> = {
+  items: trashItem,
+  meetingNotes: trashMeetingNote,
+  teamMembers: trashTeamMember,
+}
+
+// Undo a single history entry. The revert itself is recorded as a new change.
+export async function revertHistoryEntry(entry: HistoryEntry): Promise<void> {
+  const table = db.table(entry.table)
+  if (entry.action === 'create') {
+    if (!(await table.get(entry.recordId))) throw new Error('This record no longer exists')
+    const remove = TRASH_REMOVERS[entry.table]
+    if (remove) await remove(entry.recordId)
+    else await table.delete(entry.recordId)
+  } else if (entry.action === 'delete') {
+    if (!entry.snapshot) throw new Error('No snapshot recorded for this change')
+    const existing = await table.get(entry.recordId)
+    if (existing) throw new Error('This record already exists')
+    if (entry.table === 'relationships') {
+      const rel = entry.snapshot as unknown as RelationshipRecord
+      if (await findRelationship(rel.fromItemId, rel.toItemId)) throw new Error('These items are already related')
+    }
+    if (entry.table === 'items') {
+      const item = entry.snapshot as unknown as ItemRecord
+      if (await db.items.where('[lens+name]').equals([item.lens, item.name]).first()) {
+        throw new Error(`An item named "${item.name}" already exists in that lens`)
+      }
+    }
+    await table.add({ ...entry.snapshot, id: entry.recordId })
+  } else {
+    const changes: Record<string, unknown> = {}
+    entry.changes.forEach(c => { changes[c.field] = c.before })
+    // A member's name is copied onto items, tasks and notes; renamePerson updates the copies
+    const rename = entry.table === 'teamMembers' ? entry.changes.find(c => c.field === 'name') : undefined
+    if (rename) {
+      if (!(await table.get(entry.recordId))) throw new Error('This record no longer exists')
+      const clash = await db.teamMembers.where('name').equals(String(rename.before ?? '')).first()
+      if (clash && clash.id !== entry.recordId) throw new Error(`A team member named "${clash.name}" already exists`)
+      delete changes.name
+      await renamePerson(entry.recordId, String(rename.before ?? ''))
+      if (Object.keys(changes).length === 0) return
+    }
+    const updated = await table.update(entry.recordId, changes)
+    if (updated === 0) throw new Error('This record no longer exists')
+  }
+}
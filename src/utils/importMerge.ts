@@ -0,0 +1,293 @@
+import type { Table } from 'dexie'
+import { collapseRelationshipPairs, db, linkItemParentReferences, linkPersonReferences, personKey } from '../db'
+import type { ExportBundle, ItemRecord, MeetingNote, RelationshipRecord, Task, TeamMember } from '../types'
+import { findRelationship } from './relationships'
+
+export type MergeTable = 'items' | 'teamMembers' | 'meetingNotes'
+
+// Which side wins: the whole record, or field by field
+export type MergeResolution = 'mine' | 'theirs' | 'fields'
+
+type MergeRecord = ItemRecord | TeamMember | MeetingNote
+
+export interface MergeConflict {
+  table: MergeTable
+  key: string // Match key, e.g. "applications\u0000crm"
+  label: string // e.g. "Applications: CRM"
+  mine: MergeRecord
+  theirs: MergeRecord
+  fields: string[] // Fields whose values differ
+  resolution: MergeResolution
+  fieldChoices: Record<string, 'mine' | 'theirs'> // Used when resolution is 'fields'
+}
+
+export interface MergePlan {
+  conflicts: MergeConflict[]
+  added: Record<MergeTable | 'relationships' | 'tasks', number>
+  unchanged: number // Matched records with no differences
+}
+
+// Which parts of the bundle to merge, as chosen in the import dialog
+export interface MergeOptions {
+  lenses: boolean // Items and relationships
+  people: boolean
+  notes: boolean // Meeting notes and tasks
+}
+
+// Ids and bookkeeping fields are never compared or copied; references are
+// remapped or re-linked by name after the merge
+const SKIPPED_FIELDS: Record<MergeTable, Set<string>> = {
+  items: new Set([
+    'id', 'parentId', 'businessContactId', 'techContactId', 'primaryArchitectId', 'secondaryArchitectIds',
+    'architectureManagerId', 'createdAt', 'updatedAt',
+  ]),
+  teamMembers: new Set(['id', 'managerId', 'createdAt', 'updatedAt']),
+  // Related items are combined from both sides
+  meetingNotes: new Set(['id', 'participantIds', 'relatedItems', 'createdAt', 'updatedAt']),
+}
+
+function itemKey(item: ItemRecord): string {
+  return `${item.lens}\u0000${item.name.trim().toLowerCase()}`
+}
+
+function noteKey(note: MeetingNote): string {
+  return `${note.title.trim().toLowerCase()}\u0000${note.dateTime}`
+}
+
+function recordKey(table: MergeTable, record: MergeRecord): string {
+  if (table === 'items') return itemKey(record as ItemRecord)
+  if (table === 'teamMembers') return personKey((record as TeamMember).name)
+  return noteKey(record as MeetingNote)
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isEmptyValue(a) && isEmptyValue(b)) return true
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Fields of two matched records whose values differ
+export function differingFields(table: MergeTable, mine: MergeRecord, theirs: MergeRecord): string[] {
+  const fields = new Set([...Object.keys(mine), ...Object.keys(theirs)])
+  const mineValues = mine as unknown as Record<string, unknown>
+  const theirValues = theirs as unknown as Record<string, unknown>
+  return [...fields].filter(f => !SKIPPED_FIELDS[table].has(f) && !sameValue(mineValues[f], theirValues[f]))
+}
+
+function displayLabel(table: MergeTable, record: MergeRecord, lensLabels: Map<string, string>): string {
+  if (table === 'items') {
+    const item = record as ItemRecord
+    return `${lensLabels.get(item.lens) || item.lens}: ${item.name}`
+  }
+  if (table === 'teamMembers') return (record as TeamMember).name
+  const note = record as MeetingNote
+  return `${note.title} (${new Date(note.dateTime).toLocaleString()})`
+}
+
+function tablesFor(options: MergeOptions): MergeTable[] {
+  return [
+    ...(options.people ? ['teamMembers' as const] : []),
+    ...(options.lenses ? ['items' as const] : []),
+    ...(options.notes ? ['meetingNotes' as const] : []),
+  ]
+}
+
+function bundleRecords(bundle: ExportBundle, table: MergeTable): MergeRecord[] {
+  if (table === 'items') return bundle.items || []
+  if (table === 'teamMembers') return bundle.teamMembers || []
+  return bundle.meetingNotes || []
+}
+
+// Match the bundle's records against the database and list the conflicts,
+// each defaulting to keeping the current values
+export async function planMerge(bundle: ExportBundle, options: MergeOptions): Promise<MergePlan> {
+  const lensLabels = new Map((await db.lenses.toArray()).map(l => [l.key, l.label]))
+  const plan: MergePlan = {
+    conflicts: [],
+    added: { items: 0, teamMembers: 0, meetingNotes: 0, relationships: 0, tasks: 0 },
+    unchanged: 0,
+  }
+  const matchedItemIds = new Map<number, number>()
+
+  for (const table of tablesFor(options)) {
+    const existing = new Map((await db.table<MergeRecord, number>(table).toArray()).map(r => [recordKey(table, r), r]))
+    for (const theirs of bundleRecords(bundle, table)) {
+      const key = recordKey(table, theirs)
+      const mine = existing.get(key)
+      if (!mine) {
+        plan.added[table]++
+        continue
+      }
+      if (table === 'items') matchedItemIds.set(theirs.id!, mine.id!)
+      const fields = differingFields(table, mine, theirs)
+      if (fields.length === 0) {
+        plan.unchanged++
+        continue
+      }
+      plan.conflicts.push({
+        table,
+        key,
+        label: displayLabel(table, mine, lensLabels),
+        mine,
+        theirs,
+        fields,
+        resolution: 'mine',
+        fieldChoices: Object.fromEntries(fields.map(f => [f, 'mine'])),
+      })
+    }
+  }
+
+  if (options.lenses) {
+    // Relationships between matched items may already exist
+    for (const rel of collapseRelationshipPairs(bundle.relationships || []).kept) {
+      const from = matchedItemIds.get(rel.fromItemId)
+      const to = matchedItemIds.get(rel.toItemId)
+      if (from === undefined || to === undefined || !(await findRelationship(from, to))) plan.added.relationships++
+    }
+  }
+  if (options.notes) plan.added.tasks = bundle.tasks?.length || 0
+  return plan
+}
+
+// Fields to take from the bundle for a conflict, as resolved
+function resolveConflict(conflict: MergeConflict): Record<string, unknown> {
+  const theirs = conflict.theirs as unknown as Record<string, unknown>
+  const taken = conflict.fields.filter(f => conflict.resolution === 'theirs'
+    || (conflict.resolution === 'fields' && conflict.fieldChoices[f] === 'theirs'))
+  return Object.fromEntries(taken.map(f => [f, theirs[f]]))
+}
+
+function withoutSkippedFields(table: MergeTable, record: MergeRecord): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => !SKIPPED_FIELDS[table].has(field)))
+}
+
+// Apply a plan: add the bundle's new records, update conflicting ones as
+// resolved, and remap the bundle's ids in parents, relationships, notes and tasks
+export async function applyMerge(bundle: ExportBundle, options: MergeOptions, plan: MergePlan): Promise<void> {
+  const conflicts = new Map(plan.conflicts.map(c => [`${c.table}\u0000${c.key}`, c]))
+  const tables = [db.items, db.relationships, db.teamMembers, db.meetingNotes, db.tasks]
+
+  await db.transaction('rw', tables, async () => {
+    const now = Date.now()
+    // Bundle id -> database id, per table
+    const idMaps: Record<MergeTable, Map<number, number>> = {
+      items: new Map(),
+      teamMembers: new Map(),
+      meetingNotes: new Map(),
+    }
+    if (!options.lenses) {
+      // Notes and tasks can still refer to items that are already here
+      const byKey = new Map((await db.items.toArray()).map(i => [itemKey(i), i.id!]))
+      for (const item of bundle.items || []) {
+        const id = byKey.get(itemKey(item))
+        if (id !== undefined) idMaps.items.set(item.id!, id)
+      }
+    }
+    // Items whose parent now comes from the bundle
+    const parentsFromBundle: Array<{ id: number; bundleParentId?: number }> = []
+
+    for (const table of tablesFor(options)) {
+      const store = db.table<MergeRecord, number>(table)
+      const existing = new Map((await store.toArray()).map(r => [recordKey(table, r), r]))
+      for (const theirs of bundleRecords(bundle, table)) {
+        const key = recordKey(table, theirs)
+        const mine = existing.get(key)
+        let id: number
+        if (mine) {
+          id = mine.id!
+          const conflict = conflicts.get(`${table}\u0000${key}`)
+          const changes = conflict ? resolveConflict(conflict) : {}
+          if (table === 'meetingNotes') {
+            const related = new Set([...((mine as MeetingNote).relatedItems || []), ...((theirs as MeetingNote).relatedItems || [])
+              .map(itemId => idMaps.items.get(itemId)).filter((itemId): itemId is number => itemId !== undefined)])
+            changes.relatedItems = [...related]
+          }
+          if (Object.keys(changes).length > 0) await store.update(id, { ...changes, updatedAt: now })
+          if (table === 'items' && 'parent' in changes) {
+            parentsFromBundle.push({ id, bundleParentId: (theirs as ItemRecord).parentId })
+          }
+        } else {
+          const record = withoutSkippedFields(table, theirs) as unknown as MergeRecord
+          if (table === 'meetingNotes') {
+            (record as MeetingNote).relatedItems = ((theirs as MeetingNote).relatedItems || [])
+              .map(itemId => idMaps.items.get(itemId)).filter((itemId): itemId is number => itemId !== undefined)
+          }
+          id = await store.add({ ...record, createdAt: theirs.createdAt || now, updatedAt: now })
+          existing.set(key, { ...record, id })
+          if (table === 'items') parentsFromBundle.push({ id, bundleParentId: (theirs as ItemRecord).parentId })
+        }
+        idMaps[table].set(theirs.id!, id)
+      }
+    }
+
+    // Parents are linked once every item has its id; the rest are resolved by
+    // name below
+    for (const { id, bundleParentId } of parentsFromBundle) {
+      const parentId = bundleParentId !== undefined ? idMaps.items.get(bundleParentId) : undefined
+      await db.items.update(id, { parentId })
+    }
+
+    if (options.lenses) {
+      for (const rel of collapseRelationshipPairs(bundle.relationships || []).kept) {
+        const fromItemId = idMaps.items.get(rel.fromItemId)
+        const toItemId = idMaps.items.get(rel.toItemId)
+        if (fromItemId === undefined || toItemId === undefined || fromItemId === toItemId) continue
+        // Existing relationships keep their details
+        if (await findRelationship(fromItemId, toItemId)) continue
+        const values: RelationshipRecord = { ...rel, fromItemId, toItemId }
+        delete values.id
+        await db.relationships.add(values)
+      }
+    }
+
+    if (options.notes) {
+      const existingTasks = await db.tasks.toArray()
+      const taskKey = (task: Task) => `${task.description.trim().toLowerCase()}\u0000${task.meetingNoteId ?? ''}`
+      const seen = new Set(existingTasks.map(taskKey))
+      for (const task of bundle.tasks || []) {
+        const remapped: Task = {
+          ...task,
+          meetingNoteId: task.meetingNoteId !== undefined ? idMaps.meetingNotes.get(task.meetingNoteId) : undefined,
+          itemReferences: (task.itemReferences || [])
+            .map(itemId => idMaps.items.get(itemId)).filter((itemId): itemId is number => itemId !== undefined),
+        }
+        delete remapped.id
+        if (seen.has(taskKey(remapped))) continue
+        seen.add(taskKey(remapped))
+        await db.tasks.add(remapped)
+      }
+    }
+  })
+
+  // The bundle's person ids belong to another database; link people by name
+  await linkPersonReferences()
+  if (options.lenses) await linkItemParentReferences()
+}
+
+// Add the bundle's lens definitions, relationship types, tag definitions, saved
+// filters and data-quality rules that are not here yet (matched by key or name);
+// existing ones are kept
+export async function mergeDefinitions(bundle: ExportBundle, options: MergeOptions & { customLenses: boolean }): Promise<void> {
+  await db.transaction('rw', [db.lenses, db.relationshipTypes, db.tagDefinitions, db.savedFilters, db.dataQualityRules], async () => {
+    async function addMissing<T extends { id?: number }>(table: Table<T, number>, incoming: T[] | undefined, key: (record: T) => string) {
+      const existing = new Set((await table.toArray()).map(key))
+      for (const record of incoming || []) {
+        if (existing.has(key(record))) continue
+        existing.add(key(record))
+        const values = { ...record }
+        delete values.id
+        await table.add(values)
+      }
+    }
+    if (options.customLenses) await addMissing(db.lenses, bundle.lenses, l => l.key)
+    if (options.lenses) {
+      await addMissing(db.relationshipTypes, bundle.relationshipTypes, t => t.name)
+      await addMissing(db.tagDefinitions, bundle.tagDefinitions, t => t.name)
+      await addMissing(db.savedFilters, bundle.savedFilters, f => f.name)
+      await addMissing(db.dataQualityRules, bundle.dataQualityRules, r => r.name)
+    }
+  })
+}
@@ -0,0 +1,261 @@
+import { db, getActiveScenarioId } from '../db'
+import {
+  type ItemRecord,
+  type LensDefinition,
+  type MeetingNote,
+  type RelationshipRecord,
+  type RelationshipType,
+  type Task,
+} from '../types'
+import {
+  getOppositeSideLabel,
+  getRelationshipSides,
+  getRelationshipTypeDefinition,
+  inferRelationshipTypeFromSide,
+} from './relationshipTypes'
+
+export type IntegrityIssueKind =
+  | 'orphanRelationship'
+  | 'selfRelationship'
+  | 'duplicateRelationship'
+  | 'relationshipLens'
+  | 'mismatchedSides'
+  | 'danglingTaskItem'
+  | 'danglingNoteItem'
+  | 'danglingTaskNote'
+  | 'unknownLens'
+  | 'invalidParent'
+  | 'staleParentName'
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind
+  table: 'relationships' | 'tasks' | 'meetingNotes' | 'items'
+  recordId: number
+  description: string
+}
+
+// In repair order: later checks assume the earlier problems are gone
+export const INTEGRITY_CHECKS: Array<{ kind: IntegrityIssueKind; title: string; repair: string }> = [
+  { kind: 'orphanRelationship', title: 'Relationships to missing items', repair: 'Delete relationships' },
+  { kind: 'selfRelationship', title: 'Relationships from an item to itself', repair: 'Delete relationships' },
+  { kind: 'duplicateRelationship', title: 'Duplicate relationship records', repair: 'Delete extra records' },
+  { kind: 'relationshipLens', title: 'Relationship lens differs from item lens', repair: 'Update lenses' },
+  { kind: 'mismatchedSides', title: 'Unknown relationship type or side labels that disagree with it', repair: 'Fix side labels' },
+  { kind: 'danglingTaskItem', title: 'Tasks referencing missing items', repair: 'Remove references' },
+  { kind: 'danglingNoteItem', title: 'Meeting notes related to missing items', repair: 'Remove references' },
+  { kind: 'danglingTaskNote', title: 'Tasks linked to missing meeting notes', repair: 'Unlink tasks' },
+  { kind: 'unknownLens', title: 'Items in lenses that are not defined', repair: 'Create lens definitions' },
+  { kind: 'invalidParent', title: 'Parents that are missing, in another lens or part of a cycle', repair: 'Move to top level' },
+  { kind: 'staleParentName', title: 'Parent names that differ from the parent item', repair: 'Update names' },
+]
+
+interface Snapshot {
+  items: ItemRecord[]
+  relationships: RelationshipRecord[]
+  tasks: Task[]
+  meetingNotes: MeetingNote[]
+  lenses: LensDefinition[]
+}
+
+async function loadSnapshot(): Promise<Snapshot> {
+  const [items, relationships, tasks, meetingNotes, lenses] = await Promise.all([
+    db.items.toArray(),
+    db.relationships.toArray(),
+    db.tasks.toArray(),
+    db.meetingNotes.toArray(),
+    db.lenses.toArray(),
+  ])
+  return { items, relationships, tasks, meetingNotes, lenses }
+}
+
+function sidesMatchType(rel: RelationshipRecord): boolean {
+  // Rows from before relationship types were recorded are treated as Default
+  if (!rel.relationshipType && !rel.fromItemIdRelationshipType && !rel.toItemIdRelationshipType) return true
+  if (!rel.relationshipType || !getRelationshipTypeDefinition(rel.relationshipType)) return false
+  const sides = getRelationshipSides(rel.relationshipType)
+  const from = rel.fromItemIdRelationshipType
+  const to = rel.toItemIdRelationshipType
+  return (from === sides.from && to === sides.to) || (from === sides.to && to === sides.from)
+}
+
+// Type and side labels for a row whose labels disagree with its type
+function correctedSides(rel: RelationshipRecord): Pick<RelationshipRecord, 'relationshipType' | 'fromItemIdRelationshipType' | 'toItemIdRelationshipType'> {
+  const known = rel.relationshipType && getRelationshipTypeDefinition(rel.relationshipType) ? rel.relationshipType : undefined
+  const type: RelationshipType = known
+    || inferRelationshipTypeFromSide(rel.fromItemIdRelationshipType)
+    || inferRelationshipTypeFromSide(rel.toItemIdRelationshipType)
+    || 'Default'
+  const sides = getRelationshipSides(type)
+  const valid = [sides.from, sides.to]
+  if (rel.fromItemIdRelationshipType && valid.includes(rel.fromItemIdRelationshipType)) {
+    return { relationshipType: type, fromItemIdRelationshipType: rel.fromItemIdRelationshipType, toItemIdRelationshipType: getOppositeSideLabel(type, rel.fromItemIdRelationshipType) }
+  }
+  if (rel.toItemIdRelationshipType && valid.includes(rel.toItemIdRelationshipType)) {
+    return { relationshipType: type, fromItemIdRelationshipType: getOppositeSideLabel(type, rel.toItemIdRelationshipType), toItemIdRelationshipType: rel.toItemIdRelationshipType }
+  }
+  return { relationshipType: type, fromItemIdRelationshipType: sides.from, toItemIdRelationshipType: sides.to }
+}
+
+// For an item whose parent chain loops back to it, the lowest id in the loop;
+// breaking the loop there is enough to repair it
+function parentCycleLeader(item: ItemRecord, itemsById: Map<number, ItemRecord>): number | undefined {
+  const chain: number[] = []
+  let current: ItemRecord | undefined = item
+  while (current && current.parentId !== undefined) {
+    chain.push(current.id!)
+    if (current.parentId === item.id) return Math.min(...chain)
+    if (chain.length > itemsById.size) return undefined
+    current = itemsById.get(current.parentId)
+  }
+  return undefined
+}
+
+function collectIssues({ items, relationships, tasks, meetingNotes, lenses }: Snapshot): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = []
+  const itemsById = new Map(items.map(i => [i.id!, i]))
+  const noteIds = new Set(meetingNotes.map(n => n.id!))
+  const lensKeys = new Set(lenses.map(l => l.key))
+  const itemName = (id: number) => itemsById.get(id)?.name ?? `#${id}`
+  const relLabel = (rel: RelationshipRecord) => `${itemName(rel.fromItemId)} → ${itemName(rel.toItemId)}`
+
+  // First relationship per pair of items, in either direction; later ones are
+  // duplicates (such as leftovers of the old mirrored pairs)
+  const byPair = new Map<string, RelationshipRecord>()
+  for (const rel of [...relationships].sort((a, b) => a.id! - b.id!)) {
+    const from = itemsById.get(rel.fromItemId)
+    const to = itemsById.get(rel.toItemId)
+    if (!from || !to) {
+      issues.push({ kind: 'orphanRelationship', table: 'relationships', recordId: rel.id!, description: `${relLabel(rel)} (${!from ? `item #${rel.fromItemId}` : `item #${rel.toItemId}`} no longer exists)` })
+      continue
+    }
+    if (rel.fromItemId === rel.toItemId) {
+      issues.push({ kind: 'selfRelationship', table: 'relationships', recordId: rel.id!, description: `${from.name} → itself` })
+      continue
+    }
+    const pair = [rel.fromItemId, rel.toItemId].sort((a, b) => a - b).join('-')
+    if (byPair.has(pair)) {
+      issues.push({ kind: 'duplicateRelationship', table: 'relationships', recordId: rel.id!, description: `${relLabel(rel)} (duplicate of record #${byPair.get(pair)!.id})` })
+      continue
+    }
+    byPair.set(pair, rel)
+    if (rel.fromLens !== from.lens || rel.toLens !== to.lens) {
+      issues.push({ kind: 'relationshipLens', table: 'relationships', recordId: rel.id!, description: `${relLabel(rel)} records ${rel.fromLens} → ${rel.toLens}, items are in ${from.lens} → ${to.lens}` })
+    }
+    if (!sidesMatchType(rel)) {
+      issues.push({ kind: 'mismatchedSides', table: 'relationships', recordId: rel.id!, description: `${relLabel(rel)}: ${rel.fromItemIdRelationshipType ?? '—'} / ${rel.toItemIdRelationshipType ?? '—'} for type ${rel.relationshipType ?? '—'}` })
+    }
+  }
+
+  for (const task of tasks) {
+    const missing = task.itemReferences.filter(id => !itemsById.has(id))
+    if (missing.length > 0) {
+      issues.push({ kind: 'danglingTaskItem', table: 'tasks', recordId: task.id!, description: `"${task.description}" references ${missing.map(id => `#${id}`).join(', ')}` })
+    }
+    if (task.meetingNoteId !== undefined && !noteIds.has(task.meetingNoteId)) {
+      issues.push({ kind: 'danglingTaskNote', table: 'tasks', recordId: task.id!, description: `"${task.description}" is linked to meeting note #${task.meetingNoteId}` })
+    }
+  }
+
+  for (const note of meetingNotes) {
+    const missing = (note.relatedItems || []).filter(id => !itemsById.has(id))
+    if (missing.length > 0) {
+      issues.push({ kind: 'danglingNoteItem', table: 'meetingNotes', recordId: note.id!, description: `"${note.title || '(Untitled)'}" is related to ${missing.map(id => `#${id}`).join(', ')}` })
+    }
+  }
+
+  for (const item of items) {
+    if (!lensKeys.has(item.lens)) {
+      issues.push({ kind: 'unknownLens', table: 'items', recordId: item.id!, description: `${item.name} is in lens "${item.lens}"` })
+    }
+    if (item.parentId === undefined) continue
+    const parent = itemsById.get(item.parentId)
+    const problem = !parent ? `item #${item.parentId} no longer exists`
+      : parent.lens !== item.lens ? `${parent.name} is in lens "${parent.lens}"`
+      : parentCycleLeader(item, itemsById) === item.id ? `${parent.name} is below ${item.name}`
+      : undefined
+    if (problem) {
+      issues.push({ kind: 'invalidParent', table: 'items', recordId: item.id!, description: `${item.name}: ${problem}` })
+    } else if (parent && item.parent !== parent.name) {
+      issues.push({ kind: 'staleParentName', table: 'items', recordId: item.id!, description: `${item.name} records parent "${item.parent ?? ''}", the parent is ${parent.name}` })
+    }
+  }
+
+  return issues
+}
+
+// Scan for broken references the database does not enforce. Person ids are
+// not checked: references to a trashed team member are kept on purpose so
+// they reconnect when the member is restored.
+export async function checkIntegrity(): Promise<IntegrityIssue[]> {
+  return collectIssues(await loadSnapshot())
+}
+
+// Repair every current issue of one kind. The database is rescanned inside
+// the transaction so a stale report can't cause the wrong records to change.
+export async function repairIntegrityIssues(kind: IntegrityIssueKind): Promise<number> {
+  // Tasks and notes are shared with the baseline; items removed only in the scenario must not strip their links
+  if (getActiveScenarioId() !== null) throw new Error('Integrity issues cannot be repaired while a scenario is active')
+  return await db.transaction('rw', [db.items, db.relationships, db.tasks, db.meetingNotes, db.lenses], async () => {
+    const snapshot = await loadSnapshot()
+    const issues = collectIssues(snapshot).filter(i => i.kind === kind)
+    const ids = issues.map(i => i.recordId)
+    const relationshipsById = new Map(snapshot.relationships.map(r => [r.id!, r]))
+    const itemsById = new Map(snapshot.items.map(i => [i.id!, i]))
+
+    switch (kind) {
+      case 'orphanRelationship':
+      case 'selfRelationship':
+      case 'duplicateRelationship':
+        await db.relationships.bulkDelete(ids)
+        break
+      case 'relationshipLens':
+        for (const id of ids) {
+          const rel = relationshipsById.get(id)!
+          await db.relationships.update(id, { fromLens: itemsById.get(rel.fromItemId)!.lens, toLens: itemsById.get(rel.toItemId)!.lens })
+        }
+        break
+      case 'mismatchedSides':
+        for (const id of ids) {
+          await db.relationships.update(id, correctedSides(relationshipsById.get(id)!))
+        }
+        break
+      case 'danglingTaskItem':
+        for (const id of ids) {
+          const task = snapshot.tasks.find(t => t.id === id)!
+          await db.tasks.update(id, { itemReferences: task.itemReferences.filter(ref => itemsById.has(ref)), updatedAt: Date.now() })
+        }
+        break
+      case 'danglingNoteItem':
+        for (const id of ids) {
+          const note = snapshot.meetingNotes.find(n => n.id === id)!
+          await db.meetingNotes.update(id, { relatedItems: (note.relatedItems || []).filter(ref => itemsById.has(ref)), updatedAt: Date.now() })
+        }
+        break
+      case 'danglingTaskNote':
+        for (const id of ids) {
+          await db.tasks.update(id, { meetingNoteId: undefined, updatedAt: Date.now() })
+        }
+        break
+      case 'unknownLens': {
+        const keys = Array.from(new Set(ids.map(id => itemsById.get(id)!.lens)))
+        let order = snapshot.lenses.length > 0 ? Math.max(...snapshot.lenses.map(l => l.order)) : -1
+        const now = Date.now()
+        for (const key of keys) {
+          await db.lenses.add({ key, label: key, order: ++order, createdAt: now, updatedAt: now })
+        }
+        break
+      }
+      case 'invalidParent':
+        for (const id of ids) {
+          await db.items.update(id, { parentId: undefined, parent: undefined })
+        }
+        break
+      case 'staleParentName':
+        for (const id of ids) {
+          await db.items.update(id, { parent: itemsById.get(itemsById.get(id)!.parentId!)!.name })
+        }
+        break
+    }
+    return issues.length
+  })
+}
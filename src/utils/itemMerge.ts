@@ -0,0 +1,83 @@
+import { db, getActiveScenarioId } from '../db'
+import type { ItemRecord } from '../types'
+import { getDescendantIds } from './hierarchy'
+
+// Re-point relationships, task item references, note related items and child
+// items from merged items to their survivors, then drop relationships that
+// became self-references or duplicates. Must run inside a transaction covering
+// items, relationships, tasks and meetingNotes.
+export async function repointItemReferences(survivors: Map<number, ItemRecord>): Promise<void> {
+  if (survivors.size === 0) return
+  const remap = (id: number) => survivors.get(id)?.id ?? id
+
+  await db.relationships.toCollection().modify(rel => {
+    const from = survivors.get(rel.fromItemId)
+    const to = survivors.get(rel.toItemId)
+    if (from) {
+      rel.fromItemId = from.id!
+      rel.fromLens = from.lens
+    }
+    if (to) {
+      rel.toItemId = to.id!
+      rel.toLens = to.lens
+    }
+  })
+  const seen = new Set<string>()
+  const redundant: number[] = []
+  for (const rel of await db.relationships.toArray()) {
+    const pair = [rel.fromItemId, rel.toItemId].sort((a, b) => a - b).join('-')
+    if (rel.fromItemId === rel.toItemId || seen.has(pair)) {
+      redundant.push(rel.id!)
+    } else {
+      seen.add(pair)
+    }
+  }
+  if (redundant.length > 0) await db.relationships.bulkDelete(redundant)
+
+  await db.tasks.filter(t => t.itemReferences.some(id => survivors.has(id))).modify(task => {
+    task.itemReferences = Array.from(new Set(task.itemReferences.map(remap)))
+  })
+  await db.meetingNotes.filter(n => !!n.relatedItems?.some(id => survivors.has(id))).modify(note => {
+    note.relatedItems = Array.from(new Set((note.relatedItems || []).map(remap)))
+  })
+  await db.items.where('parentId').anyOf(Array.from(survivors.keys())).modify(item => {
+    const parent = survivors.get(item.parentId!)!
+    const keep = parent.id !== item.id && parent.lens === item.lens
+    item.parentId = keep ? parent.id : undefined
+    item.parent = keep ? parent.name : undefined
+  })
+}
+
+// Merge duplicates into a survivor: the survivor takes the given field values,
+// everything that referenced a duplicate now references the survivor, and the
+// duplicates are deleted.
+export async function mergeItems(survivorId: number, duplicateIds: number[], values: Partial<ItemRecord>): Promise<void> {
+  // Tasks and notes are shared with the baseline, so their references can't follow a scenario-only merge
+  if (getActiveScenarioId() !== null) throw new Error('Items cannot be merged while a scenario is active')
+  await db.transaction('rw', [db.items, db.relationships, db.tasks, db.meetingNotes], async () => {
+    const survivor = await db.items.get(survivorId)
+    if (!survivor) throw new Error('The item to keep no longer exists')
+    const duplicates = (await db.items.bulkGet(duplicateIds)).filter((i): i is ItemRecord => !!i && i.id !== survivorId)
+
+    // Delete first so the survivor can take over a duplicate's name
+    await db.items.bulkDelete(duplicates.map(d => d.id!))
+    const name = values.name?.trim() || survivor.name
+    const clash = await db.items.where('[lens+name]').equals([survivor.lens, name]).first()
+    if (clash && clash.id !== survivorId) {
+      throw new Error(`An item named "${name}" already exists in this lens`)
+    }
+    await db.items.update(survivorId, { ...values, name, updatedAt: Date.now() })
+    await db.items.where('parentId').equals(survivorId).modify({ parent: name })
+
+    await repointItemReferences(new Map(duplicates.map(d => [d.id!, { ...survivor, name }])))
+
+    // The chosen parent may have been one of the merged items or ended up below the survivor
+    const merged = await db.items.get(survivorId)
+    if (merged?.parentId !== undefined) {
+      const lensItems = await db.items.where('lens').equals(merged.lens).toArray()
+      if (merged.parentId === survivorId || getDescendantIds(survivorId, lensItems).has(merged.parentId)) {
+        await db.items.update(survivorId, { parentId: undefined, parent: undefined })
+      }
+    }
+  })
+}
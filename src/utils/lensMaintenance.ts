@@ -0,0 +1,153 @@
+import { db, getActiveScenarioId } from '../db'
+import type { ItemRecord, LensKey } from '../types'
+import { getLensOrderSync, invalidateLensesCache, saveLensOrder } from './lensOrder'
+import { dataQualityRulesChanged } from './dataQuality'
+import { repointItemReferences } from './itemMerge'
+import { workspaceStorage } from './workspaceStorage'
+
+// localStorage settings that hold a single lens key
+const LENS_SETTING_KEYS = [
+  'divest-replacement-primary-lens',
+  'divest-replacement-secondary-lens',
+  'divest-replacement-rollup-lens',
+  'divest-replacement-third-lens',
+]
+
+// Point saved lens settings and the saved lens order at a new key.
+// localStorage cannot join the IndexedDB transaction, so this runs after it commits.
+function replaceLensKeyInSettings(oldKey: LensKey, newKey: LensKey) {
+  LENS_SETTING_KEYS.forEach(settingKey => {
+    if (workspaceStorage.getItem(settingKey) === oldKey) {
+      workspaceStorage.setItem(settingKey, newKey)
+    }
+  })
+  const order = getLensOrderSync()
+  if (order.includes(oldKey)) {
+    const replaced = order.map(k => k === oldKey ? newKey : k)
+    saveLensOrder(replaced.filter((k, idx) => replaced.indexOf(k) === idx))
+  }
+}
+
+// Point data-quality rules scoped to a lens, or counting relationships to it,
+// at a new key. Must run inside a transaction covering dataQualityRules.
+async function replaceLensKeyInRules(oldKey: LensKey, newKey: LensKey) {
+  await db.dataQualityRules
+    .filter(rule => rule.lens === oldKey || (rule.check.kind === 'relationship' && rule.check.lens === oldKey))
+    .modify(rule => {
+      if (rule.lens === oldKey) rule.lens = newKey
+      if (rule.check.kind === 'relationship' && rule.check.lens === oldKey) rule.check.lens = newKey
+      rule.updatedAt = Date.now()
+    })
+}
+
+function notifyLensesChanged() {
+  invalidateLensesCache()
+  window.dispatchEvent(new CustomEvent('lensesUpdated'))
+  window.dispatchEvent(new CustomEvent('lensOrderUpdated'))
+}
+
+// Change a lens key, rewriting every item and relationship that refers to it
+export async function renameLensKey(oldKey: LensKey, newKey: LensKey): Promise<void> {
+  const key = newKey.trim()
+  if (!key) throw new Error('Key is required')
+  if (key === oldKey) return
+  if (getActiveScenarioId() !== null) throw new Error('Lens keys cannot be changed while a scenario is active')
+  await db.transaction('rw', [db.lenses, db.items, db.relationships, db.dataQualityRules], async () => {
+    const lens = await db.lenses.where('key').equals(oldKey).first()
+    if (!lens?.id) throw new Error(`Lens "${oldKey}" not found`)
+    const clash = await db.lenses.where('key').equals(key).first()
+    if (clash) throw new Error(`A lens with the key "${key}" already exists`)
+
+    await db.lenses.update(lens.id, { key, updatedAt: Date.now() })
+    await db.items.where('lens').equals(oldKey).modify({ lens: key })
+    await db.relationships.where('fromLens').equals(oldKey).modify({ fromLens: key })
+    await db.relationships.where('toLens').equals(oldKey).modify({ toLens: key })
+    await replaceLensKeyInRules(oldKey, key)
+  })
+  replaceLensKeyInSettings(oldKey, key)
+  notifyLensesChanged()
+  await dataQualityRulesChanged()
+}
+
+// Fill empty fields on the surviving item from the duplicate and union list fields
+function mergeItemFields(target: ItemRecord, source: ItemRecord): Partial<ItemRecord> {
+  const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]))
+  // Keep architect names and their ids aligned
+  const secondaryArchitects = [...target.secondaryArchitects]
+  const secondaryArchitectIds = [...(target.secondaryArchitectIds || [])]
+  source.secondaryArchitects.forEach((name, idx) => {
+    if (secondaryArchitects.includes(name)) return
+    secondaryArchitects.push(name)
+    const id = source.secondaryArchitectIds?.[idx]
+    if (id !== undefined) secondaryArchitectIds.push(id)
+  })
+  return {
+    description: target.description || source.description,
+    lifecycleStatus: target.lifecycleStatus || source.lifecycleStatus,
+    businessContact: target.businessContact || source.businessContact,
+    businessContactId: target.businessContact ? target.businessContactId : source.businessContactId,
+    techContact: target.techContact || source.techContact,
+    techContactId: target.techContact ? target.techContactId : source.techContactId,
+    primaryArchitect: target.primaryArchitect || source.primaryArchitect,
+    primaryArchitectId: target.primaryArchitect ? target.primaryArchitectId : source.primaryArchitectId,
+    secondaryArchitects,
+    secondaryArchitectIds,
+    tags: union(target.tags, source.tags),
+    skillsGaps: target.skillsGaps || source.skillsGaps,
+    parent: target.parent || source.parent,
+    parentId: target.parent ? target.parentId : source.parentId,
+    hyperlinks: [...(target.hyperlinks || []), ...(source.hyperlinks || []).filter(h => !(target.hyperlinks || []).some(t => t.url === h.url))],
+    customFields: { ...(source.customFields || {}), ...(target.customFields || {}) },
+    updatedAt: Date.now(),
+  }
+}
+
+// Move every item and relationship from one lens into another and delete the
+// emptied lens. Items whose name already exists in the target lens are merged
+// into that item, with their relationships, tasks and notes re-pointed.
+export async function mergeLenses(sourceKey: LensKey, targetKey: LensKey): Promise<{ moved: number; merged: number }> {
+  if (sourceKey === targetKey) throw new Error('Choose two different lenses')
+  if (getActiveScenarioId() !== null) throw new Error('Lenses cannot be merged while a scenario is active')
+  const result = { moved: 0, merged: 0 }
+  await db.transaction('rw', [db.lenses, db.items, db.relationships, db.tasks, db.meetingNotes, db.dataQualityRules], async () => {
+    const source = await db.lenses.where('key').equals(sourceKey).first()
+    const target = await db.lenses.where('key').equals(targetKey).first()
+    if (!source?.id || !target?.id) throw new Error('Lens not found')
+
+    const targetItems = await db.items.where('lens').equals(targetKey).toArray()
+    const targetByName = new Map(targetItems.map(i => [i.name.toLowerCase(), i]))
+    const sourceItems = await db.items.where('lens').equals(sourceKey).toArray()
+    // Source item id -> surviving target item
+    const mergedInto = new Map<number, ItemRecord>()
+
+    for (const item of sourceItems) {
+      const existing = targetByName.get(item.name.toLowerCase())
+      if (existing?.id) {
+        await db.items.update(existing.id, mergeItemFields(existing, item))
+        await db.items.delete(item.id!)
+        mergedInto.set(item.id!, existing)
+        result.merged++
+      } else {
+        await db.items.update(item.id!, { lens: targetKey, updatedAt: Date.now() })
+        result.moved++
+      }
+    }
+
+    await db.relationships.where('fromLens').equals(sourceKey).modify({ fromLens: targetKey })
+    await db.relationships.where('toLens').equals(sourceKey).modify({ toLens: targetKey })
+
+    await repointItemReferences(mergedInto)
+    await replaceLensKeyInRules(sourceKey, targetKey)
+
+    // Keep the source lens's custom fields that the target lacks
+    const extraFields = (source.customFields || []).filter(f => !(target.customFields || []).some(t => t.key === f.key))
+    if (extraFields.length > 0) {
+      await db.lenses.update(target.id, { customFields: [...(target.customFields || []), ...extraFields], updatedAt: Date.now() })
+    }
+    await db.lenses.delete(source.id)
+  })
+  replaceLensKeyInSettings(sourceKey, targetKey)
+  notifyLensesChanged()
+  await dataQualityRulesChanged()
+  return result
+}
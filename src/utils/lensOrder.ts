@@ -1,5 +1,6 @@
 import { LENSES, type LensKey, type LensDefinition } from '../types'
 import { getAllLenses } from '../db'
+import { workspaceStorage } from './workspaceStorage'
 
 const LENS_ORDER_KEY = 'arch-lenses-order'
 
@@ -37,7 +38,7 @@ export function invalidateLensesCache() {
 export async function getLensOrder(): Promise<LensKey[]> {
   const lenses = await loadLensesFromDB()
   try {
-    const stored = localStorage.getItem(LENS_ORDER_KEY)
+    const stored = workspaceStorage.getItem(LENS_ORDER_KEY)
     if (stored) {
       const order = JSON.parse(stored) as LensKey[]
       // Validate that all lenses are present
@@ -56,7 +57,7 @@ export async function getLensOrder(): Promise<LensKey[]> {
 
 export function saveLensOrder(order: LensKey[]): void {
   try {
-    localStorage.setItem(LENS_ORDER_KEY, JSON.stringify(order))
+    workspaceStorage.setItem(LENS_ORDER_KEY, JSON.stringify(order))
   } catch (e) {
     console.error('Failed to save lens order:', e)
   }
@@ -77,7 +78,7 @@ export function getOrderedLenses(): LensDefinition[] {
 
 export function getLensOrderSync(): LensKey[] {
   try {
-    const stored = localStorage.getItem(LENS_ORDER_KEY)
+    const stored = workspaceStorage.getItem(LENS_ORDER_KEY)
     if (stored) {
       const order = JSON.parse(stored) as LensKey[]
       // Return the stored order if it exists (validation happens at save time)
@@ -0,0 +1,104 @@
+import type {
+  ItemRecord,
+  ItemTransitionStatus,
+  LifecycleTransition,
+  RelationshipRecord,
+  RelationshipTransitionStatus,
+} from '../types'
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// Today as YYYY-MM-DD in local time
+export function todayIsoDate(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+// First day of a transition date (YYYY, YYYY-Qn, YYYY-MM or YYYY-MM-DD) as
+// YYYY-MM-DD, or undefined if it is not one of those forms
+export function lifecycleDateStart(value: string): string | undefined {
+  const text = value.trim()
+  let match = text.match(/^(\d{4})$/)
+  if (match) return `${match[1]}-01-01`
+  match = text.match(/^(\d{4})-Q([1-4])$/i)
+  if (match) return `${match[1]}-${pad((Number(match[2]) - 1) * 3 + 1)}-01`
+  match = text.match(/^(\d{4})-(\d{2})$/)
+  if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) return `${match[1]}-${match[2]}-01`
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (match) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    if (date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3])) return text
+  }
+  return undefined
+}
+
+// Error message for the first transition with a missing status or an unreadable date
+export function validateLifecycleTransitions(transitions: LifecycleTransition[]): string | undefined {
+  for (const t of transitions) {
+    if (!t.status) return 'Each lifecycle change needs a status'
+    if (!lifecycleDateStart(t.from)) return `"${t.from}" is not a date: use YYYY, YYYY-Qn, YYYY-MM or YYYY-MM-DD`
+  }
+  return undefined
+}
+
+// The status in effect on a date: the latest transition that has started, or
+// the base status before the first one. Later entries win on the same date.
+function statusOn<S extends string>(base: S | undefined, transitions: LifecycleTransition<S>[] | undefined, date: string): S | undefined {
+  let status = base
+  let start = ''
+  for (const t of transitions || []) {
+    const from = lifecycleDateStart(t.from)
+    if (from && from <= date && from >= start) {
+      status = t.status
+      start = from
+    }
+  }
+  return status
+}
+
+// Lifecycle of an item on a date (today if none is given)
+export function itemLifecycleAsOf(item: ItemRecord, asOf?: string): ItemTransitionStatus | undefined {
+  return statusOn<ItemTransitionStatus>(item.lifecycleStatus, item.lifecycleTransitions, asOf || todayIsoDate())
+}
+
+export function relationshipLifecycleAsOf(rel: RelationshipRecord, asOf?: string): RelationshipTransitionStatus | undefined {
+  return statusOn<RelationshipTransitionStatus>(rel.lifecycleStatus, rel.lifecycleTransitions, asOf || todayIsoDate())
+}
+
+// Items and relationships as they stand on a date: retired items, removed
+// relationships and relationships to retired items are left out, and the rest
+// carry the lifecycle status in effect. Records without dated transitions are
+// returned unchanged. The results are for display; edit the stored records.
+export function landscapeAsOf(items: ItemRecord[], relationships: RelationshipRecord[], asOf?: string): {
+  items: ItemRecord[]
+  relationships: RelationshipRecord[]
+} {
+  const date = asOf || todayIsoDate()
+  const retired = new Set<number>()
+  const projectedItems: ItemRecord[] = []
+  for (const item of items) {
+    if (!item.lifecycleTransitions?.length) {
+      projectedItems.push(item)
+      continue
+    }
+    const status = itemLifecycleAsOf(item, date)
+    if (status === 'Retired') {
+      retired.add(item.id!)
+      continue
+    }
+    projectedItems.push(status === item.lifecycleStatus ? item : { ...item, lifecycleStatus: status })
+  }
+
+  const projectedRels: RelationshipRecord[] = []
+  for (const rel of relationships) {
+    if (retired.has(rel.fromItemId) || retired.has(rel.toItemId)) continue
+    if (!rel.lifecycleTransitions?.length) {
+      projectedRels.push(rel)
+      continue
+    }
+    const status = relationshipLifecycleAsOf(rel, date)
+    if (status === 'Removed') continue
+    projectedRels.push(status === rel.lifecycleStatus ? rel : { ...rel, lifecycleStatus: status })
+  }
+  return { items: projectedItems, relationships: projectedRels }
+}
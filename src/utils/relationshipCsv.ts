@@ -0,0 +1,183 @@
+import { db } from '../db'
+import {
+  DEFAULT_RELATIONSHIP_TYPE,
+  RELATIONSHIP_LIFECYCLE_STATUSES,
+  orientRelationship,
+  type ItemRecord,
+  type LensDefinition,
+  type RelationshipLifecycleStatus,
+  type RelationshipRecord,
+} from '../types'
+import { formatCsv, guessColumnMapping } from './csv'
+import { getOppositeSideLabel, getRelationshipSides, getRelationshipTypes } from './relationshipTypes'
+import { findRelationship, updateRelationship } from './relationships'
+
+// Columns of a relationship edge list. Side is the label of the from item's
+// side of the relationship (e.g. "Hosts"); the to item gets the opposite label.
+export const RELATIONSHIP_CSV_FIELDS: Array<{ key: string; label: string }> = [
+  { key: 'fromLens', label: 'From lens' },
+  { key: 'fromName', label: 'From name' },
+  { key: 'toLens', label: 'To lens' },
+  { key: 'toName', label: 'To name' },
+  { key: 'type', label: 'Type' },
+  { key: 'side', label: 'Side' },
+  { key: 'lifecycle', label: 'Lifecycle' },
+  { key: 'note', label: 'Note' },
+]
+
+export function guessRelationshipCsvMapping(headers: string[]): string[] {
+  return guessColumnMapping(headers, RELATIONSHIP_CSV_FIELDS.map(f => ({ target: f.key, names: [f.label, f.key] })))
+}
+
+// Relationship fields a row sets; blank cells are left out
+type RelationshipCsvChanges = Partial<Pick<RelationshipRecord, 'relationshipType' | 'fromItemIdRelationshipType' | 'toItemIdRelationshipType' | 'lifecycleStatus' | 'note'>>
+
+export interface RelationshipCsvRow {
+  rowNumber: number // Line in the file, counting the header as 1
+  label: string // e.g. "CRM → Azure"
+  from?: ItemRecord
+  to?: ItemRecord
+  changes: RelationshipCsvChanges
+  action: 'create' | 'update'
+  errors: string[]
+}
+
+// Resolve the rows' lenses and items by key, label or name (ignoring case) and
+// validate their types, sides and lifecycles
+export function buildRelationshipCsvPreview(
+  rows: string[][],
+  mapping: string[],
+  lenses: LensDefinition[],
+  items: ItemRecord[],
+  relationships: RelationshipRecord[],
+): RelationshipCsvRow[] {
+  const itemsByName = new Map(items.map(i => [`${i.lens}\u0000${i.name.toLowerCase()}`, i]))
+  const linked = new Set(relationships.flatMap(r => [`${r.fromItemId}-${r.toItemId}`, `${r.toItemId}-${r.fromItemId}`]))
+  const seen = new Map<string, number>()
+  const types = getRelationshipTypes()
+
+  function findLens(value: string): LensDefinition | undefined {
+    const lower = value.toLowerCase()
+    return lenses.find(l => l.key.toLowerCase() === lower || l.label.toLowerCase() === lower)
+  }
+
+  return rows.map((cells, idx): RelationshipCsvRow => {
+    const cell = (key: string) => {
+      const col = mapping.indexOf(key)
+      return col === -1 ? '' : (cells[col] || '').trim()
+    }
+    const errors: string[] = []
+    const rowNumber = idx + 2
+
+    function resolveItem(lensCell: string, nameCell: string, end: 'From' | 'To'): ItemRecord | undefined {
+      if (!lensCell || !nameCell) {
+        errors.push(`${end} lens and name are required`)
+        return undefined
+      }
+      const lens = findLens(lensCell)
+      if (!lens) {
+        errors.push(`Unknown lens "${lensCell}"`)
+        return undefined
+      }
+      const item = itemsByName.get(`${lens.key}\u0000${nameCell.toLowerCase()}`)
+      if (!item) errors.push(`No item named "${nameCell}" in ${lens.label}`)
+      return item
+    }
+    const from = resolveItem(cell('fromLens'), cell('fromName'), 'From')
+    const to = resolveItem(cell('toLens'), cell('toName'), 'To')
+    const label = `${cell('fromName') || '?'} → ${cell('toName') || '?'}`
+
+    const changes: RelationshipCsvChanges = {}
+    const typeCell = cell('type')
+    const side = cell('side')
+    if (typeCell || side) {
+      const type = typeCell
+        ? types.find(t => t.name.toLowerCase() === typeCell.toLowerCase())?.name
+        : types.find(t => [t.fromLabel, t.toLabel].some(l => l.toLowerCase() === side.toLowerCase()))?.name
+      if (!type) {
+        errors.push(typeCell ? `Unknown relationship type "${typeCell}"` : `No relationship type has the side "${side}"`)
+      } else {
+        const sides = getRelationshipSides(type)
+        const fromSide = !side ? sides.from : [sides.from, sides.to].find(s => s.toLowerCase() === side.toLowerCase())
+        if (!fromSide) {
+          errors.push(`Side must be "${sides.from}" or "${sides.to}" for ${type}`)
+        } else {
+          changes.relationshipType = type
+          changes.fromItemIdRelationshipType = fromSide
+          changes.toItemIdRelationshipType = getOppositeSideLabel(type, fromSide)
+        }
+      }
+    }
+    const lifecycle = cell('lifecycle')
+    if (lifecycle) {
+      const status = RELATIONSHIP_LIFECYCLE_STATUSES.find(s => s.toLowerCase() === lifecycle.toLowerCase())
+      if (status) changes.lifecycleStatus = status as RelationshipLifecycleStatus
+      else errors.push(`Lifecycle must be one of: ${RELATIONSHIP_LIFECYCLE_STATUSES.join(', ')}`)
+    }
+    const note = cell('note')
+    if (note) changes.note = note
+
+    if (from && to) {
+      if (from.id === to.id) errors.push('An item cannot be related to itself')
+      const pair = [from.id, to.id].sort((a, b) => a! - b!).join('-')
+      const firstRow = seen.get(pair)
+      if (firstRow !== undefined) errors.unshift(`Duplicate of row ${firstRow}`)
+      else seen.set(pair, rowNumber)
+    }
+    const action = from && to && linked.has(`${from.id}-${to.id}`) ? 'update' : 'create'
+    return { rowNumber, label, from, to, changes, action, errors }
+  })
+}
+
+// Create or update the valid rows' relationships, returning how many of each.
+// Two items have at most one relationship, stored once whichever way round.
+export async function applyRelationshipCsvImport(rows: RelationshipCsvRow[]): Promise<{ created: number; updated: number }> {
+  let created = 0
+  let updated = 0
+  await db.transaction('rw', db.relationships, async () => {
+    const now = Date.now()
+    for (const row of rows) {
+      if (row.errors.length > 0 || !row.from || !row.to) continue
+      const existing = await findRelationship(row.from.id!, row.to.id!)
+      if (existing) {
+        await updateRelationship(orientRelationship(existing, row.from.id!), row.changes)
+        updated++
+      } else {
+        const sides = getRelationshipSides(DEFAULT_RELATIONSHIP_TYPE)
+        await db.relationships.add({
+          fromLens: row.from.lens,
+          fromItemId: row.from.id!,
+          toLens: row.to.lens,
+          toItemId: row.to.id!,
+          relationshipType: DEFAULT_RELATIONSHIP_TYPE,
+          fromItemIdRelationshipType: sides.from,
+          toItemIdRelationshipType: sides.to,
+          lifecycleStatus: 'Existing',
+          ...row.changes,
+          createdAt: now,
+        })
+        created++
+      }
+    }
+  })
+  return { created, updated }
+}
+
+// Every relationship as an edge list in the import format, one row each
+export async function exportRelationshipsCsv(): Promise<string> {
+  const [items, relationships] = await Promise.all([db.items.toArray(), db.relationships.toArray()])
+  const byId = new Map(items.map(i => [i.id!, i]))
+  const rows = relationships
+    .filter(rel => byId.has(rel.fromItemId) && byId.has(rel.toItemId))
+    .map(rel => [
+      rel.fromLens,
+      byId.get(rel.fromItemId)!.name,
+      rel.toLens,
+      byId.get(rel.toItemId)!.name,
+      rel.relationshipType || DEFAULT_RELATIONSHIP_TYPE,
+      rel.fromItemIdRelationshipType || '',
+      rel.lifecycleStatus || '',
+      rel.note || '',
+    ])
+  return formatCsv([RELATIONSHIP_CSV_FIELDS.map(f => f.label), ...rows])
+}
@@ -0,0 +1,183 @@
+import { db, getActiveScenarioId } from '../db'
+import {
+  DEFAULT_RELATIONSHIP_TYPE,
+  DEFAULT_RELATIONSHIP_TYPES,
+  reverseRelationship,
+  type RelationshipLineStyle,
+  type RelationshipRecord,
+  type RelationshipSideLabel,
+  type RelationshipType,
+  type RelationshipTypeDefinition,
+} from '../types'
+
+const FALLBACK_TYPES: RelationshipTypeDefinition[] = DEFAULT_RELATIONSHIP_TYPES.map((type, idx) => ({
+  ...type,
+  id: idx,
+  order: idx,
+  createdAt: 0,
+  updatedAt: 0,
+}))
+
+// Cache for relationship types loaded from database. Loaded at startup so the
+// sync helpers below can be used while rendering.
+let typesCache: RelationshipTypeDefinition[] | null = null
+
+export async function loadRelationshipTypes(): Promise<RelationshipTypeDefinition[]> {
+  if (typesCache) return typesCache
+  try {
+    const types = await db.relationshipTypes.orderBy('order').toArray()
+    if (types.length > 0) {
+      typesCache = types
+      return types
+    }
+  } catch (e) {
+    console.error('Failed to load relationship types from DB:', e)
+  }
+  return FALLBACK_TYPES
+}
+
+export function invalidateRelationshipTypesCache() {
+  typesCache = null
+}
+
+// Types from the last load, or the defaults if they have not been loaded yet
+export function getRelationshipTypes(): RelationshipTypeDefinition[] {
+  return typesCache || FALLBACK_TYPES
+}
+
+export function getRelationshipTypeDefinition(type: RelationshipType | undefined): RelationshipTypeDefinition | undefined {
+  return getRelationshipTypes().find(t => t.name === (type || DEFAULT_RELATIONSHIP_TYPE))
+}
+
+export function getRelationshipSides(type: RelationshipType | undefined): { from: RelationshipSideLabel; to: RelationshipSideLabel } {
+  const definition = getRelationshipTypeDefinition(type)
+  if (!definition) return { from: 'Default', to: 'Default' }
+  return { from: definition.fromLabel, to: definition.toLabel }
+}
+
+// The relationship read from the item on its type's from side, so that e.g.
+// "A Hosts B" runs from A to B
+export function orientByType(rel: RelationshipRecord): RelationshipRecord {
+  const definition = getRelationshipTypeDefinition(rel.relationshipType)
+  if (definition && rel.fromItemIdRelationshipType !== definition.fromLabel && rel.toItemIdRelationshipType === definition.fromLabel) {
+    return reverseRelationship(rel)
+  }
+  return rel
+}
+
+export function getOppositeSideLabel(type: RelationshipType, side: RelationshipSideLabel): RelationshipSideLabel {
+  const sides = getRelationshipSides(type)
+  if (side === sides.from) return sides.to
+  if (side === sides.to) return sides.from
+  return sides.to
+}
+
+export function inferRelationshipTypeFromSide(side: RelationshipSideLabel | undefined): RelationshipType | undefined {
+  if (!side) return undefined
+  return getRelationshipTypes().find(t => t.fromLabel === side || t.toLabel === side)?.name
+}
+
+export function getRelationshipTypeOptions(): Array<{ value: RelationshipType; label: RelationshipSideLabel }> {
+  return getRelationshipTypes().flatMap(t => t.fromLabel === t.toLabel
+    ? [{ value: t.name, label: t.fromLabel }]
+    : [{ value: t.name, label: t.fromLabel }, { value: t.name, label: t.toLabel }])
+}
+
+// SVG stroke-dasharray for each line style
+export const LINE_STYLE_DASHARRAY: Record<RelationshipLineStyle, string | undefined> = {
+  solid: undefined,
+  dashed: '6 4',
+  dotted: '2 3',
+}
+
+export function relationshipEdgeStyle(type: RelationshipType | undefined): { stroke: string; strokeDasharray?: string } {
+  const definition = getRelationshipTypeDefinition(type)
+  return {
+    stroke: definition?.color || '#3b82f6',
+    strokeDasharray: LINE_STYLE_DASHARRAY[definition?.lineStyle || 'solid'],
+  }
+}
+
+type RelationshipTypeInput = Pick<RelationshipTypeDefinition, 'name' | 'fromLabel' | 'toLabel' | 'color' | 'lineStyle' | 'archimateType'>
+
+// Create a relationship type, or update one. Renaming a type or its side labels
+// rewrites the relationships that use it.
+export async function saveRelationshipType(input: RelationshipTypeInput, id?: number): Promise<void> {
+  const next = {
+    ...input,
+    name: input.name.trim(),
+    fromLabel: input.fromLabel.trim(),
+    toLabel: input.toLabel.trim(),
+  }
+  if (!next.name || !next.fromLabel || !next.toLabel) {
+    throw new Error('Name and both side labels are required')
+  }
+
+  await db.transaction('rw', [db.relationshipTypes, db.relationships], async () => {
+    const clash = await db.relationshipTypes.where('name').equals(next.name).first()
+    if (clash && clash.id !== id) throw new Error(`A relationship type named "${next.name}" already exists`)
+    const now = Date.now()
+
+    if (id === undefined) {
+      const all = await db.relationshipTypes.toArray()
+      const order = all.length > 0 ? Math.max(...all.map(t => t.order)) + 1 : 0
+      await db.relationshipTypes.add({ ...next, order, createdAt: now, updatedAt: now })
+      return
+    }
+
+    const current = await db.relationshipTypes.get(id)
+    if (!current) throw new Error('This relationship type no longer exists')
+    if (current.name === DEFAULT_RELATIONSHIP_TYPE && next.name !== DEFAULT_RELATIONSHIP_TYPE) {
+      throw new Error('The Default relationship type cannot be renamed')
+    }
+    const renamed = current.name !== next.name || current.fromLabel !== next.fromLabel || current.toLabel !== next.toLabel
+    // Relationships would only be rewritten in the scenario's working copy
+    if (renamed && getActiveScenarioId() !== null) {
+      throw new Error('Relationship types cannot be renamed while a scenario is active')
+    }
+    await db.relationshipTypes.update(id, { ...next, updatedAt: now })
+
+    const symmetric = current.fromLabel === current.toLabel
+    const mapSide = (side: RelationshipSideLabel | undefined, isFrom: boolean) => {
+      if (symmetric) return side === current.fromLabel ? (isFrom ? next.fromLabel : next.toLabel) : side
+      if (side === current.fromLabel) return next.fromLabel
+      if (side === current.toLabel) return next.toLabel
+      return side
+    }
+    if (renamed) {
+      await db.relationships.filter(r => r.relationshipType === current.name).modify(rel => {
+        rel.relationshipType = next.name
+        rel.fromItemIdRelationshipType = mapSide(rel.fromItemIdRelationshipType, true)
+        rel.toItemIdRelationshipType = mapSide(rel.toItemIdRelationshipType, false)
+      })
+    }
+  })
+  invalidateRelationshipTypesCache()
+  await loadRelationshipTypes()
+}
+
+// Delete a relationship type; relationships using it become Default.
+// Returns the number of relationships that were changed.
+export async function deleteRelationshipType(id: number): Promise<number> {
+  if (getActiveScenarioId() !== null) throw new Error('Relationship types cannot be deleted while a scenario is active')
+  const changed = await db.transaction('rw', [db.relationshipTypes, db.relationships], async () => {
+    const type = await db.relationshipTypes.get(id)
+    if (!type) return 0
+    if (type.name === DEFAULT_RELATIONSHIP_TYPE) throw new Error('The Default relationship type cannot be deleted')
+    const fallback = await db.relationshipTypes.where('name').equals(DEFAULT_RELATIONSHIP_TYPE).first()
+    const count = await db.relationships.filter(r => r.relationshipType === type.name).modify({
+      relationshipType: DEFAULT_RELATIONSHIP_TYPE,
+      fromItemIdRelationshipType: fallback?.fromLabel || 'Default',
+      toItemIdRelationshipType: fallback?.toLabel || 'Default',
+    })
+    await db.relationshipTypes.delete(id)
+    return count
+  })
+  invalidateRelationshipTypesCache()
+  await loadRelationshipTypes()
+  return changed
+}
+
+export async function countRelationshipsOfType(name: RelationshipType): Promise<number> {
+  return await db.relationships.filter(r => r.relationshipType === name).count()
+}
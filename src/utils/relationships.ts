@@ -0,0 +1,51 @@
+import { db } from '../db'
+import { orientRelationship, type RelationshipRecord } from '../types'
+
+// The item at the other end of a relationship
+export function otherItemId(rel: RelationshipRecord, itemId: number): number {
+  return rel.fromItemId === itemId ? rel.toItemId : rel.fromItemId
+}
+
+// The relationship linking two items, whichever way round it is stored
+export async function findRelationship(itemId: number, otherId: number): Promise<RelationshipRecord | undefined> {
+  return await db.relationships.where({ fromItemId: itemId, toItemId: otherId }).first()
+    ?? await db.relationships.where({ fromItemId: otherId, toItemId: itemId }).first()
+}
+
+// Every relationship of an item, oriented so that fromItemId is the item
+export async function getItemRelationships(itemId: number): Promise<RelationshipRecord[]> {
+  const [outgoing, incoming] = await Promise.all([
+    db.relationships.where('fromItemId').equals(itemId).toArray(),
+    db.relationships.where('toItemId').equals(itemId).toArray(),
+  ])
+  return [...outgoing, ...incoming.filter(r => r.fromItemId !== itemId)]
+    .map(r => orientRelationship(r, itemId))
+    .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+}
+
+// Add a relationship unless the two items are already linked. Returns the id of
+// the new or existing record.
+export async function createRelationship(rel: RelationshipRecord): Promise<number> {
+  const existing = await findRelationship(rel.fromItemId, rel.toItemId)
+  if (existing) return existing.id!
+  return await db.relationships.add(rel)
+}
+
+// Update a relationship given from an item's point of view (as returned by
+// getItemRelationships); side changes are swapped if it is stored the other way.
+export async function updateRelationship(
+  oriented: RelationshipRecord,
+  changes: Partial<Pick<RelationshipRecord, 'lifecycleStatus' | 'lifecycleTransitions' | 'relationshipType' | 'fromItemIdRelationshipType' | 'toItemIdRelationshipType' | 'note'>>,
+): Promise<void> {
+  const stored = await db.relationships.get(oriented.id!)
+  if (!stored) return
+  if (stored.fromItemId === oriented.fromItemId) {
+    await db.relationships.update(stored.id!, changes)
+    return
+  }
+  const { fromItemIdRelationshipType, toItemIdRelationshipType, ...rest } = changes
+  const swapped: Partial<RelationshipRecord> = { ...rest }
+  if ('fromItemIdRelationshipType' in changes) swapped.toItemIdRelationshipType = fromItemIdRelationshipType
+  if ('toItemIdRelationshipType' in changes) swapped.fromItemIdRelationshipType = toItemIdRelationshipType
+  await db.relationships.update(stored.id!, swapped)
+}
@@ -0,0 +1,52 @@
+import { db } from '../db'
+import type { SavedFilter } from '../types'
+import { buildSearchIndex, isEmptyQuery, matchingIds, parseSearchQuery } from './search'
+
+// Views listen for this to refresh their lists of saved filters
+function notifySavedFiltersUpdated() {
+  window.dispatchEvent(new CustomEvent('savedFiltersUpdated'))
+}
+
+export async function getSavedFilters(): Promise<SavedFilter[]> {
+  return await db.savedFilters.orderBy('name').toArray()
+}
+
+// Save a query under a name, replacing the query of a filter with that name
+export async function saveFilter(name: string, query: string): Promise<SavedFilter> {
+  const trimmedName = name.trim()
+  const trimmedQuery = query.trim()
+  if (!trimmedName) throw new Error('Name is required')
+  if (isEmptyQuery(parseSearchQuery(trimmedQuery))) throw new Error('The search is empty')
+  const saved = await db.transaction('rw', db.savedFilters, async () => {
+    const now = Date.now()
+    const existing = await db.savedFilters.where('name').equals(trimmedName).first()
+    if (existing) {
+      await db.savedFilters.update(existing.id!, { query: trimmedQuery, updatedAt: now })
+      return { ...existing, query: trimmedQuery, updatedAt: now }
+    }
+    const filter: SavedFilter = { name: trimmedName, query: trimmedQuery, createdAt: now, updatedAt: now }
+    filter.id = await db.savedFilters.add(filter)
+    return filter
+  })
+  notifySavedFiltersUpdated()
+  return saved
+}
+
+export async function renameSavedFilter(id: number, name: string): Promise<void> {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name is required')
+  const existing = await db.savedFilters.where('name').equals(trimmed).first()
+  if (existing && existing.id !== id) throw new Error(`A filter named "${trimmed}" already exists`)
+  await db.savedFilters.update(id, { name: trimmed, updatedAt: Date.now() })
+  notifySavedFiltersUpdated()
+}
+
+export async function deleteSavedFilter(id: number): Promise<void> {
+  await db.savedFilters.delete(id)
+  notifySavedFiltersUpdated()
+}
+
+// Ids of the items a saved filter's query matches, with statuses as of a date
+export async function savedFilterItemIds(filter: SavedFilter, asOf?: string): Promise<Set<number>> {
+  return matchingIds(await buildSearchIndex(asOf), filter.query, 'item') ?? new Set()
+}
@@ -0,0 +1,211 @@
+import type { Table } from 'dexie'
+import { db, getActiveScenarioId, readBaseline, setActiveScenarioId } from '../db'
+import type { ItemRecord, RelationshipRecord, Scenario, ScenarioChange, ScenarioChangeAction } from '../types'
+
+// Working-copy fields that differ on every save and are not worth a diff line
+const IGNORED_FIELDS = new Set(['updatedAt'])
+
+export async function getScenarios(): Promise<Scenario[]> {
+  const scenarios = await db.scenarios.toArray()
+  return scenarios.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function createScenario(name: string, description?: string): Promise<number> {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name is required')
+  if (await db.scenarios.where('name').equals(trimmed).first()) {
+    throw new Error(`A scenario named "${trimmed}" already exists`)
+  }
+  const now = Date.now()
+  return await db.scenarios.add({ name: trimmed, description: description?.trim() || undefined, changes: [], createdAt: now, updatedAt: now })
+}
+
+export async function renameScenario(id: number, name: string, description?: string): Promise<void> {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name is required')
+  const clash = await db.scenarios.where('name').equals(trimmed).first()
+  if (clash && clash.id !== id) throw new Error(`A scenario named "${trimmed}" already exists`)
+  await db.scenarios.update(id, { name: trimmed, description: description?.trim() || undefined, updatedAt: Date.now() })
+}
+
+// Fields whose values differ between two versions of a record
+export function changedFields(before: object, after: object): string[] {
+  const a = before as Record<string, unknown>
+  const b = after as Record<string, unknown>
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .filter(field => !IGNORED_FIELDS.has(field) && JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+}
+
+function diffRecords<T extends { id?: number }>(baseline: T[], working: T[]): Array<{ action: ScenarioChangeAction; recordId: number; record?: T }> {
+  const baseById = new Map(baseline.map(r => [r.id!, r]))
+  const workingIds = new Set(working.map(r => r.id!))
+  const changes: Array<{ action: ScenarioChangeAction; recordId: number; record?: T }> = []
+  for (const record of working) {
+    const base = baseById.get(record.id!)
+    if (!base) {
+      changes.push({ action: 'create', recordId: record.id!, record })
+    } else if (changedFields(base, record).length > 0) {
+      changes.push({ action: 'update', recordId: record.id!, record })
+    }
+  }
+  for (const base of baseline) {
+    if (!workingIds.has(base.id!)) changes.push({ action: 'delete', recordId: base.id! })
+  }
+  return changes
+}
+
+// Differences between the working copy and the baseline
+async function workingCopyChanges(): Promise<ScenarioChange[]> {
+  const [baseItems, baseRels, items, rels] = await Promise.all([
+    readBaseline<ItemRecord>('items'),
+    readBaseline<RelationshipRecord>('relationships'),
+    db.scenarioItems.toArray(),
+    db.scenarioRelationships.toArray(),
+  ])
+  return [
+    ...diffRecords(baseItems, items).map(c => ({ ...c, table: 'items' as const })),
+    ...diffRecords(baseRels, rels).map(c => ({ ...c, table: 'relationships' as const })),
+  ]
+}
+
+// Changes of a scenario: live from the working copy if it is active
+export async function getScenarioChanges(id: number): Promise<ScenarioChange[]> {
+  if (getActiveScenarioId() === id) return await workingCopyChanges()
+  return (await db.scenarios.get(id))?.changes || []
+}
+
+async function saveActiveScenario(): Promise<void> {
+  const id = getActiveScenarioId()
+  if (id === null) return
+  const changes = await workingCopyChanges()
+  await db.scenarios.update(id, { changes, updatedAt: Date.now() })
+}
+
+// Apply scenario changes to a pair of tables. Changes that no longer fit (the
+// record is gone, a name is taken, or the items are already related) are
+// skipped; returns how many were. createdIds receives the working-copy id of
+// each created item mapped to its id in the target tables.
+async function applyChanges(
+  items: Table<ItemRecord, number>,
+  relationships: Table<RelationshipRecord, number>,
+  changes: ScenarioChange[],
+  createdIds = new Map<number, number>(),
+): Promise<number> {
+  let skipped = 0
+  const remap = (id: number) => createdIds.get(id) ?? id
+
+  for (const change of changes) {
+    if (change.table !== 'items') continue
+    if (change.action === 'delete') {
+      if (!(await items.get(change.recordId))) { skipped++; continue }
+      await items.delete(change.recordId)
+      await relationships.where('fromItemId').equals(change.recordId).delete()
+      await relationships.where('toItemId').equals(change.recordId).delete()
+    } else if (change.action === 'create') {
+      const record = { ...change.record! }
+      delete record.id
+      if (await items.where('[lens+name]').equals([record.lens, record.name]).first()) { skipped++; continue }
+      createdIds.set(change.recordId, await items.add(record))
+    }
+  }
+  for (const change of changes) {
+    if (change.table !== 'items' || change.action !== 'update') continue
+    const record = change.record!
+    const clash = await items.where('[lens+name]').equals([record.lens, record.name]).first()
+    if (!(await items.get(change.recordId)) || (clash && clash.id !== change.recordId)) { skipped++; continue }
+    await items.put({ ...record, id: change.recordId })
+  }
+  // Parents may point at items created in the scenario
+  for (const change of changes) {
+    if (change.table !== 'items' || change.action === 'delete') continue
+    const id = change.action === 'create' ? createdIds.get(change.recordId) : change.recordId
+    const parentId = change.record!.parentId
+    if (id === undefined || parentId === undefined || remap(parentId) === parentId) continue
+    await items.update(id, { parentId: remap(parentId) })
+  }
+
+  for (const change of changes) {
+    if (change.table !== 'relationships') continue
+    if (change.action === 'delete') {
+      if (!(await relationships.get(change.recordId))) { skipped++; continue }
+      await relationships.delete(change.recordId)
+      continue
+    }
+    const record = { ...change.record! }
+    delete record.id
+    record.fromItemId = remap(record.fromItemId)
+    record.toItemId = remap(record.toItemId)
+    const [from, to] = await items.bulkGet([record.fromItemId, record.toItemId])
+    const linked = await relationships.where({ fromItemId: record.fromItemId, toItemId: record.toItemId }).first()
+      ?? await relationships.where({ fromItemId: record.toItemId, toItemId: record.fromItemId }).first()
+    if (change.action === 'create') {
+      if (!from || !to || linked) { skipped++; continue }
+      await relationships.add(record)
+    } else {
+      if (!from || !to || !(await relationships.get(change.recordId)) || (linked && linked.id !== change.recordId)) { skipped++; continue }
+      await relationships.put({ ...record, id: change.recordId })
+    }
+  }
+  return skipped
+}
+
+// Make a scenario the active one (or go back to the baseline with null). The
+// scenario being left keeps its changes; the working copy is rebuilt from the
+// current baseline plus the new scenario's changes. Returns how many of its
+// changes no longer applied.
+export async function activateScenario(id: number | null): Promise<number> {
+  const current = getActiveScenarioId()
+  if (current === id) return 0
+  if (current !== null) await saveActiveScenario()
+  if (id === null) {
+    setActiveScenarioId(null)
+    return 0
+  }
+
+  const scenario = await db.scenarios.get(id)
+  if (!scenario) throw new Error('This scenario no longer exists')
+  const [baseItems, baseRels] = await Promise.all([
+    readBaseline<ItemRecord>('items'),
+    readBaseline<RelationshipRecord>('relationships'),
+  ])
+  const skipped = await db.transaction('rw', [db.scenarioItems, db.scenarioRelationships], async () => {
+    await db.scenarioItems.clear()
+    await db.scenarioRelationships.clear()
+    await db.scenarioItems.bulkAdd(baseItems)
+    await db.scenarioRelationships.bulkAdd(baseRels)
+    return await applyChanges(db.scenarioItems, db.scenarioRelationships, scenario.changes)
+  })
+  setActiveScenarioId(id)
+  return skipped
+}
+
+export async function deleteScenario(id: number): Promise<void> {
+  if (getActiveScenarioId() === id) setActiveScenarioId(null)
+  await db.scenarios.delete(id)
+}
+
+// Apply a scenario's changes to the baseline and delete the scenario. Returns
+// how many changes were applied and how many no longer fitted the baseline.
+export async function promoteScenario(id: number): Promise<{ applied: number; skipped: number }> {
+  const changes = await getScenarioChanges(id)
+  if (getActiveScenarioId() === id) setActiveScenarioId(null)
+  // Writes must reach the baseline tables, so leave any other active scenario first
+  await activateScenario(null)
+  const skipped = await db.transaction('rw', [db.items, db.relationships, db.tasks, db.meetingNotes, db.scenarios], async () => {
+    const createdIds = new Map<number, number>()
+    const count = await applyChanges(db.items, db.relationships, changes, createdIds)
+    // Tasks and notes linked to items created in the scenario refer to their working-copy ids
+    if (createdIds.size > 0) {
+      const remap = (itemId: number) => createdIds.get(itemId) ?? itemId
+      await db.tasks.filter(t => t.itemReferences.some(itemId => createdIds.has(itemId))).modify(task => {
+        task.itemReferences = task.itemReferences.map(remap)
+      })
+      await db.meetingNotes.filter(n => !!n.relatedItems?.some(itemId => createdIds.has(itemId))).modify(note => {
+        note.relatedItems = note.relatedItems!.map(remap)
+      })
+    }
+    await db.scenarios.delete(id)
+    return count
+  })
+  return { applied: changes.length - skipped, skipped }
+}
@@ -0,0 +1,315 @@
+import { db } from '../db'
+import { orientRelationship, type ItemRecord, type MeetingNote, type RelationshipRecord, type Task, type TeamMember } from '../types'
+import { formatCustomFieldValue } from './customFields'
+import { itemLifecycleAsOf } from './lifecycle'
+import { parseTag } from './tags'
+
+// One search over items, meeting notes, tasks and people. Queries are free text
+// plus filters: lens:applications status:Divest tag:cloud architect:"Jane Doe"
+// related:CRM rel:"Replaced By" team:Architecture type:note. Every term and
+// filter must match; a leading minus excludes instead (-rel:"Replaced By").
+
+export type SearchResultKind = 'item' | 'note' | 'task' | 'person'
+
+export const SEARCH_FILTER_KEYS = ['lens', 'status', 'tag', 'architect', 'team', 'related', 'rel', 'type'] as const
+export type SearchFilterKey = typeof SEARCH_FILTER_KEYS[number]
+
+// Filters that only items can satisfy
+const ITEM_FILTERS = new Set<SearchFilterKey>(['lens', 'status', 'tag', 'architect', 'team', 'rel'])
+
+export interface SearchQuery {
+  terms: string[]
+  excludedTerms: string[]
+  filters: Array<{ key: SearchFilterKey; value: string; negated: boolean }>
+}
+
+interface SearchField {
+  text: string
+  weight: number
+}
+
+type SearchRecord =
+  | { kind: 'item'; record: ItemRecord }
+  | { kind: 'note'; record: MeetingNote }
+  | { kind: 'task'; record: Task }
+  | { kind: 'person'; record: TeamMember }
+
+export type SearchDocument = SearchRecord & {
+  id: number
+  title: string
+  subtitle: string
+  fields: SearchField[] // title first
+  lens?: string[] // key and label
+  status?: string
+  tags: string[]
+  architects: string[]
+  teams: string[] // teams and managers of the architects
+  related: string[] // names of related items
+  relationshipLabels: string[] // types and own side labels of relationships
+}
+
+// Part of a title or snippet, marked if it matches a search term
+export interface SearchTextSegment {
+  text: string
+  match: boolean
+}
+
+export type SearchResult = SearchDocument & {
+  score: number
+  titleSegments: SearchTextSegment[]
+  snippet?: SearchTextSegment[]
+}
+
+export function htmlToText(html: string | undefined): string {
+  if (!html) return ''
+  if (!/[<&]/.test(html)) return html
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent || ''
+}
+
+// Split a query into free-text terms and key:value filters. Values and terms
+// can be quoted to include spaces; unknown keys are searched as text.
+export function parseSearchQuery(text: string): SearchQuery {
+  const query: SearchQuery = { terms: [], excludedTerms: [], filters: [] }
+  const pattern = /(-?)(?:(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+))/g
+  for (const match of text.matchAll(pattern)) {
+    const negated = match[1] === '-'
+    const key = (match[2] || match[4])?.toLowerCase()
+    const value = match[3] ?? match[5]
+    if (key !== undefined && (SEARCH_FILTER_KEYS as readonly string[]).includes(key)) {
+      if (value.trim()) query.filters.push({ key: key as SearchFilterKey, value: value.trim().toLowerCase(), negated })
+    } else {
+      const term = (key !== undefined ? `${key}:${value}` : match[6] ?? match[7]).trim().toLowerCase()
+      if (term) (negated ? query.excludedTerms : query.terms).push(term)
+    }
+  }
+  return query
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.excludedTerms.length === 0 && query.filters.length === 0
+}
+
+// Searchable documents for everything in the database, with item statuses as of
+// a date (today if none is given)
+export async function buildSearchIndex(asOf?: string): Promise<SearchDocument[]> {
+  const [items, relationships, notes, tasks, people, lenses] = await Promise.all([
+    db.items.toArray(),
+    db.relationships.toArray(),
+    db.meetingNotes.toArray(),
+    db.tasks.toArray(),
+    db.teamMembers.toArray(),
+    db.lenses.toArray(),
+  ])
+  const lensesByKey = new Map(lenses.map(l => [l.key, l]))
+  const itemsById = new Map(items.map(i => [i.id!, i]))
+  const itemNames = (ids: number[] = []) => ids.map(id => itemsById.get(id)?.name).filter((n): n is string => !!n)
+  const itemRelationships = new Map<number, RelationshipRecord[]>()
+  for (const rel of relationships) {
+    for (const id of [rel.fromItemId, rel.toItemId]) {
+      itemRelationships.set(id, [...(itemRelationships.get(id) || []), orientRelationship(rel, id)])
+    }
+  }
+  const peopleByName = new Map(people.map(p => [p.name.toLowerCase(), p]))
+  const notesById = new Map(notes.map(n => [n.id!, n]))
+
+  const documents: SearchDocument[] = []
+  for (const item of items) {
+    const lens = lensesByKey.get(item.lens)
+    const customFields = (lens?.customFields || [])
+      .map(field => formatCustomFieldValue(field, item.customFields?.[field.key]))
+      .filter(Boolean)
+    const architects = [item.primaryArchitect, ...item.secondaryArchitects].filter((a): a is string => !!a).map(a => a.toLowerCase().trim())
+    const rels = itemRelationships.get(item.id!) || []
+    documents.push({
+      kind: 'item',
+      record: item,
+      id: item.id!,
+      title: item.name,
+      subtitle: lens?.label || item.lens,
+      fields: [
+        { text: item.name, weight: 10 },
+        { text: item.tags.join(' '), weight: 5 },
+        { text: htmlToText(item.description), weight: 2 },
+        { text: [item.primaryArchitect, ...item.secondaryArchitects, item.businessContact, item.techContact, item.architectureManager].filter(Boolean).join(', '), weight: 2 },
+        { text: [item.parent, item.skillsGaps, ...customFields].filter(Boolean).join(' · '), weight: 1 },
+      ],
+      lens: [item.lens.toLowerCase(), (lens?.label || '').toLowerCase()],
+      status: itemLifecycleAsOf(item, asOf)?.toLowerCase(),
+      tags: item.tags.map(t => t.toLowerCase()),
+      architects,
+      teams: architects.flatMap(name => {
+        const person = peopleByName.get(name)
+        return person ? [person.team || 'Architecture', person.manager || ''].filter(Boolean).map(t => t.toLowerCase()) : []
+      }),
+      related: itemNames(rels.map(r => r.toItemId)).map(n => n.toLowerCase()),
+      relationshipLabels: rels
+        .flatMap(r => [r.relationshipType, r.fromItemIdRelationshipType])
+        .filter((l): l is string => !!l)
+        .map(l => l.toLowerCase()),
+    })
+  }
+  for (const note of notes) {
+    const noteTasks = tasks.filter(t => t.meetingNoteId === note.id)
+    documents.push({
+      kind: 'note',
+      record: note,
+      id: note.id!,
+      title: note.title || '(Untitled)',
+      subtitle: new Date(note.dateTime).toLocaleDateString(),
+      fields: [
+        { text: note.title || '', weight: 10 },
+        { text: htmlToText(note.content), weight: 2 },
+        { text: note.participants, weight: 2 },
+        { text: noteTasks.map(t => [t.description, t.assignedTo].filter(Boolean).join(' ')).join(' · '), weight: 1 },
+      ],
+      tags: [],
+      architects: [],
+      teams: [],
+      related: itemNames(note.relatedItems).map(n => n.toLowerCase()),
+      relationshipLabels: [],
+    })
+  }
+  for (const task of tasks) {
+    const note = task.meetingNoteId !== undefined ? notesById.get(task.meetingNoteId) : undefined
+    documents.push({
+      kind: 'task',
+      record: task,
+      id: task.id!,
+      title: task.description,
+      subtitle: [task.completedAt ? 'Done' : 'Open', task.assignedTo].filter(Boolean).join(' · '),
+      fields: [
+        { text: task.description, weight: 10 },
+        { text: task.assignedTo || '', weight: 2 },
+        { text: itemNames(task.itemReferences).join(', '), weight: 2 },
+        { text: note?.title || '', weight: 1 },
+      ],
+      tags: [],
+      architects: [],
+      teams: [],
+      related: itemNames(task.itemReferences).map(n => n.toLowerCase()),
+      relationshipLabels: [],
+    })
+  }
+  for (const person of people) {
+    documents.push({
+      kind: 'person',
+      record: person,
+      id: person.id!,
+      title: person.name,
+      subtitle: person.team || 'Architecture',
+      fields: [
+        { text: person.name, weight: 10 },
+        { text: [person.team, person.manager].filter(Boolean).join(' · '), weight: 1 },
+      ],
+      tags: [],
+      architects: [],
+      teams: [],
+      related: [],
+      relationshipLabels: [],
+    })
+  }
+  return documents
+}
+
+function matchesFilter(doc: SearchDocument, key: SearchFilterKey, value: string): boolean {
+  switch (key) {
+    case 'lens':
+      return !!doc.lens?.some(l => l.includes(value))
+    case 'status':
+      return doc.status === value
+    case 'tag':
+      return doc.tags.some(t => {
+        const { category, value: tagValue } = parseTag(t)
+        return t === value || tagValue === value || category === value
+      })
+    case 'architect':
+      return doc.architects.some(a => a.includes(value))
+    case 'team':
+      return doc.teams.some(t => t.includes(value))
+    case 'related':
+      return doc.related.some(name => name.includes(value))
+    case 'rel':
+      return doc.relationshipLabels.some(l => l === value)
+    case 'type':
+      return doc.kind.startsWith(value) || value.startsWith(doc.kind)
+  }
+}
+
+// How well a term matches a field: whole text, start of a word, or anywhere
+function termScore(text: string, term: string): number {
+  const lower = text.toLowerCase()
+  const index = lower.indexOf(term)
+  if (index < 0) return 0
+  if (lower === term) return 3
+  return index === 0 || /\W/.test(lower[index - 1]) ? 2 : 1
+}
+
+// Split text into segments, marking every occurrence of a term
+export function highlightText(text: string, terms: string[]): SearchTextSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }]
+  const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi')
+  return text.split(pattern).filter(Boolean).map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }))
+}
+
+const SNIPPET_BEFORE = 40
+const SNIPPET_LENGTH = 160
+
+// A window of the first non-title field that matches a term
+function snippetFor(doc: SearchDocument, terms: string[]): SearchTextSegment[] | undefined {
+  for (const field of doc.fields.slice(1)) {
+    const text = field.text.replace(/\s+/g, ' ').trim()
+    const lower = text.toLowerCase()
+    const index = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i >= 0))
+    if (!isFinite(index)) continue
+    const start = Math.max(0, index - SNIPPET_BEFORE)
+    const window = `${start > 0 ? '…' : ''}${text.slice(start, start + SNIPPET_LENGTH)}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`
+    return highlightText(window, terms)
+  }
+  return undefined
+}
+
+// Ranked matches: a higher score for terms in weightier fields and for whole
+// or word-start matches. Queries without terms list matches by title.
+export function searchDocuments(documents: SearchDocument[], query: SearchQuery): SearchResult[] {
+  if (isEmptyQuery(query)) return []
+  const results: SearchResult[] = []
+  for (const doc of documents) {
+    // Item-only filters rule out other records whether or not they are negated
+    if (query.filters.some(f => ITEM_FILTERS.has(f.key) && doc.kind !== 'item')) continue
+    if (!query.filters.every(f => matchesFilter(doc, f.key, f.value) !== f.negated)) continue
+    if (query.excludedTerms.some(term => doc.fields.some(f => termScore(f.text, term) > 0))) continue
+    let score = 0
+    let matchedAll = true
+    for (const term of query.terms) {
+      const best = Math.max(...doc.fields.map(f => termScore(f.text, term) * f.weight))
+      if (best === 0) {
+        matchedAll = false
+        break
+      }
+      score += best
+    }
+    if (!matchedAll) continue
+    results.push({
+      ...doc,
+      score,
+      titleSegments: highlightText(doc.title, query.terms),
+      snippet: query.terms.length > 0 ? snippetFor(doc, query.terms) : undefined,
+    })
+  }
+  return results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+}
+
+export async function search(text: string, asOf?: string): Promise<SearchResult[]> {
+  const query = parseSearchQuery(text)
+  if (isEmptyQuery(query)) return []
+  return searchDocuments(await buildSearchIndex(asOf), query)
+}
+
+// Ids of one kind of record matching a query, or null when the query is empty
+// (for lists that filter in place rather than showing ranked results)
+export function matchingIds(documents: SearchDocument[], text: string, kind: SearchResultKind): Set<number> | null {
+  const query = parseSearchQuery(text)
+  if (isEmptyQuery(query)) return null
+  return new Set(searchDocuments(documents, query).filter(r => r.kind === kind).map(r => r.id))
+}
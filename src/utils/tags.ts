@@ -0,0 +1,132 @@
+import { db, getActiveScenarioId } from '../db'
+import type { ItemRecord, TagDefinition } from '../types'
+
+// Cache for tag definitions loaded from database. Loaded at startup so the
+// sync helpers below can be used while rendering.
+let definitionsCache: Map<string, TagDefinition> | null = null
+
+export async function loadTagDefinitions(): Promise<TagDefinition[]> {
+  if (definitionsCache) return Array.from(definitionsCache.values())
+  try {
+    const definitions = await db.tagDefinitions.toArray()
+    definitionsCache = new Map(definitions.map(d => [d.name, d]))
+    return definitions
+  } catch (e) {
+    console.error('Failed to load tag definitions from DB:', e)
+    return []
+  }
+}
+
+export function invalidateTagDefinitionsCache() {
+  definitionsCache = null
+}
+
+export function getTagDefinition(tag: string): TagDefinition | undefined {
+  return definitionsCache?.get(tag)
+}
+
+// Split a structured "category:value" tag; plain tags have no category part
+export function parseTag(tag: string): { category?: string; value: string } {
+  const index = tag.indexOf(':')
+  if (index <= 0 || index === tag.length - 1) return { value: tag }
+  return { category: tag.slice(0, index).trim(), value: tag.slice(index + 1).trim() }
+}
+
+export function getTagCategory(tag: string): string | undefined {
+  return parseTag(tag).category || getTagDefinition(tag)?.category || undefined
+}
+
+// Fill and stroke for a tag: its assigned colour, or one derived from the text
+export function getTagColors(tag: string): { fill: string; stroke: string } {
+  const color = getTagDefinition(tag)?.color
+  if (color) return { fill: `${color}33`, stroke: color }
+  let hash = 0
+  for (let i = 0; i < tag.length; i++) {
+    hash = tag.charCodeAt(i) + ((hash << 5) - hash)
+  }
+  const hue = Math.abs(hash) % 360
+  return { fill: `hsl(${hue}, 70%, 85%)`, stroke: `hsl(${hue}, 70%, 50%)` }
+}
+
+// An item's tags in a category, or all of them when no category is given
+export function tagsInCategory(tags: string[], category: string): string[] {
+  return category ? tags.filter(t => getTagCategory(t) === category) : tags
+}
+
+// Categories used by the given tags, sorted
+export function getTagCategories(tags: Iterable<string>): string[] {
+  const categories = new Set<string>()
+  for (const tag of tags) {
+    const category = getTagCategory(tag)
+    if (category) categories.add(category)
+  }
+  return Array.from(categories).sort((a, b) => a.localeCompare(b))
+}
+
+// Number of items using each tag
+export function countTagUsage(items: ItemRecord[]): Map<string, number> {
+  const usage = new Map<string, number>()
+  for (const item of items) {
+    for (const tag of new Set(item.tags || [])) usage.set(tag, (usage.get(tag) || 0) + 1)
+  }
+  return usage
+}
+
+// Set a tag's colour and category; a definition with neither is removed
+export async function saveTagDefinition(name: string, values: { color?: string; category?: string }): Promise<void> {
+  const color = values.color || undefined
+  const category = values.category?.trim() || undefined
+  await db.transaction('rw', db.tagDefinitions, async () => {
+    const current = await db.tagDefinitions.where('name').equals(name).first()
+    const now = Date.now()
+    if (!color && !category) {
+      if (current) await db.tagDefinitions.delete(current.id!)
+    } else if (current) {
+      await db.tagDefinitions.update(current.id!, { color, category, updatedAt: now })
+    } else {
+      await db.tagDefinitions.add({ name, color, category, createdAt: now, updatedAt: now })
+    }
+  })
+  invalidateTagDefinitionsCache()
+  await loadTagDefinitions()
+}
+
+// Replace tags on every item: each source tag becomes the target, or is removed
+// when there is no target. The target keeps its own definition if it has one,
+// otherwise it takes over a source's. Returns the number of items changed.
+async function replaceTags(sources: string[], target: string | null): Promise<number> {
+  if (getActiveScenarioId() !== null) throw new Error('Tags cannot be renamed, merged or deleted while a scenario is active')
+  const sourceSet = new Set(sources.filter(t => t !== target))
+  if (sourceSet.size === 0) return 0
+  const changed = await db.transaction('rw', [db.items, db.tagDefinitions], async () => {
+    const count = await db.items.where('tags').anyOf(Array.from(sourceSet)).distinct().modify(item => {
+      const tags = item.tags.map(t => sourceSet.has(t) ? target : t).filter((t): t is string => t !== null)
+      item.tags = Array.from(new Set(tags))
+      item.updatedAt = Date.now()
+    })
+    const definitions = await db.tagDefinitions.where('name').anyOf(Array.from(sourceSet)).toArray()
+    const targetDefined = target !== null && !!(await db.tagDefinitions.where('name').equals(target).first())
+    const keep = target !== null && !targetDefined ? definitions[0] : undefined
+    await db.tagDefinitions.bulkDelete(definitions.filter(d => d !== keep).map(d => d.id!))
+    if (keep) await db.tagDefinitions.update(keep.id!, { name: target!, updatedAt: Date.now() })
+    return count
+  })
+  invalidateTagDefinitionsCache()
+  await loadTagDefinitions()
+  return changed
+}
+
+export async function renameTag(tag: string, newName: string): Promise<number> {
+  const name = newName.trim()
+  if (!name) throw new Error('Name is required')
+  return await replaceTags([tag], name)
+}
+
+// Items with any of the tags get the target tag instead
+export async function mergeTags(tags: string[], target: string): Promise<number> {
+  return await replaceTags(tags, target)
+}
+
+export async function deleteTag(tag: string): Promise<number> {
+  return await replaceTags([tag], null)
+}
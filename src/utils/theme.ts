@@ -1,3 +1,5 @@
+import { workspaceStorage } from './workspaceStorage'
+
 export interface ThemeColors {
   primary: string // Used for: Primary, Default (no status)
   secondary: string
@@ -49,7 +51,7 @@ export const defaultTheme: Theme = {
 }
 
 export function loadTheme(): Theme {
-  const saved = localStorage.getItem('app-theme')
+  const saved = workspaceStorage.getItem('app-theme')
   if (saved) {
     try {
       return JSON.parse(saved)
@@ -61,7 +63,7 @@ export function loadTheme(): Theme {
 }
 
 export function saveTheme(theme: Theme): void {
-  localStorage.setItem('app-theme', JSON.stringify(theme))
+  workspaceStorage.setItem('app-theme', JSON.stringify(theme))
 }
 
 export function applyTheme(theme: Theme): void {
@@ -0,0 +1,192 @@
+import { db, getActiveScenarioId } from '../db'
+import { findRelationship } from './relationships'
+import type { ItemRecord, MeetingNote, TrashEntry } from '../types'
+import { workspaceStorage } from './workspaceStorage'
+
+const RETENTION_KEY = 'trash-retention-days'
+const DEFAULT_RETENTION_DAYS = 30
+
+export function getTrashRetentionDays(): number {
+  const saved = Number(workspaceStorage.getItem(RETENTION_KEY))
+  return saved > 0 ? saved : DEFAULT_RETENTION_DAYS
+}
+
+export function saveTrashRetentionDays(days: number): void {
+  try {
+    workspaceStorage.setItem(RETENTION_KEY, String(days))
+  } catch (e) {
+    console.error('Failed to save trash retention:', e)
+  }
+}
+
+const TRASH_TABLES = [db.items, db.relationships, db.lenses, db.meetingNotes, db.tasks, db.teamMembers, db.trash]
+
+// Remove items with their relationships, and detach them from tasks and notes,
+// recording everything on the trash entry so it can be put back.
+async function detachItems(items: ItemRecord[], entry: TrashEntry) {
+  const itemIds = items.map(i => i.id!)
+  const idSet = new Set(itemIds)
+  const fromRels = await db.relationships.where('fromItemId').anyOf(itemIds).toArray()
+  const toRels = await db.relationships.where('toItemId').anyOf(itemIds).toArray()
+  const relationships = [...fromRels, ...toRels.filter(r => !idSet.has(r.fromItemId))]
+
+  entry.items = items
+  entry.relationships = relationships
+  entry.taskItemReferences = []
+  entry.noteRelatedItems = []
+  entry.childParentRefs = []
+
+  for (const task of await db.tasks.filter(t => t.itemReferences.some(id => idSet.has(id))).toArray()) {
+    entry.taskItemReferences.push({ taskId: task.id!, itemIds: task.itemReferences.filter(id => idSet.has(id)) })
+    await db.tasks.update(task.id!, { itemReferences: task.itemReferences.filter(id => !idSet.has(id)) })
+  }
+  for (const note of await db.meetingNotes.filter(n => !!n.relatedItems?.some(id => idSet.has(id))).toArray()) {
+    entry.noteRelatedItems.push({ noteId: note.id!, itemIds: note.relatedItems!.filter(id => idSet.has(id)) })
+    await db.meetingNotes.update(note.id!, { relatedItems: note.relatedItems!.filter(id => !idSet.has(id)) })
+  }
+
+  // Children that stay behind move up to the removed item's own parent
+  const byId = new Map(items.map(i => [i.id!, i]))
+  for (const child of await db.items.where('parentId').anyOf(itemIds).toArray()) {
+    if (idSet.has(child.id!)) continue
+    let parent = byId.get(child.parentId!)
+    const seen = new Set<number>()
+    while (parent?.parentId !== undefined && idSet.has(parent.parentId) && !seen.has(parent.id!)) {
+      seen.add(parent.id!)
+      parent = byId.get(parent.parentId)
+    }
+    const grandparent = parent?.parentId !== undefined ? await db.items.get(parent.parentId) : undefined
+    entry.childParentRefs.push({ itemId: child.id!, parentId: child.parentId! })
+    await db.items.update(child.id!, { parentId: grandparent?.id, parent: grandparent?.name })
+  }
+
+  await db.relationships.bulkDelete(relationships.map(r => r.id!))
+  await db.items.bulkDelete(itemIds)
+}
+
+// Inside a scenario an item is simply removed from the working copy: tasks,
+// notes and the trash are shared with the baseline and stay untouched
+async function removeScenarioItem(itemId: number) {
+  await db.transaction('rw', [db.items, db.relationships], async () => {
+    const item = await db.items.get(itemId)
+    if (!item) return
+    const parent = item.parentId !== undefined ? await db.items.get(item.parentId) : undefined
+    await db.items.where('parentId').equals(itemId).modify({ parentId: parent?.id, parent: parent?.name })
+    await db.relationships.where('fromItemId').equals(itemId).delete()
+    await db.relationships.where('toItemId').equals(itemId).delete()
+    await db.items.delete(itemId)
+  })
+}
+
+export async function trashItem(itemId: number): Promise<void> {
+  if (getActiveScenarioId() !== null) return await removeScenarioItem(itemId)
+  await db.transaction('rw', TRASH_TABLES, async () => {
+    const item = await db.items.get(itemId)
+    if (!item) return
+    const entry: TrashEntry = { kind: 'item', label: item.name, deletedAt: Date.now() }
+    await detachItems([item], entry)
+    await db.trash.add(entry)
+  })
+}
+
+export async function trashLens(lensId: number): Promise<void> {
+  if (getActiveScenarioId() !== null) throw new Error('Lenses cannot be deleted while a scenario is active')
+  await db.transaction('rw', TRASH_TABLES, async () => {
+    const lens = await db.lenses.get(lensId)
+    if (!lens) return
+    const entry: TrashEntry = { kind: 'lens', label: lens.label, deletedAt: Date.now(), lenses: [lens] }
+    const items = await db.items.where('lens').equals(lens.key).toArray()
+    await detachItems(items, entry)
+    await db.lenses.delete(lensId)
+    await db.trash.add(entry)
+  })
+}
+
+export async function trashMeetingNote(noteId: number): Promise<void> {
+  await db.transaction('rw', TRASH_TABLES, async () => {
+    const note = await db.meetingNotes.get(noteId)
+    if (!note) return
+    const tasks = await db.tasks.where('meetingNoteId').equals(noteId).toArray()
+    await db.tasks.bulkDelete(tasks.map(t => t.id!))
+    await db.meetingNotes.delete(noteId)
+    await db.trash.add({ kind: 'meetingNote', label: note.title || '(Untitled)', deletedAt: Date.now(), meetingNotes: [note], tasks })
+  })
+}
+
+// Person references on items, tasks and notes keep the member's id, so they
+// reconnect automatically when the member is restored.
+export async function trashTeamMember(memberId: number): Promise<void> {
+  await db.transaction('rw', TRASH_TABLES, async () => {
+    const member = await db.teamMembers.get(memberId)
+    if (!member) return
+    await db.teamMembers.delete(memberId)
+    await db.trash.add({ kind: 'teamMember', label: member.name, deletedAt: Date.now(), teamMembers: [member] })
+  })
+}
+
+// Put a trash entry back: the record, its dependents and any detached references
+export async function restoreTrashEntry(entryId: number): Promise<void> {
+  if (getActiveScenarioId() !== null) throw new Error('Switch back to the baseline to restore from the trash')
+  await db.transaction('rw', TRASH_TABLES, async () => {
+    const entry = await db.trash.get(entryId)
+    if (!entry) return
+
+    for (const lens of entry.lenses || []) {
+      if (await db.lenses.where('key').equals(lens.key).first()) {
+        throw new Error(`A lens with the key "${lens.key}" already exists`)
+      }
+    }
+    for (const item of entry.items || []) {
+      if (await db.items.where('[lens+name]').equals([item.lens, item.name]).first()) {
+        throw new Error(`An item named "${item.name}" already exists in that lens`)
+      }
+    }
+    for (const member of entry.teamMembers || []) {
+      if (await db.teamMembers.where('name').equals(member.name).first()) {
+        throw new Error(`A team member named "${member.name}" already exists`)
+      }
+    }
+
+    if (entry.lenses?.length) await db.lenses.bulkAdd(entry.lenses)
+    if (entry.items?.length) await db.items.bulkAdd(entry.items)
+    if (entry.teamMembers?.length) await db.teamMembers.bulkAdd(entry.teamMembers)
+    if (entry.meetingNotes?.length) await db.meetingNotes.bulkAdd(entry.meetingNotes)
+    if (entry.tasks?.length) await db.tasks.bulkAdd(entry.tasks)
+
+    // Relationships to items that have since been deleted cannot come back
+    for (const rel of entry.relationships || []) {
+      const [from, to] = await db.items.bulkGet([rel.fromItemId, rel.toItemId])
+      if (!from || !to) continue
+      if (!(await findRelationship(rel.fromItemId, rel.toItemId))) await db.relationships.add(rel)
+    }
+
+    for (const ref of entry.taskItemReferences || []) {
+      const task = await db.tasks.get(ref.taskId)
+      if (task) await db.tasks.update(ref.taskId, { itemReferences: Array.from(new Set([...task.itemReferences, ...ref.itemIds])) })
+    }
+    for (const ref of entry.noteRelatedItems || []) {
+      const note: MeetingNote | undefined = await db.meetingNotes.get(ref.noteId)
+      if (note) await db.meetingNotes.update(ref.noteId, { relatedItems: Array.from(new Set([...(note.relatedItems || []), ...ref.itemIds])) })
+    }
+    for (const ref of entry.childParentRefs || []) {
+      const [child, parent] = await db.items.bulkGet([ref.itemId, ref.parentId])
+      if (child && parent && child.lens === parent.lens) await db.items.update(ref.itemId, { parentId: parent.id, parent: parent.name })
+    }
+
+    await db.trash.delete(entryId)
+  })
+}
+
+export async function purgeTrashEntry(entryId: number): Promise<void> {
+  await db.trash.delete(entryId)
+}
+
+export async function emptyTrash(): Promise<void> {
+  await db.trash.clear()
+}
+
+// Permanently remove entries older than the retention period
+export async function purgeExpiredTrash(): Promise<number> {
+  const cutoff = Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000
+  return await db.trash.where('deletedAt').below(cutoff).delete()
+}
@@ -0,0 +1,97 @@
+import type { Workspace } from '../types'
+
+// Workspaces are listed in localStorage outside any workspace. Each one has its
+// own IndexedDB database and its own localStorage keys: the default workspace
+// keeps the original database name and unprefixed keys, so data from before
+// workspaces existed stays where it was.
+
+const WORKSPACES_KEY = 'workspaces'
+const ACTIVE_WORKSPACE_KEY = 'active-workspace-id'
+const KEY_PREFIX = 'workspace:'
+
+export const DEFAULT_WORKSPACE_ID = 'default'
+const DEFAULT_DATABASE_NAME = 'arch-lenses-db'
+
+// Keys shared by all workspaces
+const GLOBAL_KEYS = new Set([WORKSPACES_KEY, ACTIVE_WORKSPACE_KEY])
+
+// All workspaces, the default one first
+export function getWorkspaces(): Workspace[] {
+  let saved: Workspace[] = []
+  try {
+    const stored = localStorage.getItem(WORKSPACES_KEY)
+    if (stored) saved = JSON.parse(stored)
+  } catch (e) {
+    console.error('Failed to load workspaces:', e)
+  }
+  const defaultWorkspace = saved.find(w => w.id === DEFAULT_WORKSPACE_ID) || { id: DEFAULT_WORKSPACE_ID, name: 'Default', createdAt: 0 }
+  return [defaultWorkspace, ...saved.filter(w => w.id !== DEFAULT_WORKSPACE_ID)]
+}
+
+export function saveWorkspaces(workspaces: Workspace[]): void {
+  try {
+    localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces))
+  } catch (e) {
+    console.error('Failed to save workspaces:', e)
+  }
+}
+
+export function getActiveWorkspaceId(): string {
+  const saved = localStorage.getItem(ACTIVE_WORKSPACE_KEY)
+  return saved && getWorkspaces().some(w => w.id === saved) ? saved : DEFAULT_WORKSPACE_ID
+}
+
+export function getActiveWorkspace(): Workspace {
+  const id = getActiveWorkspaceId()
+  return getWorkspaces().find(w => w.id === id)!
+}
+
+// Takes effect on the next page load, when the database is opened
+export function setActiveWorkspaceId(id: string): void {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id)
+}
+
+export function workspaceDatabaseName(id: string): string {
+  return id === DEFAULT_WORKSPACE_ID ? DEFAULT_DATABASE_NAME : `${DEFAULT_DATABASE_NAME}-${id}`
+}
+
+function scopedKey(key: string, workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `${KEY_PREFIX}${workspaceId}:${key}`
+}
+
+// Unscoped names of the localStorage keys a workspace has set
+export function workspaceStorageKeys(workspaceId: string): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key || GLOBAL_KEYS.has(key)) continue
+    if (workspaceId === DEFAULT_WORKSPACE_ID) {
+      if (!key.startsWith(KEY_PREFIX)) keys.push(key)
+    } else if (key.startsWith(`${KEY_PREFIX}${workspaceId}:`)) {
+      keys.push(key.slice(`${KEY_PREFIX}${workspaceId}:`.length))
+    }
+  }
+  return keys
+}
+
+export function readWorkspaceStorage(workspaceId: string, key: string): string | null {
+  return localStorage.getItem(scopedKey(key, workspaceId))
+}
+
+export function writeWorkspaceStorage(workspaceId: string, key: string, value: string | null): void {
+  if (value === null) localStorage.removeItem(scopedKey(key, workspaceId))
+  else localStorage.setItem(scopedKey(key, workspaceId), value)
+}
+
+// localStorage for the active workspace; use it for every saved setting
+export const workspaceStorage = {
+  getItem(key: string): string | null {
+    return readWorkspaceStorage(getActiveWorkspaceId(), key)
+  },
+  setItem(key: string, value: string): void {
+    writeWorkspaceStorage(getActiveWorkspaceId(), key, value)
+  },
+  removeItem(key: string): void {
+    writeWorkspaceStorage(getActiveWorkspaceId(), key, null)
+  },
+}
@@ -0,0 +1,85 @@
+import Dexie from 'dexie'
+import { ArchLensesDB } from '../db'
+import type { Workspace } from '../types'
+import {
+  DEFAULT_WORKSPACE_ID,
+  getActiveWorkspaceId,
+  getWorkspaces,
+  readWorkspaceStorage,
+  saveWorkspaces,
+  setActiveWorkspaceId,
+  workspaceDatabaseName,
+  workspaceStorageKeys,
+  writeWorkspaceStorage,
+} from './workspaceStorage'
+
+function checkName(name: string, exceptId?: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name is required')
+  if (getWorkspaces().some(w => w.id !== exceptId && w.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A workspace named "${trimmed}" already exists`)
+  }
+  return trimmed
+}
+
+function newWorkspace(name: string): Workspace {
+  return { id: `ws-${Date.now().toString(36)}`, name, createdAt: Date.now() }
+}
+
+// Its database is created, with the default lenses, when it is first opened
+export function createWorkspace(name: string): Workspace {
+  const workspace = newWorkspace(checkName(name))
+  saveWorkspaces([...getWorkspaces(), workspace])
+  return workspace
+}
+
+export function renameWorkspace(id: string, name: string): void {
+  const trimmed = checkName(name, id)
+  saveWorkspaces(getWorkspaces().map(w => w.id === id ? { ...w, name: trimmed } : w))
+}
+
+// Copy a workspace's database and settings into a new workspace
+export async function duplicateWorkspace(id: string, name: string): Promise<Workspace> {
+  const workspace = newWorkspace(checkName(name))
+  // Plain connections, without the scenario routing and history hooks of db
+  const source = new ArchLensesDB(workspaceDatabaseName(id))
+  const target = new ArchLensesDB(workspaceDatabaseName(workspace.id))
+  try {
+    await source.open()
+    await target.open()
+    await target.transaction('rw', target.tables, async () => {
+      for (const table of source.tables) {
+        const rows = await table.toArray()
+        if (rows.length > 0) await target.table(table.name).bulkAdd(rows)
+      }
+    })
+  } catch (e) {
+    target.close()
+    await Dexie.delete(target.name)
+    throw e
+  } finally {
+    source.close()
+    target.close()
+  }
+  for (const key of workspaceStorageKeys(id)) {
+    writeWorkspaceStorage(workspace.id, key, readWorkspaceStorage(id, key))
+  }
+  saveWorkspaces([...getWorkspaces(), workspace])
+  return workspace
+}
+
+// Permanently delete a workspace's database and settings
+export async function deleteWorkspace(id: string): Promise<void> {
+  if (id === DEFAULT_WORKSPACE_ID) throw new Error('The default workspace cannot be deleted')
+  if (id === getActiveWorkspaceId()) throw new Error('Switch to another workspace before deleting this one')
+  await Dexie.delete(workspaceDatabaseName(id))
+  for (const key of workspaceStorageKeys(id)) writeWorkspaceStorage(id, key, null)
+  saveWorkspaces(getWorkspaces().filter(w => w.id !== id))
+}
+
+// The database is opened once per page load, so switching reloads the app
+export function switchWorkspace(id: string): void {
+  if (id === getActiveWorkspaceId()) return
+  setActiveWorkspaceId(id)
+  window.location.reload()
+}